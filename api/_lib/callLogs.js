@@ -0,0 +1,63 @@
+/**
+ * Call outcome tracking in `call_logs`
+ * Each row is one event of a call placed by initiate-call: a lifecycle event from Twilio's status
+ * callbacks (call-status) or speech captured during the conversation (process-speech). The
+ * extension groups the rows by call SID.
+ */
+
+// Twilio CallStatus → the event recorded for it
+const CALL_STATUS_EVENTS = {
+  queued: 'initiated',
+  initiated: 'initiated',
+  ringing: 'ringing',
+  'in-progress': 'answered',
+  completed: 'completed',
+  busy: 'busy',
+  'no-answer': 'no-answer',
+  failed: 'failed',
+  canceled: 'canceled',
+};
+
+const MAX_SPEECH_LENGTH = 2000;
+
+function getCallEvent(callStatus) {
+  return CALL_STATUS_EVENTS[callStatus] || null;
+}
+
+async function recordCallEvent(supabase, { userId, callSid, trigger, recipient, event, answeredBy, durationSeconds, speech }) {
+  const { error } = await supabase.from('call_logs').insert({
+    user_id: userId,
+    call_sid: callSid,
+    trigger,
+    recipient: recipient || null,
+    event,
+    answered_by: answeredBy || null,
+    duration_seconds: Number.isFinite(durationSeconds) ? durationSeconds : null,
+    speech: speech ? speech.substring(0, MAX_SPEECH_LENGTH) : null,
+  });
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * The user, trigger and recipient of a call with logged events, or null for calls we didn't place
+ */
+async function findCall(supabase, callSid) {
+  const { data: row, error } = await supabase
+    .from('call_logs')
+    .select('user_id, trigger, recipient')
+    .eq('call_sid', callSid)
+    .limit(1)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  return row ? { userId: row.user_id, trigger: row.trigger, recipient: row.recipient } : null;
+}
+
+module.exports = {
+  findCall,
+  getCallEvent,
+  recordCallEvent,
+};
@@ -0,0 +1,209 @@
+/**
+ * Shared helpers for the escalation functions (initiate-call, escalate, verify-contact) and the
+ * Twilio webhooks
+ * Files under api/_lib are not deployed as functions of their own.
+ *
+ * Provider base URLs can be overridden (TWILIO_API_BASE_URL, EMAIL_API_BASE_URL) to run the
+ * functions against a local stand-in server instead of Twilio and the email API.
+ */
+
+const { createClient } = require('@supabase/supabase-js');
+const twilio = require('twilio');
+
+const SUPABASE_URL = (process.env.SUPABASE_URL || '').replace(/\/+$/, '');
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+const TWILIO_API_BASE_URL = (process.env.TWILIO_API_BASE_URL || 'https://api.twilio.com').replace(/\/+$/, '');
+const TWILIO_ACCOUNT_SID = process.env.TWILIO_ACCOUNT_SID || '';
+const TWILIO_AUTH_TOKEN = process.env.TWILIO_AUTH_TOKEN || '';
+const TWILIO_PHONE_NUMBER = process.env.TWILIO_PHONE_NUMBER || '';
+// Where this deployment is reached, for the URLs handed to Twilio and to check its signatures
+const PUBLIC_BASE_URL = (process.env.PUBLIC_BASE_URL || '').replace(/\/+$/, '');
+
+// Per-user rate limits for each channel, counted over the attempts in `escalation_requests`
+const RATE_LIMITS = {
+  voice: { minIntervalSeconds: 2 * 60, perHour: 3, perDay: 10 },
+  sms: { minIntervalSeconds: 60, perHour: 5, perDay: 20 },
+  email: { minIntervalSeconds: 60, perHour: 5, perDay: 20 },
+  verification: { minIntervalSeconds: 30, perHour: 5, perDay: 10 },
+};
+
+// Twilio's error for messages to a number that replied STOP
+const TWILIO_UNSUBSCRIBED_ERROR = 21610;
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+const TRIGGERS = ['productiveStreak', 'budget', 'credits', 'test'];
+
+function isSupabaseConfigured() {
+  return Boolean(SUPABASE_URL && SUPABASE_SERVICE_ROLE_KEY);
+}
+
+function isTwilioConfigured() {
+  return Boolean(TWILIO_ACCOUNT_SID && TWILIO_AUTH_TOKEN && TWILIO_PHONE_NUMBER && PUBLIC_BASE_URL);
+}
+
+function createServiceClient() {
+  return createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+/**
+ * The Supabase user behind the request's `Authorization: Bearer` access token, or null
+ */
+async function authenticate(req, supabase) {
+  const authHeader = req.headers.authorization || '';
+  const accessToken = authHeader.startsWith('Bearer ') ? authHeader.slice('Bearer '.length) : '';
+  if (!accessToken) {
+    return null;
+  }
+  const { data: { user }, error } = await supabase.auth.getUser(accessToken);
+  return error ? null : user;
+}
+
+function parseTrigger(value) {
+  return TRIGGERS.includes(value) ? value : 'productiveStreak';
+}
+
+function isE164(value) {
+  return typeof value === 'string' && E164_PATTERN.test(value);
+}
+
+/**
+ * The user's contacts that may be called or messaged: verified and not opted out, oldest first
+ */
+async function getUsableContacts(supabase, userId) {
+  const { data: contacts, error } = await supabase
+    .from('accountability_contacts')
+    .select('id, name, phone')
+    .eq('user_id', userId)
+    .not('verified_at', 'is', null)
+    .is('opted_out_at', null)
+    .order('created_at', { ascending: true });
+  if (error) {
+    throw error;
+  }
+  return contacts.filter((contact) => isE164(contact.phone));
+}
+
+/**
+ * Set or clear the opt-out of every contact with this number. An opt-out applies to the number,
+ * whichever user added it, just as Twilio blocks it for the whole sending number.
+ */
+async function setOptedOut(supabase, phone, optedOut) {
+  const { error } = await supabase
+    .from('accountability_contacts')
+    .update({ opted_out_at: optedOut ? new Date().toISOString() : null })
+    .eq('phone', phone);
+  if (error) {
+    throw error;
+  }
+  console.log(optedOut ? 'Contact opted out:' : 'Contact opted back in:', phone);
+}
+
+/**
+ * Whether a twilioRequest error means the recipient has opted out
+ */
+function isUnsubscribedError(error) {
+  return error.code === TWILIO_UNSUBSCRIBED_ERROR;
+}
+
+/**
+ * Reserve one of the user's attempts on the channel, or respond with 429 and return null when
+ * they're over its limits. The `reserve_escalation_request` function checks the limits and records
+ * the attempt in one transaction, holding a lock for the user and channel, so concurrent requests
+ * can't both take the last slot. Returns a function that records how the attempt went; failed
+ * attempts count toward the limits too.
+ */
+async function reserveRequest(res, supabase, { userId, channel, trigger, recipient }) {
+  const limits = RATE_LIMITS[channel];
+  const { data: reservation, error } = await supabase
+    .rpc('reserve_escalation_request', {
+      p_user_id: userId,
+      p_channel: channel,
+      p_trigger: trigger,
+      p_recipient: recipient,
+      p_min_interval_seconds: limits.minIntervalSeconds,
+      p_per_hour: limits.perHour,
+      p_per_day: limits.perDay,
+    })
+    .single();
+  if (error) {
+    throw error;
+  }
+  if (reservation.retry_after_seconds > 0) {
+    const retryAfterSeconds = reservation.retry_after_seconds;
+    console.log('Rate limited escalation:', { userId, channel, retryAfterSeconds });
+    res.setHeader('Retry-After', String(retryAfterSeconds));
+    res.status(429).json({ error: 'Too many requests, try again later', retryAfterSeconds });
+    return null;
+  }
+  return async (outcome) => {
+    const { error: updateError } = await supabase.from('escalation_requests').update(outcome).eq('id', reservation.request_id);
+    if (updateError) {
+      console.error('Error updating escalation request:', updateError);
+    }
+  };
+}
+
+/**
+ * POST form parameters to the Twilio REST API (e.g. "Calls.json", "Messages.json"); returns the
+ * created resource or throws with Twilio's message. Array values are sent as repeated parameters.
+ */
+async function twilioRequest(resource, params) {
+  const form = new URLSearchParams({ From: TWILIO_PHONE_NUMBER });
+  for (const [key, value] of Object.entries(params)) {
+    for (const item of [].concat(value)) {
+      form.append(key, item);
+    }
+  }
+  const credentials = Buffer.from(`${TWILIO_ACCOUNT_SID}:${TWILIO_AUTH_TOKEN}`).toString('base64');
+  const response = await fetch(`${TWILIO_API_BASE_URL}/2010-04-01/Accounts/${TWILIO_ACCOUNT_SID}/${resource}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${credentials}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: form.toString(),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const error = new Error(`Twilio ${response.status}: ${body.message || response.statusText}`);
+    error.code = body.code;
+    throw error;
+  }
+  return body;
+}
+
+/**
+ * URL of a function in this deployment (e.g. the twilio-voice webhook), with optional query
+ * parameters. Built from PUBLIC_BASE_URL, never from the request's (client-controlled) host headers.
+ */
+function getFunctionUrl(name, query) {
+  const search = query ? `?${new URLSearchParams(query).toString()}` : '';
+  return `${PUBLIC_BASE_URL}/api/${name}${search}`;
+}
+
+/**
+ * Whether a webhook request was signed by Twilio (X-Twilio-Signature over the full URL, query
+ * included, and the form parameters)
+ */
+function isSignedByTwilio(req) {
+  const signature = req.headers['x-twilio-signature'] || '';
+  return Boolean(TWILIO_AUTH_TOKEN) && twilio.validateRequest(TWILIO_AUTH_TOKEN, signature, `${PUBLIC_BASE_URL}${req.url}`, req.body || {});
+}
+
+module.exports = {
+  authenticate,
+  createServiceClient,
+  getFunctionUrl,
+  getUsableContacts,
+  isE164,
+  isSignedByTwilio,
+  isSupabaseConfigured,
+  isTwilioConfigured,
+  isUnsubscribedError,
+  parseTrigger,
+  reserveRequest,
+  setOptedOut,
+  twilioRequest,
+};
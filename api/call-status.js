@@ -0,0 +1,54 @@
+/**
+ * Vercel Serverless Function for Twilio's call status callbacks
+ * initiate-call registers this URL, with the user and trigger in its query, for the initiated,
+ * ringing, answered and completed events of each call it places. Every event is recorded in
+ * `call_logs`, with the duration once the call is over and, thanks to answering machine
+ * detection, whether a person or voicemail picked up.
+ *
+ * Requests are checked against Twilio's X-Twilio-Signature, which covers the query too.
+ */
+
+const { createServiceClient, isSignedByTwilio, isSupabaseConfigured, isTwilioConfigured, parseTrigger } = require('./_lib/escalation');
+const { getCallEvent, recordCallEvent } = require('./_lib/callLogs');
+
+module.exports = async (req, res) => {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isSupabaseConfigured() || !isTwilioConfigured()) {
+    console.error('call-status is missing SUPABASE_* or TWILIO_* environment variables');
+    return res.status(500).json({ error: 'Call tracking is not configured on the server' });
+  }
+
+  if (!isSignedByTwilio(req)) {
+    console.error('Rejected call status callback with an invalid Twilio signature');
+    return res.status(403).json({ error: 'Invalid signature' });
+  }
+
+  const body = req.body || {};
+  const userId = req.query?.userId;
+  const event = getCallEvent(body.CallStatus);
+  if (!userId || !body.CallSid || !event) {
+    console.error('Ignoring call status callback:', { callSid: body.CallSid, callStatus: body.CallStatus });
+    return res.status(204).end();
+  }
+
+  try {
+    await recordCallEvent(createServiceClient(), {
+      userId,
+      callSid: body.CallSid,
+      trigger: parseTrigger(req.query.trigger),
+      recipient: body.To,
+      event,
+      answeredBy: body.AnsweredBy,
+      durationSeconds: body.CallDuration !== undefined ? Number(body.CallDuration) : undefined,
+    });
+    console.log('Call event:', { callSid: body.CallSid, event, answeredBy: body.AnsweredBy });
+    return res.status(204).end();
+  } catch (error) {
+    console.error('Error recording call event:', error);
+    console.error('Error stack:', error.stack);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+};
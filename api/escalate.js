@@ -0,0 +1,167 @@
+/**
+ * Vercel Serverless Function for message escalations (SMS and email)
+ * Like initiate-call, the user is authenticated with their Supabase access token and the recipients
+ * are looked up here: SMS goes to every verified contact who hasn't opted out, email to the
+ * contact email in `profiles`.
+ *
+ * Email is sent through a Resend-compatible API (POST {EMAIL_API_BASE_URL}/emails). Nobody
+ * verified the contact email, so its text comes from fixed templates keyed by the trigger; the
+ * title and message the extension sends only go out by SMS, to contacts who confirmed their number.
+ */
+
+const {
+  authenticate,
+  createServiceClient,
+  getUsableContacts,
+  isSupabaseConfigured,
+  isTwilioConfigured,
+  isUnsubscribedError,
+  parseTrigger,
+  reserveRequest,
+  setOptedOut,
+  twilioRequest,
+} = require('./_lib/escalation');
+
+const EMAIL_API_BASE_URL = (process.env.EMAIL_API_BASE_URL || 'https://api.resend.com').replace(/\/+$/, '');
+const EMAIL_API_KEY = process.env.EMAIL_API_KEY || '';
+const EMAIL_FROM = process.env.EMAIL_FROM || '';
+
+const MAX_TITLE_LENGTH = 100;
+const MAX_MESSAGE_LENGTH = 600;
+
+const CHANNEL_LABELS = {
+  sms: 'SMS',
+  email: 'email',
+};
+
+const EMAIL_TEMPLATES = {
+  productiveStreak: {
+    subject: 'Productive streak',
+    text: 'Your Scrollify accountability partner has been on productive sites for a while without a break.',
+  },
+  budget: {
+    subject: 'Daily budget used up',
+    text: 'Your Scrollify accountability partner used up one of their daily time budgets.',
+  },
+  credits: {
+    subject: 'Out of scroll credits',
+    text: 'Your Scrollify accountability partner ran out of scroll credits on a distracting site.',
+  },
+  test: {
+    subject: 'Test escalation',
+    text: 'This is a test of the email channel from Scrollify.',
+  },
+};
+
+async function sendSms(to, title, message) {
+  const sms = await twilioRequest('Messages.json', { To: to, Body: `Scrollify: ${title}\n${message}` });
+  return sms.sid;
+}
+
+async function sendEmail(to, trigger) {
+  const template = EMAIL_TEMPLATES[trigger];
+  const response = await fetch(`${EMAIL_API_BASE_URL}/emails`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${EMAIL_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ from: EMAIL_FROM, to: [to], subject: `Scrollify: ${template.subject}`, text: template.text }),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`Email API ${response.status}: ${body.message || response.statusText}`);
+  }
+  return body.id;
+}
+
+async function getSmsRecipients(supabase, userId) {
+  const contacts = await getUsableContacts(supabase, userId);
+  return contacts.map((contact) => contact.phone);
+}
+
+async function getEmailRecipients(supabase, userId) {
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('contact_email')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  const email = (profile?.contact_email || '').trim();
+  return email ? [email] : [];
+}
+
+module.exports = async (req, res) => {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const channel = req.body?.channel;
+  if (!CHANNEL_LABELS[channel]) {
+    return res.status(400).json({ error: 'channel must be "sms" or "email"' });
+  }
+  const channelConfigured = channel === 'sms' ? isTwilioConfigured() : Boolean(EMAIL_API_KEY && EMAIL_FROM);
+  if (!isSupabaseConfigured() || !channelConfigured) {
+    console.error(`escalate is missing environment variables for ${channel}`);
+    return res.status(500).json({ error: `${channel === 'sms' ? 'SMS' : 'Email'} is not configured on the server` });
+  }
+
+  const title = String(req.body?.title || '').trim().substring(0, MAX_TITLE_LENGTH);
+  const message = String(req.body?.message || '').trim().substring(0, MAX_MESSAGE_LENGTH);
+  if (channel === 'sms' && (!title || !message)) {
+    return res.status(400).json({ error: 'title and message are required for SMS' });
+  }
+
+  try {
+    const supabase = createServiceClient();
+    const user = await authenticate(req, supabase);
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid or expired session' });
+    }
+
+    const trigger = parseTrigger(req.body?.trigger);
+    const recipients = channel === 'sms' ? await getSmsRecipients(supabase, user.id) : await getEmailRecipients(supabase, user.id);
+    if (recipients.length === 0) {
+      return res.status(404).json({
+        error: channel === 'sms' ? 'No verified contacts. Add and verify one in the extension.' : 'No contact email in your profile',
+      });
+    }
+
+    // One attempt per escalation, however many recipients it goes to; it counts as sent if anyone got it
+    const finishRequest = await reserveRequest(res, supabase, { userId: user.id, channel, trigger, recipient: recipients.join(', ') });
+    if (!finishRequest) {
+      return;
+    }
+    const sent = [];
+    const errors = [];
+    for (const to of recipients) {
+      try {
+        const providerId = channel === 'sms' ? await sendSms(to, title, message) : await sendEmail(to, trigger);
+        sent.push({ id: providerId, to });
+      } catch (providerError) {
+        console.error(`Error sending ${channel}:`, providerError);
+        errors.push(`${to}: ${providerError.message}`);
+        if (channel === 'sms' && isUnsubscribedError(providerError)) {
+          // They replied STOP without us receiving it; don't try them again
+          await setOptedOut(supabase, to, true);
+        }
+      }
+    }
+    await finishRequest({
+      status: sent.length > 0 ? 'sent' : 'failed',
+      provider_id: sent.length > 0 ? sent.map((item) => item.id).join(', ') : null,
+      error: errors.length > 0 ? errors.join('; ').substring(0, 500) : null,
+    });
+    if (sent.length === 0) {
+      return res.status(502).json({ error: `The ${CHANNEL_LABELS[channel]} could not be sent` });
+    }
+    console.log('Escalation sent:', { userId: user.id, channel, trigger, providerIds: sent.map((item) => item.id) });
+    return res.status(200).json({ id: sent[0].id, to: sent.map((item) => item.to).join(', ') });
+  } catch (error) {
+    console.error('Error sending escalation:', error);
+    console.error('Error stack:', error.stack);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+};
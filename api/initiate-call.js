@@ -0,0 +1,76 @@
+/**
+ * Vercel Serverless Function for placing the accountability call
+ * The extension sends the signed-in user's Supabase access token; the call goes to the user's first
+ * verified contact who hasn't opted out, and is placed with Twilio here, so no Twilio credentials
+ * ship in the extension.
+ *
+ * Every attempt is recorded in `escalation_requests`, which is also what the rate limits count.
+ * How the call went (ringing, answered by a person or voicemail, duration) is reported by Twilio to
+ * call-status and kept in `call_logs`.
+ */
+
+const {
+  authenticate,
+  createServiceClient,
+  getFunctionUrl,
+  getUsableContacts,
+  isSupabaseConfigured,
+  isTwilioConfigured,
+  parseTrigger,
+  reserveRequest,
+  twilioRequest,
+} = require('./_lib/escalation');
+
+module.exports = async (req, res) => {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isSupabaseConfigured() || !isTwilioConfigured()) {
+    console.error('initiate-call is missing SUPABASE_* or TWILIO_* environment variables');
+    return res.status(500).json({ error: 'Calling is not configured on the server' });
+  }
+
+  try {
+    const supabase = createServiceClient();
+    const user = await authenticate(req, supabase);
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid or expired session' });
+    }
+
+    const trigger = parseTrigger(req.body?.trigger);
+    const [contact] = await getUsableContacts(supabase, user.id);
+    if (!contact) {
+      return res.status(404).json({ error: 'No verified contacts. Add and verify one in the extension.' });
+    }
+    const to = contact.phone;
+
+    const finishRequest = await reserveRequest(res, supabase, { userId: user.id, channel: 'voice', trigger, recipient: to });
+    if (!finishRequest) {
+      return;
+    }
+    try {
+      // The call is answered by the twilio-voice function deployed next to this one
+      const call = await twilioRequest('Calls.json', {
+        To: to,
+        Url: getFunctionUrl('twilio-voice'),
+        Method: 'POST',
+        MachineDetection: 'Enable',
+        StatusCallback: getFunctionUrl('call-status', { userId: user.id, trigger }),
+        StatusCallbackMethod: 'POST',
+        StatusCallbackEvent: ['initiated', 'ringing', 'answered', 'completed'],
+      });
+      await finishRequest({ status: 'sent', provider_id: call.sid });
+      console.log('Call placed:', { userId: user.id, trigger, callSid: call.sid });
+      return res.status(200).json({ callSid: call.sid, to });
+    } catch (twilioError) {
+      console.error('Twilio API Error:', twilioError);
+      await finishRequest({ status: 'failed', error: twilioError.message.substring(0, 500) });
+      return res.status(502).json({ error: 'The call could not be placed' });
+    }
+  } catch (error) {
+    console.error('Error initiating call:', error);
+    console.error('Error stack:', error.stack);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+};
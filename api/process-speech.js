@@ -1,9 +1,12 @@
 /**
  * Vercel Serverless Function for Processing Speech with Deepgram Aura
  * This uses Deepgram's API to process speech and generate AI responses
+ * What the contact said is also kept in `call_logs` for calls placed by initiate-call.
  */
 
 const twilio = require('twilio');
+const { createServiceClient, getFunctionUrl, isSignedByTwilio, isSupabaseConfigured } = require('./_lib/escalation');
+const { findCall, recordCallEvent } = require('./_lib/callLogs');
 
 // Deepgram API Key from environment variable
 const DEEPGRAM_API_KEY = process.env.DEEPGRAM_API_KEY || 'fbc61c49-4226-4213-9439-0590a90db262';
@@ -13,6 +16,12 @@ module.exports = async (req, res) => {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  // What the contact said ends up in the caller's call history, so only Twilio may post it
+  if (!isSignedByTwilio(req)) {
+    console.error('Rejected speech processing request with an invalid Twilio signature');
+    return res.status(403).json({ error: 'Invalid signature' });
+  }
+
   try {
     console.log('Received speech processing request:', {
       method: req.method,
@@ -23,16 +32,14 @@ module.exports = async (req, res) => {
     const speechResult = req.body.SpeechResult || '';
     
     console.log('User said:', speechResult);
+    await recordSpeech(req.body.CallSid, speechResult);
     
     if (!speechResult) {
       twiml.say({
         voice: 'alice',
         language: 'en-US'
       }, 'I didn\'t catch that. Could you please repeat?');
-      // Get the base URL for the process-speech endpoint
-      const baseUrl = req.headers.host || req.headers['x-forwarded-host'];
-      const protocol = req.headers['x-forwarded-proto'] || 'https';
-      const processSpeechUrl = `${protocol}://${baseUrl}/api/process-speech`;
+      const processSpeechUrl = getFunctionUrl('process-speech');
       
       const gather = twiml.gather({
         input: 'speech',
@@ -70,10 +77,7 @@ module.exports = async (req, res) => {
     }
     
     // Continue the conversation
-    // Get the base URL for the process-speech endpoint
-    const baseUrl = req.headers.host || req.headers['x-forwarded-host'];
-    const protocol = req.headers['x-forwarded-proto'] || 'https';
-    const processSpeechUrl = `${protocol}://${baseUrl}/api/process-speech`;
+    const processSpeechUrl = getFunctionUrl('process-speech');
     
     const gather = twiml.gather({
       input: 'speech',
@@ -113,6 +117,26 @@ module.exports = async (req, res) => {
   }
 };
 
+/**
+ * Log what the contact said with the call; a failure here must not end the conversation
+ */
+async function recordSpeech(callSid, speech) {
+  if (!callSid || !speech || !isSupabaseConfigured()) {
+    return;
+  }
+  try {
+    const supabase = createServiceClient();
+    // Only calls we placed have events logged already (call-status records "initiated" first)
+    const call = await findCall(supabase, callSid);
+    if (!call) {
+      return;
+    }
+    await recordCallEvent(supabase, { ...call, callSid, event: 'speech', speech });
+  } catch (error) {
+    console.error('Error recording speech:', error);
+  }
+}
+
 /**
  * Generate AI response using Deepgram Aura
  * Deepgram Aura provides conversational AI capabilities
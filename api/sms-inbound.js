@@ -0,0 +1,62 @@
+/**
+ * Vercel Serverless Function for Twilio's incoming message webhook
+ * Set it as the "A message comes in" webhook of TWILIO_PHONE_NUMBER. Contacts who reply STOP (or
+ * another opt-out keyword) are marked opted out and skipped by every channel; START opts them back
+ * in. Twilio itself answers these keywords and blocks messages to opted-out numbers, so the reply
+ * here is empty.
+ *
+ * Requests are checked against Twilio's X-Twilio-Signature, so only Twilio can opt numbers out.
+ */
+
+const twilio = require('twilio');
+const { createServiceClient, isE164, isSignedByTwilio, isSupabaseConfigured, isTwilioConfigured, setOptedOut } = require('./_lib/escalation');
+
+// Twilio's default opt-out and opt-in keywords
+const OPT_OUT_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'REVOKE', 'OPTOUT'];
+const OPT_IN_KEYWORDS = ['START', 'UNSTOP', 'YES'];
+
+/**
+ * STOP or START from the message, or null for anything else. With Advanced Opt-Out, Twilio
+ * already classifies it in OptOutType.
+ */
+function getOptOutType(body) {
+  if (body.OptOutType === 'STOP' || body.OptOutType === 'START') {
+    return body.OptOutType;
+  }
+  const keyword = String(body.Body || '').trim().toUpperCase();
+  if (OPT_OUT_KEYWORDS.includes(keyword)) return 'STOP';
+  if (OPT_IN_KEYWORDS.includes(keyword)) return 'START';
+  return null;
+}
+
+module.exports = async (req, res) => {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isSupabaseConfigured() || !isTwilioConfigured()) {
+    console.error('sms-inbound is missing SUPABASE_* or TWILIO_* environment variables');
+    return res.status(500).json({ error: 'Inbound messages are not configured on the server' });
+  }
+
+  if (!isSignedByTwilio(req)) {
+    console.error('Rejected inbound message with an invalid Twilio signature');
+    return res.status(403).json({ error: 'Invalid signature' });
+  }
+
+  try {
+    const body = req.body || {};
+    const optOutType = getOptOutType(body);
+    if (optOutType && isE164(body.From)) {
+      await setOptedOut(createServiceClient(), body.From, optOutType === 'STOP');
+    }
+
+    const twiml = new twilio.twiml.MessagingResponse();
+    res.setHeader('Content-Type', 'text/xml');
+    return res.status(200).send(twiml.toString());
+  } catch (error) {
+    console.error('Error handling inbound message:', error);
+    console.error('Error stack:', error.stack);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+};
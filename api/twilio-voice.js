@@ -7,6 +7,7 @@
  */
 
 const twilio = require('twilio');
+const { getFunctionUrl } = require('./_lib/escalation');
 
 module.exports = async (req, res) => {
   // Allow both GET and POST (Twilio can use either)
@@ -19,10 +20,8 @@ module.exports = async (req, res) => {
 
     const twiml = new twilio.twiml.VoiceResponse();
     
-    // Get the base URL for the process-speech endpoint
-    const baseUrl = req.headers.host || req.headers['x-forwarded-host'];
-    const protocol = req.headers['x-forwarded-proto'] || 'https';
-    const processSpeechUrl = `${protocol}://${baseUrl}/api/process-speech`;
+    // The process-speech endpoint, at the deployment's configured URL
+    const processSpeechUrl = getFunctionUrl('process-speech');
     
     console.log('Process Speech URL:', processSpeechUrl);
     
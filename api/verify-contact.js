@@ -0,0 +1,167 @@
+/**
+ * Vercel Serverless Function for verifying accountability contacts
+ * Before a contact's number is called or messaged, it has to prove it's theirs:
+ * - `{ "action": "send", "contactId": ... }` texts the number a one-time code
+ * - `{ "action": "confirm", "contactId": ..., "code": ... }` checks it and marks the contact verified
+ *
+ * Only a hash of the code is kept, in `contact_verifications`, for 10 minutes and 5 attempts.
+ * Sending counts toward the `verification` rate limit like any other SMS.
+ */
+
+const crypto = require('crypto');
+const {
+  authenticate,
+  createServiceClient,
+  isSupabaseConfigured,
+  isTwilioConfigured,
+  isUnsubscribedError,
+  reserveRequest,
+  setOptedOut,
+  twilioRequest,
+} = require('./_lib/escalation');
+
+const CODE_LENGTH = 6;
+const CODE_TTL_MS = 10 * 60 * 1000;
+const MAX_ATTEMPTS = 5;
+
+function hashCode(contactId, code) {
+  // Salted with the contact, so equal codes for different contacts don't share a hash
+  return crypto.createHash('sha256').update(`${contactId}:${code}`).digest('hex');
+}
+
+function generateCode() {
+  return String(crypto.randomInt(0, 10 ** CODE_LENGTH)).padStart(CODE_LENGTH, '0');
+}
+
+async function sendCode(res, supabase, user, contact) {
+  if (contact.verified_at) {
+    return res.status(409).json({ error: 'This contact is already verified' });
+  }
+  if (contact.opted_out_at) {
+    return res.status(409).json({ error: 'This contact replied STOP. They can text START to opt back in.' });
+  }
+  const finishRequest = await reserveRequest(res, supabase, { userId: user.id, channel: 'verification', trigger: null, recipient: contact.phone });
+  if (!finishRequest) {
+    return;
+  }
+
+  const code = generateCode();
+  const { error: saveError } = await supabase.from('contact_verifications').upsert(
+    {
+      contact_id: contact.id,
+      code_hash: hashCode(contact.id, code),
+      expires_at: new Date(Date.now() + CODE_TTL_MS).toISOString(),
+      attempts: 0,
+    },
+    { onConflict: 'contact_id' }
+  );
+  if (saveError) {
+    await finishRequest({ status: 'failed', error: saveError.message.substring(0, 500) });
+    throw saveError;
+  }
+
+  try {
+    const sms = await twilioRequest('Messages.json', {
+      To: contact.phone,
+      Body: `Scrollify: ${contact.name}, your code to become an accountability contact is ${code}. Reply STOP to opt out.`,
+    });
+    await finishRequest({ status: 'sent', provider_id: sms.sid });
+    console.log('Verification code sent:', { userId: user.id, contactId: contact.id });
+    return res.status(200).json({ sent: true, expiresInSeconds: CODE_TTL_MS / 1000 });
+  } catch (twilioError) {
+    console.error('Twilio API Error:', twilioError);
+    await finishRequest({ status: 'failed', error: twilioError.message.substring(0, 500) });
+    if (isUnsubscribedError(twilioError)) {
+      await setOptedOut(supabase, contact.phone, true);
+      return res.status(409).json({ error: 'This number has opted out of messages. They can text START to opt back in.' });
+    }
+    return res.status(502).json({ error: 'The code could not be sent' });
+  }
+}
+
+async function confirmCode(req, res, supabase, contact) {
+  const code = String(req.body?.code || '').trim();
+  if (!new RegExp(`^\\d{${CODE_LENGTH}}$`).test(code)) {
+    return res.status(400).json({ error: `Enter the ${CODE_LENGTH}-digit code` });
+  }
+
+  const { data: verification, error } = await supabase
+    .from('contact_verifications')
+    .select('code_hash, expires_at, attempts')
+    .eq('contact_id', contact.id)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  if (!verification || Date.parse(verification.expires_at) < Date.now() || verification.attempts >= MAX_ATTEMPTS) {
+    return res.status(410).json({ error: 'The code has expired. Send a new one.' });
+  }
+
+  const expected = Buffer.from(verification.code_hash, 'hex');
+  const actual = Buffer.from(hashCode(contact.id, code), 'hex');
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    const { error: attemptError } = await supabase
+      .from('contact_verifications')
+      .update({ attempts: verification.attempts + 1 })
+      .eq('contact_id', contact.id);
+    if (attemptError) {
+      throw attemptError;
+    }
+    return res.status(400).json({ error: 'That code is not right' });
+  }
+
+  const { error: verifyError } = await supabase
+    .from('accountability_contacts')
+    .update({ verified_at: new Date().toISOString() })
+    .eq('id', contact.id);
+  if (verifyError) {
+    throw verifyError;
+  }
+  await supabase.from('contact_verifications').delete().eq('contact_id', contact.id);
+  console.log('Contact verified:', { contactId: contact.id });
+  return res.status(200).json({ verified: true });
+}
+
+module.exports = async (req, res) => {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isSupabaseConfigured() || !isTwilioConfigured()) {
+    console.error('verify-contact is missing SUPABASE_* or TWILIO_* environment variables');
+    return res.status(500).json({ error: 'Verification is not configured on the server' });
+  }
+
+  const action = req.body?.action;
+  const contactId = req.body?.contactId;
+  if ((action !== 'send' && action !== 'confirm') || typeof contactId !== 'string') {
+    return res.status(400).json({ error: 'action ("send" or "confirm") and contactId are required' });
+  }
+
+  try {
+    const supabase = createServiceClient();
+    const user = await authenticate(req, supabase);
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid or expired session' });
+    }
+
+    const { data: contact, error: contactError } = await supabase
+      .from('accountability_contacts')
+      .select('id, name, phone, verified_at, opted_out_at')
+      .eq('id', contactId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+    if (contactError) {
+      throw contactError;
+    }
+    if (!contact) {
+      return res.status(404).json({ error: 'Contact not found' });
+    }
+
+    return action === 'send' ? await sendCode(res, supabase, user, contact) : await confirmCode(req, res, supabase, contact);
+  } catch (error) {
+    console.error('Error verifying contact:', error);
+    console.error('Error stack:', error.stack);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,116 @@
+/**
+ * Local stand-in server for testing escalation channels without Twilio, an email provider,
+ * Slack/Discord or a Vercel deployment
+ *
+ * It answers, and logs, the requests each channel makes:
+ * - POST /api/initiate-call, /api/escalate,
+ *        /api/verify-contact                  the api/ functions (point VITE_API_BASE_URL here)
+ * - POST /2010-04-01/Accounts/:sid/*.json     the Twilio REST API (point TWILIO_API_BASE_URL here)
+ * - POST /emails                              the email API (point EMAIL_API_BASE_URL here)
+ * - POST /webhook                             a Slack/Discord/JSON webhook (use as the webhook URL)
+ * - GET  /requests                            everything received so far, as JSON
+ *
+ * Set STAND_IN_STATUS (e.g. 401, 404, 429, 500) to make every POST fail with that status.
+ *
+ * Usage: node escalation-stand-in.js   (PORT defaults to 8787)
+ */
+
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 8787;
+const FAIL_STATUS = Number(process.env.STAND_IN_STATUS) || 0;
+
+const received = [];
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', (chunk) => (data += chunk));
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+  });
+}
+
+function parseBody(req, raw) {
+  const contentType = req.headers['content-type'] || '';
+  if (contentType.includes('application/json')) {
+    return JSON.parse(raw || '{}');
+  }
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    return Object.fromEntries(new URLSearchParams(raw));
+  }
+  return raw;
+}
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * The response each endpoint would give on success
+ */
+function respond(path, body) {
+  if (path === '/api/initiate-call') {
+    return { callSid: `CA${randomUUID().replace(/-/g, '')}`, to: '+15550100' };
+  }
+  if (path === '/api/escalate') {
+    return { id: randomUUID(), to: body.channel === 'email' ? 'partner@example.com' : '+15550100' };
+  }
+  if (path === '/api/verify-contact') {
+    return body.action === 'confirm' ? { verified: true } : { sent: true, expiresInSeconds: 600 };
+  }
+  if (/^\/2010-04-01\/Accounts\/[^/]+\/Calls\.json$/.test(path)) {
+    return { sid: `CA${randomUUID().replace(/-/g, '')}`, status: 'queued' };
+  }
+  if (/^\/2010-04-01\/Accounts\/[^/]+\/Messages\.json$/.test(path)) {
+    return { sid: `SM${randomUUID().replace(/-/g, '')}`, status: 'queued' };
+  }
+  if (path === '/emails') {
+    return { id: randomUUID() };
+  }
+  if (path === '/webhook') {
+    return { ok: true };
+  }
+  return null;
+}
+
+const server = http.createServer(async (req, res) => {
+  const path = new URL(req.url, `http://localhost:${PORT}`).pathname;
+
+  if (req.method === 'GET' && path === '/requests') {
+    return send(res, 200, received);
+  }
+  if (req.method !== 'POST') {
+    return send(res, 405, { error: 'Method not allowed' });
+  }
+
+  try {
+    const body = parseBody(req, await readBody(req));
+    received.push({ at: new Date().toISOString(), path, authorization: req.headers.authorization || null, body });
+    console.log(`${req.method} ${path}`, body);
+
+    const success = respond(path, body);
+    if (!success) {
+      return send(res, 404, { error: `Unknown endpoint ${path}` });
+    }
+    if (path.startsWith('/api/') && !(req.headers.authorization || '').startsWith('Bearer ')) {
+      return send(res, 401, { error: 'Missing access token' });
+    }
+    if (FAIL_STATUS === 429) {
+      return send(res, 429, { error: 'Too many requests, try again later', retryAfterSeconds: 60 }, { 'Retry-After': '60' });
+    }
+    if (FAIL_STATUS) {
+      return send(res, FAIL_STATUS, { error: `Stand-in failure (${FAIL_STATUS})`, message: `Stand-in failure (${FAIL_STATUS})` });
+    }
+    return send(res, path.includes('/2010-04-01/') ? 201 : 200, success);
+  } catch (error) {
+    console.error('Error handling request:', error);
+    return send(res, 400, { error: 'Could not parse request body' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Escalation stand-in listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,158 @@
+/**
+ * Timestamp-based time accounting
+ *
+ * Time is attributed in spans: from the last checkpoint (TrackingState.lastTick) to the next
+ * transition (tab, window, idle or navigation event) or periodic alarm. A span has a single page
+ * and pause state, so nothing is lost however long the service worker was suspended in between.
+ *
+ * Audible and media-playing tabs can be credited alongside the foreground tab; the overlap policy
+ * decides how a span is shared between them.
+ */
+
+import { isTrackingScheduled, type Category, type CategoryTotals, type ClassificationRules } from './classify';
+import type { MediaOverlapPolicy, TrackingState } from './storage';
+
+export const CHECKPOINT_INTERVAL_MS = 30000; // Periodic close-out; also the shortest chrome.alarms period
+// Checkpoints keep firing while the browser runs, even with the worker suspended. A longer gap
+// means the browser was closed or the machine asleep, and that time isn't counted.
+export const MAX_UNOBSERVED_GAP_MS = 5 * 60000;
+
+const MINUTE_MS = 60000;
+
+export const MIN_IDLE_DETECTION_SECONDS = 15; // chrome.idle rejects shorter intervals
+
+/**
+ * Whether time is currently paused by idle/lock/focus state under the user's pause policy
+ */
+export function isActivityPaused(state: TrackingState): boolean {
+  const isLocked = state.idleState === 'locked';
+  if (isLocked && state.pauseWhenLocked) {
+    return true;
+  }
+
+  // Watching a video produces no input, so optionally don't treat that as idle
+  const isWatching = state.keepCountingDuringMedia && !isLocked && state.mediaTabs.some((tab) => tab.tabId === state.currentTabId);
+  const isIdle = state.idleState !== 'active' && !isWatching;
+
+  switch (state.pausePolicy) {
+    case 'idle':
+      return isIdle;
+    case 'unfocused':
+      return !state.isWindowFocused;
+    case 'never':
+      return false;
+    case 'both':
+    default:
+      // Default: only pause if the user is idle AND no browser window is focused
+      return isIdle && !state.isWindowFocused;
+  }
+}
+
+/**
+ * Why time is paused, for logs and the popup
+ */
+export function describePause(state: TrackingState): string {
+  if (state.idleState === 'locked' && state.pauseWhenLocked) return 'screen locked';
+  if (state.pausePolicy === 'idle') return `user ${state.idleState}`;
+  if (state.pausePolicy === 'unfocused') return 'no browser window focused';
+  return `user ${state.idleState} and no browser window focused`;
+}
+
+/**
+ * Split [start, end) at minute boundaries when schedules are in use, so schedule changes
+ * (which happen on whole minutes) fall between chunks
+ */
+export function splitSpan(start: number, end: number, rules: ClassificationRules): { start: number; end: number }[] {
+  const usesSchedules = rules.trackingScheduleId !== null || rules.rules.some((rule) => rule.scheduleId);
+  if (!usesSchedules) {
+    return [{ start, end }];
+  }
+  const chunks: { start: number; end: number }[] = [];
+  for (let chunkStart = start; chunkStart < end; ) {
+    const chunkEnd = Math.min(end, (Math.floor(chunkStart / MINUTE_MS) + 1) * MINUTE_MS);
+    chunks.push({ start: chunkStart, end: chunkEnd });
+    chunkStart = chunkEnd;
+  }
+  return chunks;
+}
+
+/**
+ * Time since the last checkpoint that will be attributed to the current page once closed out
+ */
+export function getPendingMs(state: TrackingState, rules: ClassificationRules, now: number = Date.now()): number {
+  const span = now - state.lastTick;
+  if (span <= 0 || span > MAX_UNOBSERVED_GAP_MS || !state.currentCategory || isActivityPaused(state)) {
+    return 0;
+  }
+  return isTrackingScheduled(rules, new Date(now)) ? span : 0;
+}
+
+/**
+ * Category totals including the span not yet closed out, for live display
+ */
+export function getLiveCategoryTotals(state: TrackingState, rules: ClassificationRules, now: number = Date.now()): CategoryTotals {
+  const pending = getPendingMs(state, rules, now);
+  if (pending === 0 || !state.currentCategory || !state.userId) {
+    return state.categoryTotals;
+  }
+  return {
+    ...state.categoryTotals,
+    [state.currentCategory]: (state.categoryTotals[state.currentCategory] || 0) + pending,
+  };
+}
+
+/**
+ * A page that can be credited with time during a span
+ */
+export interface SpanParticipant {
+  url: string;
+  domain: string;
+  category: Category;
+  tabId: number | null;
+  windowId: number | null;
+  media: boolean; // An audible/media tab behind the foreground one
+}
+
+export interface SpanAllocation extends SpanParticipant {
+  ms: number;
+}
+
+function splitEvenly(participants: SpanParticipant[], ms: number): SpanAllocation[] {
+  const share = Math.floor(ms / participants.length);
+  // The first participant absorbs the rounding remainder so the shares add up to the span exactly
+  return participants.map((participant, index) => ({
+    ...participant,
+    ms: index === 0 ? ms - share * (participants.length - 1) : share,
+  }));
+}
+
+/**
+ * Share a span between the foreground page and any media tabs according to the overlap policy:
+ * - foreground:   the foreground page keeps the whole span; media only counts without one
+ * - unproductive: the most distracting unproductive page takes the whole span
+ * - split:        every page gets an equal share
+ */
+export function allocateSpan(
+  foreground: SpanParticipant | null,
+  media: SpanParticipant[],
+  ms: number,
+  policy: MediaOverlapPolicy
+): SpanAllocation[] {
+  if (media.length === 0) {
+    return foreground ? [{ ...foreground, ms }] : [];
+  }
+  if (!foreground) {
+    return splitEvenly(media, ms);
+  }
+
+  if (policy === 'split') {
+    return splitEvenly([foreground, ...media], ms);
+  }
+  if (policy === 'unproductive') {
+    const winner = [foreground, ...media]
+      .filter((participant) => participant.category.weight < 0)
+      .reduce<SpanParticipant | null>((best, participant) => (!best || participant.category.weight < best.category.weight ? participant : best), null);
+    return [{ ...(winner ?? foreground), ms }];
+  }
+  return [{ ...foreground, ms }];
+}
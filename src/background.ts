@@ -1,18 +1,97 @@
-import { classifyDomain, extractDomain } from './classify';
-import { getTrackingState, updateTrackingState, setUserId, type TrackingState } from './storage';
+import {
+  sumCategoryTotals,
+  computeFocusScore,
+  classifyUrl,
+  DEFAULT_CLASSIFICATION_RULES,
+  type CategoryTotals,
+  type ClassificationRules,
+} from './classify';
+import { CHECKPOINT_INTERVAL_MS, MIN_IDLE_DETECTION_SECONDS } from './accounting';
+import {
+  OVERRIDE_MINUTES,
+  applyBlockingRules,
+  buildBlockingRules,
+  findBlock,
+  getActiveOverrides,
+  getBlockList,
+  getInterstitialUrl,
+  isOverridden,
+  logOverride,
+  type BlockList,
+} from './blocking';
+import { describeBudgetTarget, type Budget, type BudgetWarning } from './budgets';
+import { getDayKey, getNextDayStart } from './calendar';
+import { recordCreditTransactions, validateCreditSettings } from './credits';
+import { AI_CALL_TRIGGER_MS, createTrackingEngine, type CallAttempt } from './engine';
+import { API_BASE_URL } from './env';
+import {
+  recordEscalation,
+  runEscalation,
+  type Escalation,
+  type EscalationChannelType,
+  type EscalationDeps,
+  type EscalationLogEntry,
+  type EscalationSettings,
+  type EscalationTrigger,
+} from './escalation';
+import { countEscalation, decideEscalation, getNextEscalationTime, type EscalationDecision } from './escalationPolicy';
+import { buildFocusReport, createFocusSession, saveFocusReport, type FocusSession, type FocusSessionOptions } from './focus';
+import { recordCounterResets, recordVisitTime, compactHistory, rollOverDays } from './history';
+import { cacheMediaState, findMediaTabs, forgetMediaTab } from './mediaTabs';
+import { extractDomain } from './normalize';
+import { getLocalTimeZone } from './schedule';
+import type { BackgroundCommand, CommandResponse } from './messages';
+import { discardDeadLetters, enqueue, flushOutbox, quarantineOtherUsers, retryDeadLetters } from './outbox';
+import { recordUsage, uploadUsage } from './usage';
+import { cachePageSignals, forgetTab, getCachedSignals, getPageSignals } from './pageSignals';
+import { applySharedRuleSets, syncSharedRuleSets } from './sharedLists';
+import {
+  getTrackingState,
+  updateTrackingState,
+  setUserId,
+  getClassificationRules,
+  getSharedListsCache,
+  clearSharedListsCache,
+  getBudgets,
+  getEscalationSettings,
+  BUDGETS_STORAGE_KEY,
+  RULES_STORAGE_KEY,
+  SHARED_LISTS_STORAGE_KEY,
+  TRACKING_STATE_STORAGE_KEY,
+  StaleRevisionError,
+  type TrackingState,
+} from './storage';
 import { supabase } from './supabaseClient';
-import { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_PHONE_NUMBER, WEBHOOK_URL } from './env';
 
 // Constants
-const PRODUCTIVE_TRIGGER_MS = 60000; // 60 seconds
-const UNPRODUCTIVE_BUFFER_MS = 10000; // 10 seconds
-const TICK_INTERVAL_MS = 1000; // 1 second
 const LEADERBOARD_UPDATE_INTERVAL_MS = 60000; // 1 minute
-const AI_CALL_TRIGGER_MS = 120000; // 2 minutes (120 seconds) - trigger AI agent call
-const AI_CALL_COOLDOWN_MS = 300000; // 5 minutes cooldown between calls
+const HISTORY_COMPACTION_INTERVAL_MINUTES = 60;
+// chrome.storage.session survives worker restarts but not browser restarts
+const SESSION_STARTED_KEY = 'sessionStartedAt';
+const NOTIFICATION_ICON_PATH = 'icons/icon128.png';
 
-let isIdle = false;
-let isWindowFocused = true;
+let classificationRules: ClassificationRules = DEFAULT_CLASSIFICATION_RULES;
+let budgets: Budget[] = [];
+
+// State transitions live in the engine; the worker feeds it chrome events and does the I/O
+const engine = createTrackingEngine({
+  now: () => Date.now(),
+  storage: { getState: getTrackingState, updateState: updateTrackingState },
+  sink: {
+    recordProductiveTrigger,
+    recordUsage,
+    placeCall: escalateProductiveStreak,
+    reachBudgetWarning,
+    recordCreditTransactions,
+    runOutOfCredits,
+    recordVisit: recordVisitTime,
+    recordCounterResets,
+  },
+  getRules: () => classificationRules,
+  getBudgets: () => budgets,
+  getSignals: getCachedSignals,
+  getTimeZone: getLocalTimeZone,
+});
 
 /**
  * Get user_id from profiles table that matches auth user (required for foreign key constraint)
@@ -40,16 +119,16 @@ async function getProfileUserId(authUserId: string): Promise<string | null> {
 }
 
 /**
- * Get the current active tab's URL (works across all windows)
+ * Get the current active tab (works across all windows)
  */
-async function getActiveTabUrl(): Promise<string | null> {
+async function getActiveTab(): Promise<chrome.tabs.Tab | null> {
   try {
     const windows = await chrome.windows.getAll({ populate: true });
     for (const window of windows) {
       if (window.focused && window.tabs) {
         for (const tab of window.tabs) {
           if (tab.active && tab.url) {
-            return tab.url;
+            return tab;
           }
         }
       }
@@ -57,7 +136,7 @@ async function getActiveTabUrl(): Promise<string | null> {
     // Fallback: get any active tab
     const tabs = await chrome.tabs.query({ active: true });
     if (tabs.length > 0 && tabs[0].url) {
-      return tabs[0].url;
+      return tabs[0];
     }
     return null;
   } catch {
@@ -66,57 +145,58 @@ async function getActiveTabUrl(): Promise<string | null> {
 }
 
 /**
- * Update the current domain and flush time if domain changed
+ * Rebuild the in-memory rules from local rules plus the cached shared lists
+ */
+async function refreshClassificationRules(): Promise<void> {
+  const [localRules, sharedLists] = await Promise.all([getClassificationRules(), getSharedListsCache()]);
+  classificationRules = applySharedRuleSets(localRules, sharedLists.sets);
+}
+
+/**
+ * Re-read the daily budgets set in the popup
  */
-async function updateDomain(newDomain: string | null): Promise<void> {
+async function refreshBudgets(): Promise<void> {
+  budgets = await getBudgets();
+}
+
+/**
+ * Pull shared lists for the signed-in user (no-op when signed out)
+ */
+async function syncSharedLists(): Promise<void> {
   const state = await getTrackingState();
-  
-  if (state.currentDomain === newDomain) {
-    return; // No change
+  if (state.userId) {
+    await syncSharedRuleSets(state.userId);
   }
+}
 
-  // Handle domain switch
-  const previousClassification = classifyDomain(state.currentDomain);
-  const newClassification = classifyDomain(newDomain);
-  
-  // Record database events for previous domain (if needed)
-  if (state.currentDomain && state.userId) {
-    // Record productive trigger at 60s for database tracking (but don't reset counter)
-    if (previousClassification === 'productive' && state.consecutiveProductiveMs >= PRODUCTIVE_TRIGGER_MS) {
-      // Only record once per session to avoid duplicates
-      await recordProductiveTrigger(state.currentDomain, state.consecutiveProductiveMs, state.userId);
-    } else if (previousClassification === 'unproductive' && state.unproductiveMsBuffer >= UNPRODUCTIVE_BUFFER_MS) {
-      // Flush unproductive buffer to database
-      await recordUnproductiveTime(state.unproductiveMsBuffer, state.userId);
-    }
-  }
+let accountingQueue: Promise<unknown> = Promise.resolve();
 
-  // IMPORTANT: Do NOT reset productive time counter when switching between productive domains
-  // Only reset when:
-  // 1. Switching FROM productive TO unproductive (reset productive counter)
-  // 2. Switching FROM unproductive TO productive (reset unproductive buffer)
-  // 3. Call is triggered (handled in triggerAICall)
-  // 4. Update Leaderboard button is pressed (handled in popup)
-  
-  // Determine what to reset
-  const shouldResetProductive = previousClassification === 'productive' && newClassification === 'unproductive';
-  const shouldResetUnproductive = previousClassification === 'unproductive' && newClassification === 'productive';
-  
-  await updateTrackingState({
-    currentDomain: newDomain,
-    lastTick: Date.now(),
-    consecutiveProductiveMs: shouldResetProductive ? 0 : state.consecutiveProductiveMs,
-    unproductiveMsBuffer: shouldResetUnproductive ? 0 : state.unproductiveMsBuffer,
+/**
+ * Run an accounting task after any in-flight one, then re-arm the threshold alarm.
+ * Events arrive concurrently; two close-outs reading the same checkpoint would count a span twice.
+ */
+function runAccounting<T>(task: () => Promise<T>): Promise<T> {
+  const run = accountingQueue.then(async () => {
+    const result = await task();
+    await scheduleThresholdAlarm();
+    return result;
   });
-  
-  // Log domain switch for debugging
-  if (shouldResetProductive) {
-    console.log('🔄 Switched from productive to unproductive domain, reset productive counter');
-  } else if (shouldResetUnproductive) {
-    console.log('🔄 Switched from unproductive to productive domain, reset unproductive buffer');
-  } else if (previousClassification === 'productive' && newClassification === 'productive') {
-    console.log('✅ Switched between productive domains, keeping productive counter running');
+  accountingQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Wake up when the current productive streak will cross its next threshold or a budget its next
+ * warning level, so the trigger, the call and the warning fire on time rather than at the next
+ * periodic checkpoint
+ */
+async function scheduleThresholdAlarm(): Promise<void> {
+  const when = await engine.getThresholdTime();
+  if (when === null) {
+    await chrome.alarms.clear('accountingThreshold');
+    return;
   }
+  chrome.alarms.create('accountingThreshold', { when });
 }
 
 /**
@@ -124,376 +204,481 @@ async function updateDomain(newDomain: string | null): Promise<void> {
  */
 async function recordProductiveTrigger(domain: string, durationMs: number, userId: string): Promise<void> {
   try {
-    const durationSeconds = Math.floor(durationMs / 1000);
-    await supabase.from('productive_triggers').insert({
-      user_id: userId,
-      domain,
-      duration_seconds: durationSeconds,
-    });
-    console.log(`Recorded productive trigger: ${domain} for ${durationSeconds}s`);
+    await enqueue({ kind: 'productiveTrigger', userId, domain, durationSeconds: Math.floor(durationMs / 1000) });
   } catch (error) {
-    console.error('Error recording productive trigger:', error);
+    console.error('Error queueing productive trigger:', error);
+    return;
   }
+  syncOutbox().catch(console.error);
 }
 
 /**
- * Record unproductive time to leaderboard
+ * Credit time up to now, queue the batched usage aggregates and send them
  */
-async function recordUnproductiveTime(ms: number, userId: string): Promise<void> {
-  try {
-    const seconds = Math.floor(ms / 1000);
-    await supabase.from('leaderboard_scores').insert({
-      user_id: userId,
-      score: seconds,
-    });
-    console.log(`Recorded unproductive time: ${seconds}s`);
-  } catch (error) {
-    console.error('Error recording unproductive time:', error);
+async function flushUsage(force = false): Promise<void> {
+  await runAccounting(() => engine.closeOutSpan());
+  await uploadUsage();
+  await syncOutbox(force);
+}
+
+/**
+ * Switch to another signed-in user. Writes still queued for someone else would fail RLS under
+ * the new session, so they are set aside where the popup shows them.
+ */
+async function changeUser(userId: string | null): Promise<void> {
+  await setUserId(userId);
+  if (userId) {
+    await quarantineOtherUsers(userId);
   }
 }
 
 /**
- * Trigger AI agent call using Twilio
- * Fetches dad's number from profiles table and initiates call with Deepgram AI agent
+ * Credit the signed-in user's time up to `at`, queue it for upload and clear their counters.
+ * Runs in the accounting queue.
  */
-async function triggerAICall(): Promise<void> {
-  try {
-    console.log('📞 triggerAICall() called - starting call initiation process (using test call logic)...');
-    
-    // Validate credentials (same as test button)
-    if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !TWILIO_PHONE_NUMBER) {
-      console.error('❌ Twilio credentials missing. Cannot initiate call.');
-      return;
-    }
+async function clearSignedInUser(at: number): Promise<void> {
+  await engine.closeOutSpan(at);
+  await uploadUsage(at);
+  await updateTrackingState({
+    userId: null,
+    currentDomain: null,
+    currentUrl: null,
+    currentCategory: null,
+    consecutiveProductiveMs: 0,
+    unproductiveMsBuffer: 0,
+    categoryTotals: {},
+    lastLeaderboardUpdate: 0,
+    lastCallTriggerTime: 0,
+  });
+  await recordCounterResets([
+    { time: at, counter: 'consecutiveProductive' },
+    { time: at, counter: 'unproductiveBuffer' },
+    { time: at, counter: 'categoryTotals' },
+  ]).catch((error) => console.error('Error recording counter reset:', error));
+  // Org lists belong to the signed-out account
+  await clearSharedListsCache();
+}
 
-    if (!WEBHOOK_URL || WEBHOOK_URL.includes('your-webhook-server.com')) {
-      console.error('❌ Webhook URL not configured. Please set VITE_WEBHOOK_URL in .env file.');
-      return;
-    }
+/**
+ * Upload usage on the cadence set in the popup. Unlike ensureAlarm, a changed cadence replaces
+ * the alarm.
+ */
+async function scheduleUsageUpload(): Promise<void> {
+  const state = await getTrackingState();
+  const periodInMinutes = Math.max(1, state.uploadIntervalMinutes);
+  const alarm = await chrome.alarms.get('usageUpload');
+  if (alarm?.periodInMinutes !== periodInMinutes) {
+    chrome.alarms.create('usageUpload', { periodInMinutes, delayInMinutes: periodInMinutes });
+  }
+}
 
-    // Get current user_id from tracking state (same as test button)
-    const state = await getTrackingState();
-    if (!state.userId) {
-      console.error('❌ No user ID found. Cannot initiate call.');
-      return;
-    }
-    
-    console.log('✅ User ID found:', state.userId);
+/**
+ * Send due outbox writes and wake up again when the next retry is due
+ */
+async function syncOutbox(force = false): Promise<void> {
+  const nextRetryAt = await flushOutbox(force);
+  if (nextRetryAt === null) {
+    await chrome.alarms.clear('outboxRetry');
+  } else {
+    chrome.alarms.create('outboxRetry', { when: nextRetryAt });
+  }
+}
 
-    // Fetch dad's number from profiles table using user_id
-    const { data: profile, error: profileError } = await supabase
-      .from('profiles')
-      .select('dads_number')
-      .eq('user_id', state.userId)
-      .single();
+const escalationDeps: EscalationDeps = {
+  fetch: (input, init) => fetch(input, init),
+  apiBaseUrl: API_BASE_URL,
+  getAccessToken: async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.access_token ?? null;
+  },
+  notify: (id, title, message) => showNotification(id, title, message, true),
+};
 
-    if (profileError || !profile) {
-      console.error('❌ Error fetching profile:', profileError);
-      return;
+/**
+ * Try the channels the policy allowed and keep the decision and results in the escalation log
+ */
+async function sendEscalation(
+  escalation: Escalation,
+  decision: EscalationDecision,
+  settings: EscalationSettings
+): Promise<EscalationLogEntry> {
+  if (!decision.allowed) {
+    console.log(`🔕 Not escalating (${escalation.trigger}): ${decision.reason}`);
+    return recordEscalation(escalation, decision, []);
+  }
+  console.log(`📣 Escalating (${escalation.trigger}) via ${decision.channels.join(', ')}: ${decision.reason}`);
+  const results = await runEscalation(escalation, decision.channels, settings, escalationDeps);
+  for (const result of results) {
+    if (result.ok) {
+      console.log(`✅ ${result.channel} escalation sent${result.reference ? ` (${result.reference})` : ''}`);
+    } else {
+      const retryHint = result.retryAfterSeconds ? ` (retry in ${result.retryAfterSeconds}s)` : '';
+      console.error(`❌ ${result.channel} escalation failed [${result.code}]: ${result.error}${retryHint}`);
     }
+  }
+  return recordEscalation(escalation, decision, results);
+}
 
-    const dadsNumber = profile.dads_number;
-    if (!dadsNumber || !dadsNumber.trim()) {
-      console.error('❌ Dad\'s number not found in profile. Cannot initiate call.');
-      return;
-    }
-    
-    console.log('✅ Dad\'s number found:', dadsNumber);
+/**
+ * Escalate through the channels the user chose for the trigger, as far as the policy allows.
+ * An escalation that went out starts the cooldown and counts toward the daily cap and tier.
+ * Returns whether any channel got through and, if none did, when the policy would let it try again.
+ */
+async function escalate(trigger: Exclude<EscalationTrigger, 'test'>, title: string, message: string): Promise<CallAttempt> {
+  const [settings, state] = await Promise.all([getEscalationSettings(), getTrackingState()]);
+  const now = Date.now();
+  const timeZone = getLocalTimeZone();
+  const decision = decideEscalation(settings.channels[trigger], {
+    policy: settings.policy,
+    lastEscalationAt: state.lastCallTriggerTime,
+    escalations: state.escalations,
+    now,
+    timeZone,
+  });
+  const entry = await sendEscalation({ trigger, title, message, at: now }, decision, settings);
+  const sent = entry.results.some((result) => result.ok);
+  if (sent) {
+    await updateTrackingState({ lastCallTriggerTime: now, escalations: countEscalation(state.escalations, now, timeZone) });
+    return { placed: true, retryAt: null };
+  }
+  if (settings.channels[trigger].length === 0) {
+    return { placed: false, retryAt: null };
+  }
+  // Held back: once the quiet hours, cap or cooldown allow it. Every channel failed: a cooldown from now.
+  const retryAt = getNextEscalationTime({
+    policy: settings.policy,
+    lastEscalationAt: decision.allowed ? now : state.lastCallTriggerTime,
+    escalations: state.escalations,
+    now,
+    timeZone,
+  });
+  return { placed: false, retryAt };
+}
 
-    // Clean and format phone number
-    const cleanedPhone = dadsNumber.trim().replace(/[\s\-\(\)]/g, '');
-    
-    // Format phone number with country code if needed
-    const toPhoneNumber = cleanedPhone.startsWith('+') 
-      ? cleanedPhone 
-      : cleanedPhone.startsWith('1') && cleanedPhone.length === 11
-      ? `+${cleanedPhone}`
-      : `+1${cleanedPhone}`;
-    
-    console.log('📞 Calling dad\'s number:', toPhoneNumber, '(original:', dadsNumber, ')');
+/**
+ * The productive streak reached AI_CALL_TRIGGER_MS. Called by the engine inside runAccounting; the
+ * engine resets productive time once it knows an escalation went out, and tries again at the
+ * returned time while the streak lasts if none did.
+ */
+async function escalateProductiveStreak(): Promise<CallAttempt> {
+  const { currentDomain } = await getTrackingState();
+  const minutes = AI_CALL_TRIGGER_MS / 60000;
+  return escalate(
+    'productiveStreak',
+    'Productive streak',
+    `${minutes} minutes straight on productive sites${currentDomain ? `, now on ${currentDomain}` : ''}.`
+  );
+}
 
-    // Create Basic Auth header for Twilio
-    const credentials = btoa(`${TWILIO_ACCOUNT_SID}:${TWILIO_AUTH_TOKEN}`);
-    
-    // Twilio API endpoint to create a call
-    const url = `https://api.twilio.com/2010-04-01/Accounts/${TWILIO_ACCOUNT_SID}/Calls.json`;
-    
-    // Create form data for Twilio API
-    const formData = new URLSearchParams();
-    formData.append('From', TWILIO_PHONE_NUMBER);
-    formData.append('To', toPhoneNumber);
-    formData.append('Url', WEBHOOK_URL);
-    formData.append('Method', 'POST');
-
-    console.log('📞 Initiating automatic call (same as test button)...', {
-      from: TWILIO_PHONE_NUMBER,
-      to: toPhoneNumber,
-      webhook: WEBHOOK_URL
-    });
+/**
+ * Send a test escalation through one channel (from the popup). Tests skip the policy and don't
+ * count toward it.
+ */
+async function testEscalation(channel: EscalationChannelType): Promise<void> {
+  const settings = await getEscalationSettings();
+  await sendEscalation(
+    { trigger: 'test', title: 'Test escalation', message: `This is a test of the ${channel} channel from Scrollify.`, at: Date.now() },
+    { allowed: true, reason: 'Test (policy not applied)', tier: null, channels: [channel] },
+    settings
+  );
+}
 
-    console.log('Twilio API Request:', {
-      url: url,
-      accountSid: TWILIO_ACCOUNT_SID ? `${TWILIO_ACCOUNT_SID.substring(0, 10)}...` : 'MISSING',
-      authToken: TWILIO_AUTH_TOKEN ? `${TWILIO_AUTH_TOKEN.substring(0, 10)}...` : 'MISSING',
-      from: TWILIO_PHONE_NUMBER,
-      to: toPhoneNumber,
-      webhook: WEBHOOK_URL
-    });
+/**
+ * Show a notification with the extension's icon
+ */
+function showNotification(id: string, title: string, message: string, urgent = false): void {
+  chrome.notifications.create(id, {
+    type: 'basic',
+    iconUrl: chrome.runtime.getURL(NOTIFICATION_ICON_PATH),
+    title,
+    message,
+    priority: urgent ? 2 : 0,
+  });
+}
 
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Basic ${credentials}`,
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: formData.toString(),
-    });
+/**
+ * Warn about a daily budget through chrome.notifications and, once it's used up, run its action.
+ * Called by the engine inside runAccounting.
+ */
+async function reachBudgetWarning({ budget, percentage, usedMs }: BudgetWarning): Promise<void> {
+  const target = describeBudgetTarget(budget, classificationRules);
+  const remainingMinutes = Math.max(0, Math.ceil((budget.minutes * 60000 - usedMs) / 60000));
+  const exhausted = percentage >= 100;
+  console.log(`⏳ ${target} budget: ${percentage}% of ${budget.minutes} min used`);
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Twilio API Error:', {
-        status: response.status,
-        statusText: response.statusText,
-        error: errorText.substring(0, 500)
-      });
-      
-      // Check if it's an authentication error
-      if (response.status === 401 || response.status === 403) {
-        console.error('Twilio authentication failed. Please check your Twilio credentials in the .env file and rebuild the extension.');
-      } else if (errorText.includes('html') || errorText.includes('login')) {
-        console.error('Twilio authentication failed. The credentials may be incorrect. Please verify your Twilio Account SID and Auth Token.');
-      }
-      return;
-    }
+  const actionMessages: Record<Budget['action'], string> = {
+    notify: 'Time to stop for today.',
+    call: 'Time to stop for today. Letting your accountability partner know.',
+    block: `${target} is blocked until tomorrow.`,
+  };
+  showNotification(
+    `budget-${budget.id}-${percentage}`,
+    exhausted ? `${target}: daily budget used up` : `${target}: ${percentage}% of today's budget used`,
+    exhausted ? actionMessages[budget.action] : `${remainingMinutes} of ${budget.minutes} minutes left today.`,
+    exhausted
+  );
 
-    const result = await response.json();
-    console.log('✅✅✅ AI agent call successfully initiated! ✅✅✅');
-    console.log('   Call SID:', result.sid);
-    console.log('   Calling:', toPhoneNumber);
-    console.log('   This is the same logic as the test button - call should work!');
-    
-    // Reset productive time to 0 after call is initiated (same as test button behavior)
-    const now = Date.now();
-    await updateTrackingState({
-      lastCallTriggerTime: now,
-      consecutiveProductiveMs: 0,
-      totalProductiveMs: 0,
-    });
-    
-    console.log('✅ Productive time reset to 0');
-    console.log('✅ Counter will start accumulating again for the next cycle');
+  if (!exhausted) {
+    return;
+  }
+  if (budget.action === 'call') {
+    await escalate('budget', `${target}: daily budget used up`, `${budget.minutes} minutes used today.`);
+  } else if (budget.action === 'block') {
+    // Not awaited: blocking refreshes queue on their own, and this runs inside runAccounting
+    refreshBlocking().catch(console.error);
+  }
+}
+
+/**
+ * The scroll credit balance ran out on a distracting page: notify and run the configured action.
+ * Blocking follows the balance itself (see the trackingState change listener). Called by the
+ * engine inside runAccounting.
+ */
+async function runOutOfCredits(): Promise<void> {
+  const { creditSettings } = await getTrackingState();
+  console.log(`🪙 Out of scroll credits (${creditSettings.exhaustedAction})`);
+  const earnHint = `${creditSettings.earnRatio} minutes of productive time earn 1 more minute.`;
+  const actionMessages: Record<typeof creditSettings.exhaustedAction, string> = {
+    notify: earnHint,
+    call: `Letting your accountability partner know. ${earnHint}`,
+    block: `Distracting sites are blocked until you earn more. ${earnHint}`,
+  };
+  showNotification('credits-exhausted', 'Out of scroll credits', actionMessages[creditSettings.exhaustedAction], true);
+  if (creditSettings.exhaustedAction === 'call') {
+    await escalate('credits', 'Out of scroll credits', 'The scroll credit balance ran out on a distracting site.');
+  }
+}
+
+/**
+ * Update leaderboard_global with unproductive time (stored in best_score),
+ * the per-category breakdown and the weighted focus score
+ */
+async function updateLeaderboard(userId: string, categoryTotals: CategoryTotals): Promise<void> {
+  const unproductiveSeconds = Math.floor(sumCategoryTotals(categoryTotals, classificationRules, 'unproductive') / 1000);
+  const categorySeconds = Object.fromEntries(
+    Object.entries(categoryTotals).map(([categoryId, ms]) => [categoryId, Math.floor(ms / 1000)])
+  );
+  // Queued as an upsert of absolute values, so a newer update replaces one still waiting to be sent
+  await enqueue({
+    kind: 'leaderboardUpdate',
+    userId,
+    bestScore: unproductiveSeconds,
+    categorySeconds,
+    focusScore: computeFocusScore(categoryTotals, classificationRules),
+    updatedAt: new Date().toISOString(),
+  });
+  syncOutbox().catch(console.error);
+}
+
+/**
+ * Periodic checkpoint (chrome.alarms, so it survives service worker suspension): close out the
+ * span so far and pick up changes no event reported, e.g. a schedule switching a rule on
+ */
+async function checkpoint(): Promise<void> {
+  await engine.closeOutSpan();
+
+  // Get current active tab
+  const activeTab = await getActiveTab();
+  const currentUrl = activeTab?.url ?? null;
+
+  // Make sure content signals are cached for this page (only messages the tab on a cache miss)
+  if (activeTab?.id !== undefined && currentUrl) {
+    await getPageSignals(activeTab.id, currentUrl);
+  }
+
+  // Update domain or category if changed
+  await engine.updateDomain(currentUrl, activeTab);
+  await refreshMediaTabs();
+}
+
+/**
+ * Re-read which tabs are playing media
+ */
+async function refreshMediaTabs(): Promise<void> {
+  const state = await getTrackingState();
+  // Media tabs are also needed to keep counting through idle while the foreground tab plays
+  const mediaTabs = state.trackBackgroundMedia || state.keepCountingDuringMedia ? await findMediaTabs() : [];
+  await engine.setMediaTabs(mediaTabs);
+}
+
+/**
+ * Add the current totals to leaderboard_global (unproductive seconds to best_score, productive
+ * seconds to productive_time, per-category seconds to category_seconds) and zero them
+ */
+async function transferToLeaderboard(): Promise<void> {
+  const state = await getTrackingState();
+  if (!state.userId) {
+    throw new Error('No user ID found');
+  }
+
+  // If both times are zero, nothing to do
+  if (
+    Math.floor(sumCategoryTotals(state.categoryTotals, classificationRules, 'unproductive') / 1000) === 0 &&
+    Math.floor(sumCategoryTotals(state.categoryTotals, classificationRules, 'productive') / 1000) === 0
+  ) {
+    console.log('No time to transfer');
+    return;
+  }
+
+  // Reset both times and the consecutive counter first, so the leaderboard is only ever written
+  // for totals that are really gone locally. Only the transferred snapshot is zeroed: the write is
+  // rejected if the state moved on in the meantime.
+  await updateTrackingState({ categoryTotals: {}, consecutiveProductiveMs: 0 }, state.revision);
+  console.log(`  Reset both times to zero`);
+  try {
+    await addToLeaderboard(state.userId, state.categoryTotals);
   } catch (error) {
-    console.error('❌❌❌ ERROR TRIGGERING AI CALL ❌❌❌');
-    console.error('   Error:', error);
-    if (error instanceof Error) {
-      console.error('   Error message:', error.message);
-      console.error('   Error stack:', error.stack);
+    // Put the time back (on top of anything counted since) so the next transfer sends it
+    const current = await getTrackingState();
+    const categoryTotals = { ...current.categoryTotals };
+    for (const [categoryId, ms] of Object.entries(state.categoryTotals)) {
+      categoryTotals[categoryId] = (categoryTotals[categoryId] || 0) + ms;
     }
+    await updateTrackingState({ categoryTotals });
+    throw error;
   }
+
+  const now = Date.now();
+  // Keep the visit history able to rebuild the counters after they're zeroed
+  await recordCounterResets([
+    { time: now, counter: 'categoryTotals' },
+    { time: now, counter: 'consecutiveProductive' },
+  ]).catch((error) => console.error('Error recording counter reset:', error));
 }
 
 /**
- * Update leaderboard_global with unproductive time (stored in best_score)
+ * Add transferred seconds onto the user's leaderboard_global row, creating it if needed
  */
-async function updateLeaderboard(userId: string, totalUnproductiveMs: number): Promise<void> {
-  try {
-    // First verify the profile exists (required for foreign key constraint)
-    const { data: profile, error: profileError } = await supabase
-      .from('profiles')
-      .select('user_id')
-      .eq('user_id', userId)
-      .single();
-    
-    if (profileError || !profile) {
-      console.error('Profile not found for user_id:', userId, profileError);
-      return;
+async function addToLeaderboard(userId: string, categoryTotals: CategoryTotals): Promise<void> {
+  const unproductiveSeconds = Math.floor(sumCategoryTotals(categoryTotals, classificationRules, 'unproductive') / 1000);
+  const productiveSeconds = Math.floor(sumCategoryTotals(categoryTotals, classificationRules, 'productive') / 1000);
+  // Adds this session's per-category seconds onto what the leaderboard already has
+  const mergeCategorySeconds = (existing: Record<string, number> | null) => {
+    const merged: Record<string, number> = { ...(existing || {}) };
+    for (const [categoryId, ms] of Object.entries(categoryTotals)) {
+      merged[categoryId] = (merged[categoryId] || 0) + Math.floor(ms / 1000);
     }
-    
-    const unproductiveSeconds = Math.floor(totalUnproductiveMs / 1000);
-    
-    // Upsert to leaderboard_global table (update if exists, insert if not)
-    // best_score stores unproductive time in seconds
-    const { error } = await supabase
+    return merged;
+  };
+
+  // Get current best_score and productive_time from leaderboard_global
+  const { data: currentLeaderboard, error: fetchError } = await supabase
+    .from('leaderboard_global')
+    .select('user_id, best_score, productive_time, category_seconds')
+    .eq('user_id', userId)
+    .single();
+
+  if (fetchError && fetchError.code === 'PGRST116') {
+    // No entry yet: create one with both unproductive and productive time
+    const { error: insertError } = await supabase
       .from('leaderboard_global')
-      .upsert({
+      .insert({
         user_id: userId,
         best_score: unproductiveSeconds,
+        productive_time: productiveSeconds,
+        category_seconds: mergeCategorySeconds(null),
         updated_at: new Date().toISOString(),
-      }, {
-        onConflict: 'user_id',
       });
-    
-    if (error) {
-      console.error('Error updating leaderboard_global:', {
-        message: error.message,
-        details: error.details,
-        hint: error.hint,
-        code: error.code,
-        userId: userId,
-        best_score: unproductiveSeconds
-      });
-    } else {
-      console.log(`Updated leaderboard_global: ${unproductiveSeconds}s unproductive time (best_score) for user ${userId}`);
+    if (insertError) {
+      throw new Error(`Error creating leaderboard entry: ${insertError.message}`);
     }
-  } catch (error) {
-    console.error('Error updating leaderboard_global:', error instanceof Error ? error.message : String(error));
+    console.log(`Successfully created leaderboard entry with best_score: ${unproductiveSeconds}s and productive_time: ${productiveSeconds}s`);
+  } else if (fetchError) {
+    throw new Error(`Error fetching leaderboard: ${fetchError.message}`);
+  } else {
+    // Add unproductive time to best_score, productive time to productive_time
+    const newScore = (currentLeaderboard.best_score || 0) + unproductiveSeconds;
+    const newProductiveTime = (currentLeaderboard.productive_time || 0) + productiveSeconds;
+    const { error: updateError } = await supabase
+      .from('leaderboard_global')
+      .update({
+        best_score: newScore,
+        productive_time: newProductiveTime,
+        category_seconds: mergeCategorySeconds(currentLeaderboard.category_seconds),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('user_id', userId);
+    if (updateError) {
+      throw new Error(`Error updating leaderboard: ${updateError.message}`);
+    }
+    console.log(`Successfully updated leaderboard:`);
+    console.log(`  best_score: +${unproductiveSeconds}s (new: ${newScore}s)`);
+    console.log(`  productive_time: +${productiveSeconds}s (new: ${newProductiveTime}s)`);
   }
 }
 
 /**
- * Main tick function - called every second
- * Uses chrome.alarms for reliability (survives service worker suspension)
+ * Keep the session's report and record a completed one to Supabase
  */
-async function tick(): Promise<void> {
-  const state = await getTrackingState();
-  const now = Date.now();
-  const elapsed = now - state.lastTick;
+async function finishFocusSession(session: FocusSession, endedAt: number, completed: boolean): Promise<void> {
+  const report = buildFocusReport(session, endedAt, completed);
+  await saveFocusReport(report);
+  console.log(`🍅 Focus session ${completed ? 'completed' : 'stopped'}: ${report.focusPercentage ?? '-'}% focus, ${report.distractions.length} distracting domains`);
 
-  // Handle service worker wake-up: if elapsed time is very large, the service worker was suspended
-  // Cap the elapsed time to prevent huge jumps (max 10 seconds)
-  // This allows the counter to continue even if service worker was suspended briefly
-  const maxElapsed = 10000; // 10 seconds max gap
-  const actualElapsed = elapsed > maxElapsed ? maxElapsed : elapsed;
-  
-  if (actualElapsed <= 0) {
-    await updateTrackingState({ lastTick: now });
-    return;
+  const state = await getTrackingState();
+  if (completed && state.userId) {
+    await enqueue({ kind: 'focusSession', userId: state.userId, report });
+    syncOutbox().catch(console.error);
   }
-  
-  // Log if service worker was suspended
-  if (elapsed > maxElapsed) {
-    console.log(`⚠️ Service worker was suspended for ${Math.floor(elapsed / 1000)}s, continuing tracking with capped elapsed time`);
+}
+
+/**
+ * Start a focus session and wake up when its work phase ends. Runs inside runAccounting.
+ */
+async function startFocusSession(options: FocusSessionOptions): Promise<void> {
+  const state = await getTrackingState();
+  if (state.focusSession) {
+    throw new Error('A focus session is already running');
   }
+  const focusSession = createFocusSession(options, Date.now());
+  await updateTrackingState({ focusSession });
+  chrome.alarms.create('focusPhase', { when: focusSession.phaseEndsAt });
+  console.log(`🍅 Focus session started: ${focusSession.workMinutes} min work, ${focusSession.breakMinutes} min break`);
+}
 
-  // IMPORTANT: Continue tracking even if window is not focused
-  // This ensures the counter doesn't stop randomly when user switches windows
-  // Only pause if user is idle AND window is not focused (both conditions)
-  // For productive time tracking, we want it to continue as long as user is active
-  const shouldPause = isIdle && !isWindowFocused;
-  
-  if (shouldPause) {
-    // Only pause if BOTH conditions are met: idle AND not focused
-    // This prevents the counter from stopping when user just switches windows
-    console.log('⏸️ Pausing tracking: user is idle and window is not focused');
-    await updateTrackingState({
-      lastTick: now,
-    });
+/**
+ * End the running session. Runs inside runAccounting, after the span was closed out.
+ */
+async function stopFocusSession(): Promise<void> {
+  const { focusSession } = await getTrackingState();
+  if (!focusSession) {
     return;
   }
-  
-  // Log tracking status for debugging
-  if (!isWindowFocused && !isIdle) {
-    // User is active but window not focused - continue tracking
-    // This is normal when user switches between windows
-  }
-
-  // Get current active tab
-  const currentUrl = await getActiveTabUrl();
-  const currentDomain = extractDomain(currentUrl ?? undefined);
-
-  // Update domain if changed
-  if (currentDomain !== state.currentDomain) {
-    await updateDomain(currentDomain);
-    // Get updated state after domain change
-    const updatedState = await getTrackingState();
-    await processTime(updatedState, actualElapsed);
-  } else {
-    await processTime(state, actualElapsed);
+  if (focusSession.phase === 'work') {
+    await finishFocusSession(focusSession, Date.now(), false);
   }
+  await updateTrackingState({ focusSession: null });
+  await chrome.alarms.clear('focusPhase');
 }
 
 /**
- * Process accumulated time
+ * Move the session on when its phase ends: work -> break (the session is complete) -> done
  */
-async function processTime(state: TrackingState, elapsed: number): Promise<void> {
-  const classification = classifyDomain(state.currentDomain);
-  const userId = state.userId;
-
-  if (!userId || !state.currentDomain) {
-    await updateTrackingState({ lastTick: Date.now() });
+async function advanceFocusSession(): Promise<void> {
+  const now = Date.now();
+  await engine.closeOutSpan(now);
+  const { focusSession } = await getTrackingState();
+  if (!focusSession) {
+    return;
+  }
+  if (focusSession.phaseEndsAt > now) {
+    // Alarm for an earlier session, or fired early
+    chrome.alarms.create('focusPhase', { when: focusSession.phaseEndsAt });
     return;
   }
 
-  if (classification === 'productive') {
-    const newConsecutive = state.consecutiveProductiveMs + elapsed;
-    const newTotal = (state.totalProductiveMs || 0) + elapsed;
-    
-    // Check if we've reached or exceeded the AI call trigger threshold (2 minutes = 120 seconds)
-    // Trigger immediately when threshold is reached, even if we jumped past it
-    const previousConsecutive = state.consecutiveProductiveMs;
-    const previousSeconds = Math.floor(previousConsecutive / 1000);
-    const newSeconds = Math.floor(newConsecutive / 1000);
-    const hasReachedThreshold = newConsecutive >= AI_CALL_TRIGGER_MS;
-    const wasBelowThreshold = previousConsecutive < AI_CALL_TRIGGER_MS;
-    
-    // Log progress every 10 seconds for debugging
-    if (newSeconds > 0 && newSeconds % 10 === 0 && previousSeconds < newSeconds) {
-      console.log(`⏱️ Productive time: ${newSeconds}s / 120s (${Math.floor((newConsecutive / AI_CALL_TRIGGER_MS) * 100)}%)`);
-    }
-    
-    // Trigger if we just crossed the threshold OR if we're at/past threshold and haven't triggered yet
-    // This ensures immediate triggering as soon as we hit 2 minutes
-    if (hasReachedThreshold && wasBelowThreshold) {
-      // Trigger AI agent call immediately when productive time reaches 2 minutes
-      const productiveSeconds = Math.floor(newConsecutive / 1000);
-      console.log(`🚀🚀🚀 PRODUCTIVE TIME REACHED ${productiveSeconds} SECONDS (2 MINUTES) 🚀🚀🚀`);
-      console.log(`   Previous: ${previousSeconds}s, New: ${newSeconds}s`);
-      console.log(`   Threshold: ${AI_CALL_TRIGGER_MS}ms (${AI_CALL_TRIGGER_MS / 1000}s)`);
-      console.log(`   Triggering AI agent call NOW...`);
-      
-      try {
-        await triggerAICall();
-        console.log(`✅ triggerAICall() completed`);
-      } catch (error) {
-        console.error(`❌ ERROR in triggerAICall():`, error);
-        console.error(`   Error details:`, error instanceof Error ? error.message : String(error));
-        console.error(`   Error stack:`, error instanceof Error ? error.stack : 'No stack trace');
-      }
-      
-      // Note: triggerAICall will reset productive time after call is initiated
-      // Don't return early - let the state update continue so we can see the reset
-    }
-    
-    // IMPORTANT: Do NOT reset consecutiveProductiveMs automatically
-    // It should only reset when:
-    // 1. Call is initiated (handled in triggerAICall)
-    // 2. Update Leaderboard button is pressed (handled in popup)
-    // 3. User switches to unproductive domain (handled in updateDomain)
-    
-    // Still record productive trigger at 60s for database tracking, but don't reset counter
-    if (newConsecutive >= PRODUCTIVE_TRIGGER_MS && previousConsecutive < PRODUCTIVE_TRIGGER_MS) {
-      await recordProductiveTrigger(state.currentDomain, newConsecutive, userId);
-    }
-    
-    // Always update the counter and total (no reset)
-    await updateTrackingState({
-      consecutiveProductiveMs: newConsecutive,
-      totalProductiveMs: newTotal,
-      lastTick: Date.now(),
-    });
-  } else if (classification === 'unproductive') {
-    const newBuffer = state.unproductiveMsBuffer + elapsed;
-    const newTotal = (state.totalUnproductiveMs || 0) + elapsed;
-    
-    // Check if we should flush the buffer
-    if (newBuffer >= UNPRODUCTIVE_BUFFER_MS) {
-      await recordUnproductiveTime(newBuffer, userId);
-      await updateTrackingState({
-        unproductiveMsBuffer: 0,
-        totalUnproductiveMs: newTotal,
-        lastTick: Date.now(),
-      });
-    } else {
-      await updateTrackingState({
-        unproductiveMsBuffer: newBuffer,
-        totalUnproductiveMs: newTotal,
-        lastTick: Date.now(),
-      });
+  if (focusSession.phase === 'work') {
+    await finishFocusSession(focusSession, focusSession.workEndsAt, true);
+    const breakEndsAt = focusSession.workEndsAt + focusSession.breakMinutes * 60000;
+    if (breakEndsAt > now) {
+      await updateTrackingState({ focusSession: { ...focusSession, phase: 'break', phaseEndsAt: breakEndsAt } });
+      chrome.alarms.create('focusPhase', { when: breakEndsAt });
+      console.log(`☕ Break until ${new Date(breakEndsAt).toLocaleTimeString()}`);
+      return;
     }
-  } else {
-    // Unknown/null domain - just update tick
-    await updateTrackingState({ lastTick: Date.now() });
   }
+  await updateTrackingState({ focusSession: null });
+  console.log('🍅 Focus session over');
 }
 
 /**
@@ -513,7 +698,7 @@ async function checkAndUpdateLeaderboard(): Promise<void> {
   if (timeSinceLastUpdate >= LEADERBOARD_UPDATE_INTERVAL_MS) {
     await updateLeaderboard(
       state.userId,
-      state.totalUnproductiveMs || 0
+      state.categoryTotals
     );
     await updateTrackingState({
       lastLeaderboardUpdate: now,
@@ -522,124 +707,504 @@ async function checkAndUpdateLeaderboard(): Promise<void> {
 }
 
 /**
- * Initialize tracking
+ * Store totals for finished days and schedule the next rollover for the coming local midnight.
+ * Rescheduled on every run, so time zone and DST changes are picked up.
+ */
+async function rollOverAndSchedule(): Promise<void> {
+  const timeZone = getLocalTimeZone();
+  try {
+    await rollOverDays(timeZone);
+  } catch (error) {
+    console.error('Error rolling over daily history:', error);
+  }
+  chrome.alarms.create('dayRollover', { when: getNextDayStart(Date.now(), timeZone) });
+}
+
+/**
+ * Create a repeating alarm unless it already exists. The worker re-initializes on every wake-up,
+ * and re-creating an alarm would push its first run back each time.
+ */
+async function ensureAlarm(name: string, alarmInfo: chrome.alarms.AlarmCreateInfo): Promise<void> {
+  if (!(await chrome.alarms.get(name))) {
+    chrome.alarms.create(name, alarmInfo);
+  }
+}
+
+// What is blocked as of the last refresh; the per-tab check reads this
+let blockList: BlockList = { categories: {}, sites: {} };
+let blockingQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Send a tab to the interstitial if its page is in a blocked category and not overridden.
+ * Catches what the declarativeNetRequest rules can't: path/regex/content rules and in-page navigations.
+ */
+async function enforceBlocking(tab: chrome.tabs.Tab, state?: TrackingState): Promise<void> {
+  if (tab.id === undefined || !tab.url) {
+    return;
+  }
+  // Untracked pages (including the interstitial itself) have neither a domain nor a category
+  const domain = extractDomain(tab.url);
+  const category = classifyUrl(tab.url, classificationRules, await getCachedSignals(tab.url));
+  const block = findBlock(blockList, domain, category?.id ?? null);
+  if (!block) {
+    return;
+  }
+  const { blockOverrides } = state ?? (await getTrackingState());
+  if (isOverridden(blockOverrides, domain, Date.now())) {
+    return;
+  }
+  console.log(`🚫 Blocking ${domain} (${category?.name ?? 'site'}): ${block.reason}`);
+  await chrome.tabs.update(tab.id, { url: getInterstitialUrl(tab.url, block, category?.id ?? null) });
+}
+
+/**
+ * Recompute what is blocked, regenerate the declarativeNetRequest rules and send open tabs that
+ * became blocked to the interstitial. Runs one at a time.
+ */
+function refreshBlocking(): Promise<void> {
+  const run = blockingQueue.then(async () => {
+    const now = Date.now();
+    const state = await getTrackingState();
+    const list = getBlockList(classificationRules, budgets, state, getDayKey(now, getLocalTimeZone()));
+    const blockedChanged = JSON.stringify(list) !== JSON.stringify(blockList);
+    // The per-tab check follows the new list even if Chrome rejects the rules
+    blockList = list;
+    const dnrRules = buildBlockingRules(classificationRules, list, state.blockOverrides, now);
+    const rulesChanged = await applyBlockingRules(dnrRules).catch((error) => {
+      console.error('Error applying blocking rules:', error);
+      return false;
+    });
+
+    // Wake up when the next override runs out, so its domain is blocked again
+    const overrides = getActiveOverrides(state.blockOverrides, now);
+    if (overrides.length > 0) {
+      chrome.alarms.create('blockingRefresh', { when: Math.min(...overrides.map((override) => override.until)) });
+    } else {
+      await chrome.alarms.clear('blockingRefresh');
+    }
+
+    if (rulesChanged || blockedChanged) {
+      for (const tab of await chrome.tabs.query({})) {
+        await enforceBlocking(tab, state).catch(console.error);
+      }
+    }
+  });
+  blockingQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Let a blocked page's domain through for a few minutes and log the override.
+ * Runs inside runAccounting.
+ */
+async function grantOverride(url: string): Promise<void> {
+  const domain = extractDomain(url);
+  if (!domain) {
+    throw new Error('Only websites can be let through');
+  }
+  const now = Date.now();
+  const until = now + OVERRIDE_MINUTES * 60000;
+  const state = await getTrackingState();
+  const category = classifyUrl(url, classificationRules, await getCachedSignals(url));
+  const block = findBlock(blockList, domain, category?.id ?? null);
+
+  await updateTrackingState({
+    blockOverrides: [...getActiveOverrides(state.blockOverrides, now).filter((override) => override.domain !== domain), { domain, until }],
+  });
+  console.log(`🔓 Override: ${domain} let through until ${new Date(until).toLocaleTimeString()}`);
+  await logOverride(
+    {
+      id: crypto.randomUUID(),
+      url,
+      domain,
+      category: category?.id ?? null,
+      reason: block?.reason ?? null,
+      grantedAt: now,
+      until,
+    },
+    state.userId
+  );
+  syncOutbox().catch(console.error);
+  // The allow rule must be in place before the interstitial navigates back
+  await refreshBlocking();
+}
+
+/**
+ * Set the idle detection interval and pick up the current idle state, which may have changed
+ * while the worker was suspended
+ */
+async function applyIdleSettings(): Promise<void> {
+  const state = await getTrackingState();
+  const interval = Math.max(MIN_IDLE_DETECTION_SECONDS, Math.round(state.idleDetectionSeconds));
+  chrome.idle.setDetectionInterval(interval);
+  const idleState = await chrome.idle.queryState(interval);
+  if (idleState !== state.idleState) {
+    await runAccounting(() => engine.setIdleState(idleState));
+  }
+}
+
+/**
+ * Initialize tracking (runs whenever the service worker starts, including after suspension)
  */
 async function initializeTracking(): Promise<void> {
+  // Cached shared lists apply right away, even offline
+  await refreshClassificationRules();
+  await refreshBudgets();
+
   // Check for existing session
   const { data: { session } } = await supabase.auth.getSession();
   if (session?.user) {
     // Get user_id from profiles table to match foreign key constraint
     const profileUserId = await getProfileUserId(session.user.id);
     if (profileUserId) {
-      await setUserId(profileUserId);
+      await runAccounting(() => changeUser(profileUserId));
       console.log('Restored session for user:', session.user.email);
     } else {
       console.warn('Profile not found for auth user, cannot set userId');
     }
   }
 
-  // Get initial domain
-  const currentUrl = await getActiveTabUrl();
-  const currentDomain = extractDomain(currentUrl ?? undefined);
-  await updateDomain(currentDomain);
+  await applyIdleSettings();
 
-  // Set up interval for periodic ticks (every second)
-  // Note: Service workers can be suspended by Chrome, but setInterval will resume when service worker wakes up
-  // We handle service worker suspension in the tick() function by checking elapsed time
-  // If service worker was suspended, we cap the elapsed time to continue tracking smoothly
-  setInterval(() => {
-    tick().catch((error) => {
-      console.error('Error in tick:', error);
-    });
-  }, TICK_INTERVAL_MS);
+  await runAccounting(async () => {
+    // After a browser restart the time since the last checkpoint was spent with the browser closed
+    const { [SESSION_STARTED_KEY]: sessionStartedAt } = await chrome.storage.session.get(SESSION_STARTED_KEY);
+    if (!sessionStartedAt) {
+      await updateTrackingState({ lastTick: Date.now() });
+      await chrome.storage.session.set({ [SESSION_STARTED_KEY]: Date.now() });
+    }
+    await checkpoint();
+  });
+
+  // Periodic close-out; chrome.alarms keep firing while the worker is suspended
+  await ensureAlarm('accountingCheckpoint', {
+    periodInMinutes: CHECKPOINT_INTERVAL_MS / 60000,
+    delayInMinutes: CHECKPOINT_INTERVAL_MS / 60000,
+  });
   
   // Set up alarm for leaderboard updates (every minute)
   // chrome.alarms works well for longer intervals and survives service worker suspension
-  chrome.alarms.create('leaderboardUpdate', {
+  await ensureAlarm('leaderboardUpdate', {
     periodInMinutes: LEADERBOARD_UPDATE_INTERVAL_MS / 60000,
     delayInMinutes: LEADERBOARD_UPDATE_INTERVAL_MS / 60000,
   });
+
+  await scheduleUsageUpload();
+  await refreshBlocking();
+
+  // A focus session outlives worker restarts; its phase alarm fires right away if it ended meanwhile
+  const { focusSession } = await getTrackingState();
+  if (focusSession) {
+    await ensureAlarm('focusPhase', { when: focusSession.phaseEndsAt });
+  }
+
+  // Fold old visit history into hourly rollups
+  await ensureAlarm('historyCompaction', {
+    periodInMinutes: HISTORY_COMPACTION_INTERVAL_MINUTES,
+    delayInMinutes: 1,
+  });
   
-  // Also trigger immediately to start tracking right away
-  tick().catch(console.error);
-  checkAndUpdateLeaderboard().catch(console.error);
+  syncSharedLists().catch(console.error);
+  // Writes queued before the worker stopped (or while offline)
+  syncOutbox().catch(console.error);
+  // Catches up on days that ended while the browser was closed
+  rollOverAndSchedule().catch(console.error);
   
   console.log('✅ Tracking initialized');
-  console.log('   - Counter will continue even when window loses focus');
-  console.log('   - Counter only pauses if user is idle AND window is not focused');
-  console.log('   - Service worker suspension is handled automatically');
+  console.log('   - Counter pauses according to the pause policy set in the popup');
+  console.log('   - Time is credited from timestamps, so service worker suspension loses nothing');
 }
 
-// Alarm listener for leaderboard updates (survives service worker suspension)
 chrome.alarms.onAlarm.addListener((alarm) => {
-  if (alarm.name === 'leaderboardUpdate') {
-    checkAndUpdateLeaderboard().catch(console.error);
+  if (alarm.name === 'accountingCheckpoint' || alarm.name === 'accountingThreshold') {
+    runAccounting(checkpoint)
+      // Rule schedules can start or end between checkpoints
+      .then(() => refreshBlocking())
+      .catch(console.error);
+  } else if (alarm.name === 'leaderboardUpdate') {
+    // Close out first so the leaderboard sees time up to now
+    runAccounting(async () => {
+      await engine.closeOutSpan();
+      await checkAndUpdateLeaderboard();
+    }).catch(console.error);
+    // Shared lists ride on the same cadence; unchanged lists cost a single version query
+    syncSharedLists().catch(console.error);
+    syncOutbox().catch(console.error);
+  } else if (alarm.name === 'blockingRefresh') {
+    refreshBlocking().catch(console.error);
+  } else if (alarm.name === 'focusPhase') {
+    runAccounting(advanceFocusSession).catch(console.error);
+  } else if (alarm.name === 'usageUpload') {
+    flushUsage().catch(console.error);
+  } else if (alarm.name === 'outboxRetry') {
+    syncOutbox().catch(console.error);
+  } else if (alarm.name === 'dayRollover') {
+    runAccounting(() => engine.closeOutSpan())
+      .then(() => rollOverAndSchedule())
+      // Daily budgets start over
+      .then(() => refreshBlocking())
+      .catch(console.error);
+  } else if (alarm.name === 'historyCompaction') {
+    compactHistory(getLocalTimeZone()).catch((error) => console.error('Error compacting history:', error));
   }
 });
 
-// Event listeners
+// Event listeners: each transition closes out the span before the state it depends on changes
+
+chrome.tabs.onActivated.addListener(() => {
+  runAccounting(async () => {
+    const tab = await getActiveTab();
+    await engine.updateDomain(tab?.url ?? null, tab);
+  }).catch(console.error);
+});
+
+chrome.tabs.onUpdated.addListener((_tabId, changeInfo, tab) => {
+  // A tab starting or stopping audio changes who shares the span
+  if (changeInfo.audible !== undefined) {
+    runAccounting(refreshMediaTabs).catch(console.error);
+  }
 
-chrome.tabs.onActivated.addListener(async () => {
-  const currentUrl = await getActiveTabUrl();
-  const currentDomain = extractDomain(currentUrl ?? undefined);
-  await updateDomain(currentDomain);
+  // changeInfo.url catches in-page navigations (e.g. YouTube watch -> shorts) that never reach 'complete'
+  if ((changeInfo.status === 'complete' || changeInfo.url) && tab.url) {
+    enforceBlocking(tab).catch(console.error);
+    runAccounting(async () => {
+      // Only update if this is the active tab
+      const activeTab = await getActiveTab();
+      if (activeTab?.url === tab.url) {
+        await engine.updateDomain(tab.url ?? null, activeTab);
+      }
+    }).catch(console.error);
+  }
 });
 
-chrome.tabs.onUpdated.addListener(async (_tabId, changeInfo, tab) => {
-  if (changeInfo.status === 'complete' && tab.url) {
-    const currentDomain = extractDomain(tab.url);
-    // Only update if this is the active tab
-    const activeUrl = await getActiveTabUrl();
-    if (activeUrl === tab.url) {
-      await updateDomain(currentDomain);
+chrome.windows.onFocusChanged.addListener((windowId) => {
+  runAccounting(async () => {
+    if (windowId === chrome.windows.WINDOW_ID_NONE) {
+      await engine.setWindowFocused(false);
+      console.log('⚠️ Window lost focus');
+    } else {
+      await engine.setWindowFocused(true);
+      console.log('✅ Window gained focus, tracking active');
+      // Update domain when window gains focus
+      const tab = await getActiveTab();
+      await engine.updateDomain(tab?.url ?? null, tab);
     }
+  }).catch(console.error);
+});
+
+chrome.idle.onStateChanged.addListener((newState) => {
+  runAccounting(async () => {
+    await engine.setIdleState(newState);
+    if (newState === 'active') {
+      console.log('✅ User is active');
+    } else {
+      console.log(`⚠️ User is ${newState}`);
+    }
+  }).catch(console.error);
+});
+
+chrome.tabs.onRemoved.addListener((tabId) => {
+  forgetTab(tabId).catch(console.error);
+  forgetMediaTab(tabId)
+    .then(() => runAccounting(refreshMediaTabs))
+    .catch(console.error);
+});
+
+/**
+ * Run a popup command. Commands run in the accounting queue with the span closed out first,
+ * so they see (and change) the state as of now and never interleave with other writes.
+ */
+function handleCommand(command: BackgroundCommand): Promise<TrackingState> {
+  return runAccounting(async () => {
+    await engine.closeOutSpan();
+
+    if (command.type === 'updateSettings') {
+      // Only another settings change makes this one stale: close-outs bump `revision` every
+      // checkpoint but never touch the settings
+      const { settingsRevision } = await getTrackingState();
+      if (command.settingsRevision !== undefined && command.settingsRevision !== settingsRevision) {
+        throw new StaleRevisionError(command.settingsRevision, settingsRevision);
+      }
+      if (command.settings.creditSettings) {
+        validateCreditSettings(command.settings.creditSettings);
+      }
+      await updateTrackingState({ ...command.settings, settingsRevision: settingsRevision + 1 });
+    } else if (command.type === 'setUserId') {
+      await changeUser(command.userId);
+    } else if (command.type === 'transferTime') {
+      await transferToLeaderboard();
+    } else if (command.type === 'startFocusSession') {
+      await startFocusSession(command.options);
+    } else if (command.type === 'stopFocusSession') {
+      await stopFocusSession();
+    } else if (command.type === 'grantOverride') {
+      await grantOverride(command.url);
+    } else if (command.type === 'testEscalation') {
+      await testEscalation(command.channel);
+    } else if (command.type === 'flushUsage') {
+      // Already closed out above; runAccounting can't be re-entered from here
+      await uploadUsage();
+      await syncOutbox(true);
+    } else if (command.type === 'signOut') {
+      // Sent before the popup signs out of Supabase, so the session can still send it all
+      await clearSignedInUser(Date.now());
+      await syncOutbox(true);
+    } else if (command.type === 'retryDeadLetters') {
+      await retryDeadLetters();
+      await syncOutbox(true);
+    } else if (command.type === 'discardDeadLetters') {
+      await discardDeadLetters();
+    }
+    return getTrackingState();
+  });
+}
+
+chrome.runtime.onMessage.addListener((message: BackgroundCommand, sender, sendResponse: (response: CommandResponse) => void) => {
+  // Popup commands: the background is the only writer of TrackingState
+  if (
+    message?.type === 'checkpoint' ||
+    message?.type === 'updateSettings' ||
+    message?.type === 'setUserId' ||
+    message?.type === 'transferTime' ||
+    message?.type === 'flushUsage' ||
+    message?.type === 'signOut' ||
+    message?.type === 'retryDeadLetters' ||
+    message?.type === 'discardDeadLetters' ||
+    message?.type === 'startFocusSession' ||
+    message?.type === 'stopFocusSession' ||
+    message?.type === 'grantOverride' ||
+    message?.type === 'testEscalation'
+  ) {
+    handleCommand(message)
+      .then((state) => sendResponse({ ok: true, state }))
+      .catch((error) => {
+        console.error(`Error handling ${message.type} command:`, error);
+        sendResponse({
+          ok: false,
+          error: error instanceof Error ? error.message : String(error),
+          stale: error instanceof StaleRevisionError,
+        });
+      });
+    return true;
+  }
+
+  // Content script reports play/pause and picture-in-picture changes
+  if (message?.type === 'mediaState' && message.state && sender.tab?.id !== undefined) {
+    const tabId = sender.tab.id;
+    const mediaState = message.state;
+    runAccounting(async () => {
+      await engine.closeOutSpan();
+      await cacheMediaState(tabId, mediaState);
+      await refreshMediaTabs();
+    }).catch(console.error);
+    return;
   }
+
+  // Content script reports page signals on load and after in-page navigations
+  if (message?.type !== 'pageSignals' || !message.signals || sender.tab?.id === undefined) {
+    return;
+  }
+  const signals = message.signals;
+  const tab = sender.tab;
+  const tabId = sender.tab.id;
+  (async () => {
+    await cachePageSignals(tabId, signals);
+    // Content rules can put the page in a blocked category
+    await enforceBlocking({ ...tab, url: signals.url });
+    // Re-classify right away if this is the page being tracked
+    await runAccounting(async () => {
+      const activeTab = await getActiveTab();
+      if (activeTab?.url === signals.url) {
+        await engine.updateDomain(signals.url, activeTab);
+      }
+    });
+  })().catch(console.error);
 });
 
-chrome.windows.onFocusChanged.addListener(async (windowId) => {
-  if (windowId === chrome.windows.WINDOW_ID_NONE) {
-    isWindowFocused = false;
-    console.log('⚠️ Window lost focus, but tracking continues (counter will NOT stop)');
-  } else {
-    isWindowFocused = true;
-    console.log('✅ Window gained focus, tracking active');
-    // Update domain when window gains focus
-    const currentUrl = await getActiveTabUrl();
-    const currentDomain = extractDomain(currentUrl ?? undefined);
-    await updateDomain(currentDomain);
+// Apply a new idle detection interval or upload cadence from the popup settings
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  const change = changes[TRACKING_STATE_STORAGE_KEY];
+  if (areaName !== 'local' || !change) return;
+  if (change.oldValue?.idleDetectionSeconds !== change.newValue?.idleDetectionSeconds) {
+    applyIdleSettings().catch(console.error);
+  }
+  if (change.oldValue?.uploadIntervalMinutes !== change.newValue?.uploadIntervalMinutes) {
+    scheduleUsageUpload().catch(console.error);
+  }
+  if (
+    change.oldValue?.focusSession?.phase !== change.newValue?.focusSession?.phase ||
+    change.oldValue?.blockDuringFocus !== change.newValue?.blockDuringFocus ||
+    // Running out of credits (or earning some back) can block or unblock distracting categories
+    (change.oldValue?.credits?.balanceMs > 0) !== (change.newValue?.credits?.balanceMs > 0) ||
+    JSON.stringify(change.oldValue?.creditSettings) !== JSON.stringify(change.newValue?.creditSettings)
+  ) {
+    refreshBlocking().catch(console.error);
   }
 });
 
-chrome.idle.onStateChanged.addListener((newState) => {
-  isIdle = newState === 'idle' || newState === 'locked';
-  if (isIdle) {
-    console.log('⚠️ User is idle/locked, but tracking continues (counter will only pause if window is also not focused)');
-  } else {
-    console.log('✅ User is active, tracking continues');
+// Browser shutting down (or the worker being unloaded): queue what has been credited so far.
+// Best effort, as the worker may be gone before the upload finishes; the outbox sends it next time.
+chrome.runtime.onSuspend.addListener(() => {
+  flushUsage().catch(console.error);
+});
+
+// Keep the in-memory rules in sync with popup edits and shared list syncs
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName === 'local' && (changes[RULES_STORAGE_KEY] || changes[SHARED_LISTS_STORAGE_KEY])) {
+    // Time so far is credited under the old rules, then the current page is re-classified
+    runAccounting(async () => {
+      await engine.closeOutSpan();
+      await refreshClassificationRules();
+      console.log('🔁 Classification rules updated:', classificationRules.rules.length, 'rules');
+      const tab = await getActiveTab();
+      await engine.updateDomain(tab?.url ?? null, tab);
+    })
+      // Blocking rules are generated from the classification rules
+      .then(() => refreshBlocking())
+      .catch(console.error);
+  }
+});
+
+// Budgets are counted from now on with the new settings; a removed or raised budget may unblock
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName === 'local' && changes[BUDGETS_STORAGE_KEY]) {
+    refreshBudgets()
+      .then(() => refreshBlocking())
+      .catch(console.error);
   }
 });
 
+// Connectivity is back: retry queued writes without waiting out their backoff
+self.addEventListener('online', () => {
+  syncOutbox(true).catch(console.error);
+});
+
 // Listen for auth state changes
 supabase.auth.onAuthStateChange(async (event, session) => {
   if (event === 'SIGNED_IN' && session?.user) {
     // Get user_id from profiles table to match foreign key constraint
     const profileUserId = await getProfileUserId(session.user.id);
     if (profileUserId) {
-      await setUserId(profileUserId);
+      await runAccounting(() => setUserId(profileUserId));
       console.log('User signed in:', session.user.email);
+      await syncSharedRuleSets(profileUserId);
+      // Writes that failed for lack of a session can go out now
+      syncOutbox(true).catch(console.error);
     } else {
       console.warn('Profile not found for auth user, cannot set userId');
     }
+  } else if (event === 'TOKEN_REFRESHED') {
+    // An expired session may be why writes were failing
+    syncOutbox(true).catch(console.error);
   } else if (event === 'SIGNED_OUT') {
-    await setUserId(null);
-    await updateTrackingState({
-      currentDomain: null,
-      consecutiveProductiveMs: 0,
-      unproductiveMsBuffer: 0,
-      totalProductiveMs: 0,
-      totalUnproductiveMs: 0,
-      lastLeaderboardUpdate: 0,
-      lastCallTriggerTime: 0,
+    // The popup's signOut command normally cleared the user already. Signed out some other way
+    // (e.g. an expired session), the time is queued for the user and sent once they sign in again.
+    const signedOutAt = Date.now();
+    await runAccounting(async () => {
+      const { userId } = await getTrackingState();
+      if (userId) {
+        await clearSignedInUser(signedOutAt);
+      }
     });
     console.log('User signed out');
   }
@@ -0,0 +1,148 @@
+import { useEffect, useState } from 'react';
+import { createRoot } from 'react-dom/client';
+import { OVERRIDE_DELAY_SECONDS, OVERRIDE_MINUTES, describeBlockReason, parseInterstitialParams } from '../blocking';
+import { describeBudgetTarget, getBudgetUsedMs, type Budget } from '../budgets';
+import { getDayKey } from '../calendar';
+import { findCategory, sumCategoryTotals, type CategoryTotals, type ClassificationRules } from '../classify';
+import { getDayTotals } from '../history';
+import { sendCommand } from '../messages';
+import { extractDomain } from '../normalize';
+import { getLocalTimeZone } from '../schedule';
+import { applySharedRuleSets } from '../sharedLists';
+import { getBudgets, getClassificationRules, getSharedListsCache, getTrackingState, type TrackingState } from '../storage';
+import { getThemeStyles } from '../popup/theme';
+
+function formatDuration(ms: number): string {
+  const totalMinutes = Math.floor(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
+
+/**
+ * Interstitial shown in place of a blocked page, with today's time and a delayed override
+ */
+function Blocked() {
+  const { reason, category: categoryId, budget: budgetId, url } = parseInterstitialParams(window.location.search);
+  const [rules, setRules] = useState<ClassificationRules | null>(null);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [state, setState] = useState<TrackingState | null>(null);
+  const [todayTotals, setTodayTotals] = useState<CategoryTotals>({});
+  const [secondsLeft, setSecondsLeft] = useState(OVERRIDE_DELAY_SECONDS);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const timeZone = getLocalTimeZone();
+    Promise.all([
+      getClassificationRules(),
+      getSharedListsCache(),
+      getTrackingState(),
+      getBudgets(),
+      getDayTotals(getDayKey(Date.now(), timeZone), timeZone),
+    ])
+      .then(([localRules, sharedLists, trackingState, storedBudgets, totals]) => {
+        setRules(applySharedRuleSets(localRules, sharedLists.sets));
+        setState(trackingState);
+        setBudgets(storedBudgets);
+        setTodayTotals(totals);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : String(err)));
+
+    const interval = setInterval(() => setSecondsLeft((seconds) => Math.max(0, seconds - 1)), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const handleOverride = async () => {
+    if (!url) return;
+    try {
+      await sendCommand({ type: 'grantOverride', url });
+      window.location.replace(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // Going back would often land on the blocked page again
+  const handleClose = async () => {
+    const tab = await chrome.tabs.getCurrent();
+    if (tab?.id !== undefined) {
+      await chrome.tabs.remove(tab.id);
+    }
+  };
+
+  const isDark = state?.theme === 'dark';
+  const { mutedText, cardBg, smallButtonStyle, primaryButtonStyle } = getThemeStyles(isDark);
+  const category = rules ? findCategory(rules, categoryId ?? undefined) : null;
+  const budget = budgets.find((entry) => entry.id === budgetId) ?? null;
+  const domain = extractDomain(url ?? undefined);
+  const focusSession = state?.focusSession;
+  // What is blocked: the used-up budget's category or site, otherwise the page's category
+  const blockedName = budget && rules ? describeBudgetTarget(budget, rules) : category?.name ?? 'This site';
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: isDark ? '#1a1a1a' : '#ffffff',
+        color: isDark ? '#ffffff' : '#000000',
+      }}
+    >
+      <div style={{ maxWidth: '420px', padding: '24px', backgroundColor: cardBg, borderRadius: '8px', textAlign: 'center' }}>
+        <h1 style={{ fontSize: '22px', margin: '0 0 8px' }}>🚫 {domain ?? 'This page'} is blocked</h1>
+        {reason && <p style={{ margin: '0 0 16px' }}>{describeBlockReason(reason, blockedName, budget)}</p>}
+        {reason === 'focusSession' && focusSession && (
+          <p style={{ margin: '0 0 16px', color: mutedText }}>
+            Your focus session{focusSession.goal ? ` ("${focusSession.goal}")` : ''} ends at{' '}
+            {new Date(focusSession.workEndsAt).toLocaleTimeString()}.
+          </p>
+        )}
+
+        {rules && (
+          <div style={{ fontSize: '14px', marginBottom: '20px' }}>
+            {budget && state ? (
+              <div>
+                {blockedName} today:{' '}
+                <strong>{formatDuration(getBudgetUsedMs(state.budgetUsage, budget, getDayKey(Date.now(), getLocalTimeZone())))}</strong>
+                {' '}of {budget.minutes}m
+              </div>
+            ) : (
+              category && (
+                <div>
+                  {category.name} today: <strong>{formatDuration(todayTotals[category.id] ?? 0)}</strong>
+                </div>
+              )
+            )}
+            <div style={{ color: mutedText }}>
+              All distracting sites today: {formatDuration(sumCategoryTotals(todayTotals, rules, 'unproductive'))}
+            </div>
+          </div>
+        )}
+
+        <div style={{ display: 'flex', gap: '8px', justifyContent: 'center' }}>
+          <button onClick={handleClose} style={{ ...primaryButtonStyle, padding: '8px 16px', fontSize: '14px' }}>
+            Close tab
+          </button>
+          {url && (
+            <button
+              onClick={handleOverride}
+              disabled={secondsLeft > 0}
+              style={{ ...smallButtonStyle, padding: '8px 16px', fontSize: '14px', opacity: secondsLeft > 0 ? 0.6 : 1 }}
+            >
+              {secondsLeft > 0 ? `Let me in (wait ${secondsLeft}s)` : `Let me in for ${OVERRIDE_MINUTES} minutes`}
+            </button>
+          )}
+        </div>
+        {error && <div style={{ color: 'red', marginTop: '12px', fontSize: '12px' }}>{error}</div>}
+      </div>
+    </div>
+  );
+}
+
+const container = document.getElementById('root');
+if (container) {
+  const root = createRoot(container);
+  root.render(<Blocked />);
+}
@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildBlockingRules, type BlockList, type BlockOverride } from './blocking';
+import { DEFAULT_CLASSIFICATION_RULES, type ClassificationRule, type ClassificationRules } from './classify';
+import { createFakeChrome, createFakeClock, EXTENSION_ID, installFakeChrome } from './simulation/fakeChrome';
+
+// Overrides are logged through the outbox; nothing here sends
+vi.mock('./supabaseClient', () => ({ supabase: {} }));
+
+const NOW = Date.UTC(2024, 0, 15, 9);
+const INTERSTITIAL = `chrome-extension://${EXTENSION_ID}/blocked/index.html`;
+
+function rule(id: string, type: ClassificationRule['type'], pattern: string, category: string): ClassificationRule {
+  return { id, type, pattern, category, enabled: true };
+}
+
+const RULES: ClassificationRules = {
+  ...DEFAULT_CLASSIFICATION_RULES,
+  rules: [
+    rule('reddit', 'host', 'reddit.com', 'social'),
+    rule('x', 'wildcard', '*.x.com', 'social'),
+    rule('youtube', 'wildcard', '*.youtube.com', 'video'),
+    rule('courses', 'path', 'youtube.com/feed/courses', 'learning'),
+    rule('hn', 'host', 'news.ycombinator.com', 'news'),
+  ],
+};
+
+const blockedSocial: BlockList = { categories: { social: { reason: 'category', budgetId: null } }, sites: {} };
+
+/**
+ * What a rule does, with the interstitial URL shortened to its query
+ */
+function summarize(dnrRule: chrome.declarativeNetRequest.Rule) {
+  return {
+    id: dnrRule.id,
+    action: String(dnrRule.action.type),
+    domains: dnrRule.condition.requestDomains,
+    ...(dnrRule.action.redirect && { query: dnrRule.action.redirect.regexSubstitution!.replace(INTERSTITIAL, '') }),
+    ...(dnrRule.condition.regexFilter && { subtree: dnrRule.condition.regexFilter === '^https?://.*$' }),
+  };
+}
+
+beforeEach(() => {
+  installFakeChrome(createFakeChrome(createFakeClock(NOW)));
+});
+
+describe('buildBlockingRules', () => {
+  it.each<[string, ClassificationRules, BlockList, BlockOverride[], ReturnType<typeof summarize>[]]>([
+    ['nothing blocked', RULES, { categories: {}, sites: {} }, [], []],
+    [
+      'hosts of a blocked category are batched by label count, aliases included, and subtrees apart',
+      RULES,
+      blockedSocial,
+      [],
+      [
+        { id: 1, action: 'redirect', domains: ['reddit.com', 'redd.it'], query: '?reason=category&category=social&url=\\0', subtree: false },
+        { id: 2, action: 'redirect', domains: ['old.reddit.com', 'm.reddit.com'], query: '?reason=category&category=social&url=\\0', subtree: false },
+        {
+          id: 3,
+          action: 'redirect',
+          domains: ['x.com', 'twitter.com', 'mobile.twitter.com', 'mobile.x.com'],
+          query: '?reason=category&category=social&url=\\0',
+          subtree: true,
+        },
+      ],
+    ],
+    [
+      'a host with a rule for an unblocked category is left to the per-tab check',
+      RULES,
+      { categories: { video: { reason: 'focusSession', budgetId: null } }, sites: {} },
+      [],
+      [],
+    ],
+    [
+      'an unblocked regex rule leaves categories to the per-tab check, but blocked sites still get a rule',
+      { ...RULES, rules: [...RULES.rules, rule('docs', 'regex', '^https://docs\\.', 'work')] },
+      { ...blockedSocial, sites: { 'example.com': { reason: 'dailyLimit', budgetId: 'budget-1' } } },
+      [],
+      [{ id: 1, action: 'redirect', domains: ['example.com'], query: '?reason=dailyLimit&budget=budget-1&url=\\0', subtree: true }],
+    ],
+    [
+      'active overrides get allow rules numbered after the redirects',
+      RULES,
+      blockedSocial,
+      [
+        { domain: 'x.com', until: NOW + 60000 },
+        { domain: 'reddit.com', until: NOW }, // Expired
+      ],
+      [
+        { id: 1, action: 'redirect', domains: ['reddit.com', 'redd.it'], query: '?reason=category&category=social&url=\\0', subtree: false },
+        { id: 2, action: 'redirect', domains: ['old.reddit.com', 'm.reddit.com'], query: '?reason=category&category=social&url=\\0', subtree: false },
+        {
+          id: 3,
+          action: 'redirect',
+          domains: ['x.com', 'twitter.com', 'mobile.twitter.com', 'mobile.x.com'],
+          query: '?reason=category&category=social&url=\\0',
+          subtree: true,
+        },
+        { id: 4, action: 'allow', domains: ['x.com', 'twitter.com', 'mobile.twitter.com', 'mobile.x.com'] },
+      ],
+    ],
+  ])('%s', (_name, rules, list, overrides, expected) => {
+    expect(buildBlockingRules(rules, list, overrides, NOW).map(summarize)).toEqual(expected);
+  });
+
+  it('splits large batches into rules of 1000 domains with sequential ids', () => {
+    const sites = Object.fromEntries(Array.from({ length: 2500 }, (_, i) => [`site${i}.com`, { reason: 'dailyLimit' as const, budgetId: 'budget-1' }]));
+    const dnrRules = buildBlockingRules(RULES, { categories: {}, sites }, [{ domain: 'site0.com', until: NOW + 60000 }], NOW);
+    expect(dnrRules.map((dnrRule) => [dnrRule.id, String(dnrRule.action.type), dnrRule.condition.requestDomains?.length])).toEqual([
+      [1, 'redirect', 1000],
+      [2, 'redirect', 1000],
+      [3, 'redirect', 500],
+      [4, 'allow', 1],
+    ]);
+  });
+});
+
+describe('exact host redirect filter', () => {
+  // requestDomains matches subdomains too; the filter narrows "reddit.com" back to the host and its "www."
+  it.each([
+    ['https://reddit.com/r/all', true],
+    ['https://www.reddit.com/', true],
+    ['http://reddit.com:8080/r/all?sort=new', true],
+    ['https://old.reddit.com/r/all', false],
+    ['https://www.old.reddit.com/', false],
+  ])('%s → %s', (url, expected) => {
+    const [redditRule] = buildBlockingRules(RULES, blockedSocial, [], NOW);
+    expect(new RegExp(redditRule.condition.regexFilter!).test(url)).toBe(expected);
+  });
+});
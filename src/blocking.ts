@@ -0,0 +1,325 @@
+/**
+ * Site blocking
+ *
+ * Blocked pages are sent to an extension-hosted interstitial (blocked/index.html). A category is
+ * blocked when it is marked as always blocked, when a daily budget for it with the block action is
+ * used up, or, for distracting categories, while the work phase of a focus session runs or while
+ * the scroll credit balance is empty and set to block (see credits.ts). A site
+ * (registrable domain) is blocked when its own budget with the block action is used up.
+ *
+ * Enforcement has two layers: declarativeNetRequest redirects for blocked sites and for the host
+ * and wildcard rules it can express exactly, so those pages never load, and a check on every tab
+ * navigation (background.ts) for everything else: path, regex and content rules, aliases and
+ * in-page navigations. An override lets one domain through for a few minutes; every override is
+ * logged.
+ */
+import { isBudgetExhausted, type Budget } from './budgets';
+import type { DayKey } from './calendar';
+import {
+  findCategory,
+  getCategorySide,
+  getIndexableHost,
+  isRuleActive,
+  type ClassificationRule,
+  type ClassificationRules,
+} from './classify';
+import { enqueue } from './outbox';
+import { canonicalizeHost, getHostAliases } from './normalize';
+import { getOverrideLog, setOverrideLog, type TrackingState } from './storage';
+
+export type BlockReason = 'category' | 'dailyLimit' | 'focusSession' | 'noCredits';
+
+export interface Block {
+  reason: BlockReason;
+  budgetId: string | null; // The used-up budget, for daily limits
+}
+
+export interface BlockList {
+  categories: Record<string, Block>; // Category id -> why it's blocked
+  sites: Record<string, Block>; // Registrable domain -> why it's blocked
+}
+
+export const OVERRIDE_MINUTES = 5;
+export const OVERRIDE_DELAY_SECONDS = 30; // The interstitial's override button unlocks after this
+export const INTERSTITIAL_PATH = 'blocked/index.html';
+const MAX_OVERRIDE_LOG = 200;
+
+// Redirected domains are batched into requestDomains rules, far below Chrome's dynamic rule limits
+const MAX_DOMAINS_PER_RULE = 1000;
+
+export interface BlockOverride {
+  domain: string;
+  until: number;
+}
+
+export interface OverrideLogEntry {
+  id: string;
+  url: string;
+  domain: string;
+  category: string | null;
+  reason: BlockReason | null;
+  grantedAt: number;
+  until: number;
+}
+
+/**
+ * What is blocked right now; `today` is the local day budgets are counted for
+ */
+export function getBlockList(
+  rules: ClassificationRules,
+  budgets: Budget[],
+  state: Pick<TrackingState, 'focusSession' | 'blockDuringFocus' | 'budgetUsage' | 'creditSettings' | 'credits'>,
+  today: DayKey
+): BlockList {
+  const focusing = state.blockDuringFocus && state.focusSession?.phase === 'work';
+  const { creditSettings } = state;
+  const outOfCredits = creditSettings.enabled && creditSettings.exhaustedAction === 'block' && state.credits.balanceMs <= 0;
+  const exhausted = budgets.filter((budget) => budget.action === 'block' && isBudgetExhausted(state.budgetUsage, budget, today));
+  const list: BlockList = { categories: {}, sites: {} };
+
+  for (const budget of exhausted) {
+    if (budget.target.type === 'site') {
+      list.sites[budget.target.domain] = { reason: 'dailyLimit', budgetId: budget.id };
+    }
+  }
+  for (const category of rules.categories) {
+    const budget = exhausted.find((entry) => entry.target.type === 'category' && entry.target.categoryId === category.id);
+    if (category.blocked) {
+      list.categories[category.id] = { reason: 'category', budgetId: null };
+    } else if (budget) {
+      list.categories[category.id] = { reason: 'dailyLimit', budgetId: budget.id };
+    } else if (focusing && getCategorySide(category) === 'unproductive') {
+      list.categories[category.id] = { reason: 'focusSession', budgetId: null };
+    } else if (outOfCredits && getCategorySide(category) === 'unproductive') {
+      list.categories[category.id] = { reason: 'noCredits', budgetId: null };
+    }
+  }
+  return list;
+}
+
+/**
+ * Why a page is blocked, or null if it isn't. A blocked site wins over its page's category.
+ */
+export function findBlock(list: BlockList, domain: string | null, categoryId: string | null): Block | null {
+  return (domain ? list.sites[domain] : undefined) ?? (categoryId ? list.categories[categoryId] : undefined) ?? null;
+}
+
+export function getActiveOverrides(overrides: BlockOverride[], now: number): BlockOverride[] {
+  return overrides.filter((override) => override.until > now);
+}
+
+export function isOverridden(overrides: BlockOverride[], domain: string | null, now: number): boolean {
+  return !!domain && overrides.some((override) => override.domain === domain && override.until > now);
+}
+
+/**
+ * `name` is what is blocked: the budget's target for daily limits, otherwise the category
+ */
+export function describeBlockReason(reason: BlockReason, name: string, budget: Budget | null): string {
+  if (reason === 'dailyLimit' && budget) {
+    return `You've used today's ${budget.minutes} minutes of ${name}.`;
+  }
+  if (reason === 'focusSession') {
+    return `${name} is blocked during your focus session.`;
+  }
+  if (reason === 'noCredits') {
+    return `You're out of scroll credits. Productive time earns more.`;
+  }
+  return `${name} is blocked.`;
+}
+
+/**
+ * Interstitial query string up to the page URL, which the caller appends
+ */
+function getInterstitialQuery(block: Block, categoryId: string | null): string {
+  const params = new URLSearchParams({ reason: block.reason });
+  if (categoryId) params.set('category', categoryId);
+  if (block.budgetId) params.set('budget', block.budgetId);
+  return `?${params.toString()}&url=`;
+}
+
+/**
+ * Interstitial URL for a blocked page. The page URL goes last and unencoded, the same way the
+ * declarativeNetRequest redirect appends it.
+ */
+export function getInterstitialUrl(url: string, block: Block, categoryId: string | null): string {
+  return `${chrome.runtime.getURL(INTERSTITIAL_PATH)}${getInterstitialQuery(block, categoryId)}${url}`;
+}
+
+export function parseInterstitialParams(search: string): {
+  reason: BlockReason | null;
+  category: string | null;
+  budget: string | null;
+  url: string | null;
+} {
+  const urlIndex = search.indexOf('&url=');
+  const params = new URLSearchParams(urlIndex === -1 ? search : search.slice(0, urlIndex));
+  return {
+    reason: (params.get('reason') as BlockReason | null) ?? null,
+    category: params.get('category'),
+    budget: params.get('budget'),
+    url: urlIndex === -1 ? null : search.slice(urlIndex + '&url='.length) || null,
+  };
+}
+
+/**
+ * Whether `host` is `domain` or one of its subdomains
+ */
+function isWithinDomain(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+/**
+ * The host a rule's pattern starts with, without any leading "*." (null for regex/content rules)
+ */
+function getRulePatternHost(rule: ClassificationRule): string | null {
+  if (rule.type === 'path') {
+    return canonicalizeHost(rule.pattern.split('/')[0]).replace(/^\*\./, '');
+  }
+  return getIndexableHost(rule)?.host ?? null;
+}
+
+/**
+ * Domains redirected to the interstitial with the same query. `labels` is null for subtree rules,
+ * otherwise the label count every domain in the batch has.
+ */
+interface RedirectBatch {
+  block: Block;
+  categoryId: string | null;
+  labels: number | null;
+  domains: Set<string>;
+}
+
+/**
+ * requestDomains also matches subdomains, which is what subtree rules want. Exact host rules only
+ * cover the host and its "www.", as classification does: only letting through hosts with the
+ * batch's label count (after an optional "www.") leaves exactly those. The full match is the page
+ * URL the interstitial gets.
+ */
+function getRedirectRegexFilter(labels: number | null): string {
+  if (labels === null) {
+    return '^https?://.*$';
+  }
+  return `^https?://(www\\.)?([^./?#:]+\\.){${labels - 1}}[^./?#:]+(:[0-9]+)?/.*$`;
+}
+
+/**
+ * Redirect main-frame requests for `domains` to the interstitial
+ */
+function buildRedirectRule(id: number, domains: string[], batch: RedirectBatch): chrome.declarativeNetRequest.Rule {
+  return {
+    id,
+    priority: 1,
+    action: {
+      type: chrome.declarativeNetRequest.RuleActionType.REDIRECT,
+      redirect: {
+        regexSubstitution: `${chrome.runtime.getURL(INTERSTITIAL_PATH)}${getInterstitialQuery(batch.block, batch.categoryId)}\\0`,
+      },
+    },
+    condition: {
+      requestDomains: domains,
+      regexFilter: getRedirectRegexFilter(batch.labels),
+      resourceTypes: [chrome.declarativeNetRequest.ResourceType.MAIN_FRAME],
+    },
+  };
+}
+
+/**
+ * Redirect rules for blocked sites and for the host/wildcard rules of blocked categories, plus
+ * allow rules for overridden domains.
+ *
+ * A category's host is only blocked here when no other rule can put pages on it in an unblocked
+ * category (e.g. a "youtube.com/feed/courses" path rule under a blocked "*.youtube.com"); those,
+ * and any setup with regex or content rules for unblocked categories, are left to the per-tab
+ * check, which classifies the actual page. Blocked sites cover the whole domain, so they always
+ * get a rule. Hosts are batched into a few requestDomains rules (one per interstitial query), and
+ * rule ids are numbered from 1 in order, so they never collide.
+ */
+export function buildBlockingRules(
+  rules: ClassificationRules,
+  list: BlockList,
+  overrides: BlockOverride[],
+  now: number
+): chrome.declarativeNetRequest.Rule[] {
+  const batches = new Map<string, RedirectBatch>();
+  const redirect = (host: string, subtree: boolean, block: Block, categoryId: string | null) => {
+    for (const domain of [host, ...getHostAliases(host)]) {
+      const labels = subtree ? null : domain.split('.').length;
+      const key = `${getInterstitialQuery(block, categoryId)}|${labels ?? '*'}`;
+      const batch = batches.get(key) ?? { block, categoryId, labels, domains: new Set<string>() };
+      batch.domains.add(domain);
+      batches.set(key, batch);
+    }
+  };
+
+  for (const [domain, block] of Object.entries(list.sites)) {
+    redirect(domain, true, block, null);
+  }
+
+  const at = new Date(now);
+  const active = rules.rules.filter((rule) => isRuleActive(rule, rules, at) && findCategory(rules, rule.category));
+  const unblocked = active.filter((rule) => !list.categories[rule.category]);
+  const canRedirectCategories = !unblocked.some((rule) => rule.type === 'regex' || rule.type === 'content');
+  const unblockedHosts = unblocked.map(getRulePatternHost).filter((host): host is string => host !== null);
+
+  for (const rule of canRedirectCategories ? active : []) {
+    const block = list.categories[rule.category];
+    const indexed = getIndexableHost(rule);
+    if (!block || !indexed || unblockedHosts.some((host) => isWithinDomain(host, indexed.host))) {
+      continue;
+    }
+    redirect(indexed.host, indexed.subtree, block, rule.category);
+  }
+
+  const dnrRules: chrome.declarativeNetRequest.Rule[] = [];
+  for (const batch of batches.values()) {
+    const domains = [...batch.domains];
+    for (let start = 0; start < domains.length; start += MAX_DOMAINS_PER_RULE) {
+      dnrRules.push(buildRedirectRule(dnrRules.length + 1, domains.slice(start, start + MAX_DOMAINS_PER_RULE), batch));
+    }
+  }
+  getActiveOverrides(overrides, now).forEach((override) => {
+    dnrRules.push({
+      id: dnrRules.length + 1,
+      priority: 2,
+      action: { type: chrome.declarativeNetRequest.RuleActionType.ALLOW },
+      condition: {
+        requestDomains: [override.domain, ...getHostAliases(override.domain)],
+        resourceTypes: [chrome.declarativeNetRequest.ResourceType.MAIN_FRAME],
+      },
+    });
+  });
+  return dnrRules;
+}
+
+// Rules this worker last applied; dynamic rules persist, but a restarted worker re-applies once
+let appliedRules: string | null = null;
+
+/**
+ * Replace the extension's dynamic rules with `rules`. Returns false if they were already in place.
+ */
+export async function applyBlockingRules(rules: chrome.declarativeNetRequest.Rule[]): Promise<boolean> {
+  const serialized = JSON.stringify(rules);
+  if (serialized === appliedRules) {
+    return false;
+  }
+  const existing = await chrome.declarativeNetRequest.getDynamicRules();
+  await chrome.declarativeNetRequest.updateDynamicRules({
+    removeRuleIds: existing.map((rule) => rule.id),
+    addRules: rules,
+  });
+  appliedRules = serialized;
+  console.log(`🚫 Blocking rules updated: ${rules.length} rules`);
+  return true;
+}
+
+/**
+ * Keep an override in the local log and record it to Supabase
+ */
+export async function logOverride(entry: OverrideLogEntry, userId: string | null): Promise<void> {
+  const log = await getOverrideLog();
+  await setOverrideLog([entry, ...log].slice(0, MAX_OVERRIDE_LOG));
+  if (userId) {
+    await enqueue({ kind: 'blockOverride', userId, entry });
+  }
+}
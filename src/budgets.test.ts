@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { creditBudgets, getMsUntilNextWarning, normalizeBudgetDomain, type Budget, type BudgetUsage } from './budgets';
+
+const MINUTE_MS = 60000;
+const DAY = '2024-01-15';
+
+const social: Budget = { id: 'social', target: { type: 'category', categoryId: 'social' }, minutes: 10, action: 'notify' };
+const youtube: Budget = { id: 'youtube', target: { type: 'site', domain: 'youtube.com' }, minutes: 20, action: 'block' };
+
+function usage(day: string | null, usedMinutes: Record<string, number> = {}, warnedPercentage: Record<string, number> = {}): BudgetUsage {
+  return {
+    day,
+    usedMs: Object.fromEntries(Object.entries(usedMinutes).map(([id, minutes]) => [id, minutes * MINUTE_MS])),
+    warnedPercentage,
+  };
+}
+
+describe('creditBudgets', () => {
+  it.each<[string, BudgetUsage, { domain: string; categoryId: string }, number, string[], Record<string, number>]>([
+    ['below the first level', usage(DAY), { domain: 'x.com', categoryId: 'social' }, 4, [], { social: 4 }],
+    ['reaching 50%', usage(DAY, { social: 4 }), { domain: 'x.com', categoryId: 'social' }, 1, ['social 50%'], { social: 5 }],
+    ['crossing 50% and 80% at once reports only 80%', usage(DAY, { social: 4 }), { domain: 'x.com', categoryId: 'social' }, 4.5, ['social 80%'], { social: 8.5 }],
+    ['a level already warned about is not repeated', usage(DAY, { social: 5 }, { social: 50 }), { domain: 'x.com', categoryId: 'social' }, 1, [], { social: 6 }],
+    ['reaching 100%', usage(DAY, { social: 9 }, { social: 80 }), { domain: 'x.com', categoryId: 'social' }, 1, ['social 100%'], { social: 10 }],
+    ['past 100% nothing more', usage(DAY, { social: 10 }, { social: 100 }), { domain: 'x.com', categoryId: 'social' }, 5, [], { social: 15 }],
+    [
+      'a page can count toward a category and a site budget',
+      usage(DAY, { social: 4, youtube: 9 }),
+      { domain: 'youtube.com', categoryId: 'social' },
+      1,
+      ['social 50%', 'youtube 50%'],
+      { social: 5, youtube: 10 },
+    ],
+    [
+      'usage from an earlier day starts over, warnings too',
+      usage('2024-01-14', { social: 10 }, { social: 100 }),
+      { domain: 'x.com', categoryId: 'social' },
+      5,
+      ['social 50%'],
+      { social: 5 },
+    ],
+  ])('%s', (_name, before, page, minutes, expectedWarnings, expectedUsedMinutes) => {
+    const { usage: after, warnings } = creditBudgets(before, [social, youtube], page, minutes * MINUTE_MS, DAY);
+    expect(warnings.map((warning) => `${warning.budget.id} ${warning.percentage}%`)).toEqual(expectedWarnings);
+    expect(after.day).toBe(DAY);
+    expect(Object.fromEntries(Object.entries(after.usedMs).map(([id, ms]) => [id, ms / MINUTE_MS]))).toEqual(expectedUsedMinutes);
+  });
+
+  it.each([
+    ['no matching budget', { domain: 'github.com', categoryId: 'work' }, MINUTE_MS],
+    ['no time', { domain: 'x.com', categoryId: 'social' }, 0],
+  ])('returns the same usage for %s', (_name, page, ms) => {
+    const before = usage(DAY, { social: 1 });
+    expect(creditBudgets(before, [social, youtube], page, ms, DAY).usage).toBe(before);
+  });
+});
+
+describe('getMsUntilNextWarning', () => {
+  it.each<[string, BudgetUsage, number | null]>([
+    ['fresh day: until 50%', usage(DAY), 5 * MINUTE_MS],
+    ['warned at 50%: until 80%', usage(DAY, { social: 6 }, { social: 50 }), 2 * MINUTE_MS],
+    ['overdue level', usage(DAY, { social: 9 }, { social: 50 }), 0],
+    ['after the last level', usage(DAY, { social: 12 }, { social: 100 }), null],
+    ['usage from an earlier day', usage('2024-01-14', { social: 12 }, { social: 100 }), 5 * MINUTE_MS],
+  ])('%s', (_name, current, expected) => {
+    expect(getMsUntilNextWarning(current, social, DAY)).toBe(expected);
+  });
+});
+
+describe('normalizeBudgetDomain', () => {
+  it.each([
+    ['youtube.com', 'youtube.com'],
+    ['https://www.youtube.com/feed', 'youtube.com'],
+    ['m.youtube.com', 'youtube.com'],
+    ['news.bbc.co.uk:443', 'bbc.co.uk'],
+    ['localhost', null],
+    ['*.reddit.com', null],
+    ['', null],
+  ])('%s → %s', (input, expected) => {
+    expect(normalizeBudgetDomain(input)).toBe(expected);
+  });
+});
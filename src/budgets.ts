@@ -0,0 +1,147 @@
+/**
+ * Daily time budgets
+ *
+ * A budget caps the time spent per local day on a category or on a site (registrable domain),
+ * e.g. "30 minutes of social". The engine adds credited time to every matching budget in
+ * TrackingState.budgetUsage, which starts over at the local day boundary, and reports each warning
+ * level (50%, 80%, 100%) once a day. When a budget is used up its action runs: a notification
+ * only, the AI call, or blocking (see blocking.ts).
+ */
+import { findCategory, type ClassificationRules } from './classify';
+import type { DayKey } from './calendar';
+import { canonicalizeHost, getRegistrableDomain } from './normalize';
+
+export type BudgetAction = 'notify' | 'call' | 'block';
+
+export type BudgetTarget = { type: 'category'; categoryId: string } | { type: 'site'; domain: string };
+
+export const BUDGET_WARNING_PERCENTAGES = [50, 80, 100];
+export const MAX_BUDGET_MINUTES = 24 * 60;
+
+export interface Budget {
+  id: string;
+  target: BudgetTarget;
+  minutes: number; // Allowed per local day
+  action: BudgetAction; // What happens at 100%
+}
+
+export interface BudgetUsage {
+  day: DayKey | null; // Local day the usage below belongs to
+  usedMs: Record<string, number>; // Budget id -> time counted that day
+  warnedPercentage: Record<string, number>; // Budget id -> highest warning level reached that day
+}
+
+/**
+ * A budget reaching one of the warning levels
+ */
+export interface BudgetWarning {
+  budget: Budget;
+  percentage: number;
+  usedMs: number;
+}
+
+/**
+ * Registrable domain for a site budget typed as a host or URL ("https://www.youtube.com/feed" ->
+ * "youtube.com"), or null if it doesn't look like one
+ */
+export function normalizeBudgetDomain(input: string): string | null {
+  const host = input.trim().replace(/^[a-z]+:\/\//i, '').split(/[/?#:]/)[0];
+  if (!host || !host.includes('.') || host.includes('*')) {
+    return null;
+  }
+  return getRegistrableDomain(canonicalizeHost(host));
+}
+
+/**
+ * Check a budget before saving it; returns an error message for the popup, or null
+ */
+export function validateBudget(budget: Omit<Budget, 'id'>, rules: ClassificationRules): string | null {
+  if (!Number.isFinite(budget.minutes) || budget.minutes < 1 || budget.minutes > MAX_BUDGET_MINUTES) {
+    return `Budget must be between 1 and ${MAX_BUDGET_MINUTES} minutes`;
+  }
+  if (budget.target.type === 'category' && !findCategory(rules, budget.target.categoryId)) {
+    return 'Choose a category';
+  }
+  if (budget.target.type === 'site' && !budget.target.domain) {
+    return 'Enter a site, e.g. youtube.com';
+  }
+  return null;
+}
+
+/**
+ * Whether time on a page with this domain and category counts toward the budget
+ */
+export function budgetMatches(budget: Budget, domain: string, categoryId: string): boolean {
+  return budget.target.type === 'category' ? budget.target.categoryId === categoryId : budget.target.domain === domain;
+}
+
+function getWarningLevelMs(budget: Budget, percentage: number): number {
+  return (percentage / 100) * budget.minutes * 60000;
+}
+
+export function getBudgetUsedMs(usage: BudgetUsage, budget: Budget, day: DayKey): number {
+  return usage.day === day ? usage.usedMs[budget.id] ?? 0 : 0;
+}
+
+export function getBudgetRemainingMs(usage: BudgetUsage, budget: Budget, day: DayKey): number {
+  return Math.max(0, budget.minutes * 60000 - getBudgetUsedMs(usage, budget, day));
+}
+
+export function isBudgetExhausted(usage: BudgetUsage, budget: Budget, day: DayKey): boolean {
+  return getBudgetRemainingMs(usage, budget, day) === 0;
+}
+
+/**
+ * How much more time on `day` until the budget reaches its next warning level, or null once the
+ * last one was sent
+ */
+export function getMsUntilNextWarning(usage: BudgetUsage, budget: Budget, day: DayKey): number | null {
+  const warned = usage.day === day ? usage.warnedPercentage[budget.id] ?? 0 : 0;
+  const next = BUDGET_WARNING_PERCENTAGES.find((level) => level > warned);
+  if (next === undefined) {
+    return null;
+  }
+  return Math.max(0, getWarningLevelMs(budget, next) - getBudgetUsedMs(usage, budget, day));
+}
+
+/**
+ * Add `ms` spent on `day` to the budgets matching the page. Usage from an earlier day starts over.
+ * Returns the usage (the same object when nothing changed) and, per budget, the highest warning
+ * level it newly reached.
+ */
+export function creditBudgets(
+  usage: BudgetUsage,
+  budgets: Budget[],
+  page: { domain: string; categoryId: string },
+  ms: number,
+  day: DayKey
+): { usage: BudgetUsage; warnings: BudgetWarning[] } {
+  const matching = budgets.filter((budget) => budgetMatches(budget, page.domain, page.categoryId));
+  if (matching.length === 0 || ms <= 0) {
+    return { usage, warnings: [] };
+  }
+
+  const current = usage.day === day ? usage : { day, usedMs: {}, warnedPercentage: {} };
+  const usedMs = { ...current.usedMs };
+  const warnedPercentage = { ...current.warnedPercentage };
+  const warnings: BudgetWarning[] = [];
+  for (const budget of matching) {
+    usedMs[budget.id] = (usedMs[budget.id] ?? 0) + ms;
+    const reached = BUDGET_WARNING_PERCENTAGES.filter((level) => usedMs[budget.id] >= getWarningLevelMs(budget, level)).pop();
+    if (reached !== undefined && reached > (warnedPercentage[budget.id] ?? 0)) {
+      warnedPercentage[budget.id] = reached;
+      warnings.push({ budget, percentage: reached, usedMs: usedMs[budget.id] });
+    }
+  }
+  return { usage: { day, usedMs, warnedPercentage }, warnings };
+}
+
+/**
+ * What the budget limits, for display ("Social", "youtube.com")
+ */
+export function describeBudgetTarget(budget: Budget, rules: ClassificationRules): string {
+  if (budget.target.type === 'site') {
+    return budget.target.domain;
+  }
+  return findCategory(rules, budget.target.categoryId)?.name ?? budget.target.categoryId;
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, getDayKey, getDayStart, getHourStart, getNextDayStart, getWeekStart, splitByDay } from './calendar';
+
+const utc = (iso: string) => Date.parse(iso);
+const HOUR_MS = 3600000;
+
+describe('getDayKey', () => {
+  it.each([
+    ['2024-01-15T23:30:00Z', 'UTC', '2024-01-15'],
+    ['2024-01-15T23:30:00Z', 'Europe/Berlin', '2024-01-16'],
+    ['2024-01-15T18:20:00Z', 'Asia/Kathmandu', '2024-01-16'], // UTC+5:45
+    ['2024-01-15T03:00:00Z', 'America/New_York', '2024-01-14'],
+  ])('%s in %s → %s', (time, timeZone, expected) => {
+    expect(getDayKey(utc(time), timeZone)).toBe(expected);
+  });
+});
+
+describe('getDayStart and day length', () => {
+  it.each([
+    ['2024-01-15', 'Europe/Berlin', '2024-01-14T23:00:00.000Z', 24],
+    ['2024-03-31', 'Europe/Berlin', '2024-03-30T23:00:00.000Z', 23], // Clocks go forward
+    ['2024-10-27', 'Europe/Berlin', '2024-10-26T22:00:00.000Z', 25], // Clocks go back
+    ['2024-03-10', 'America/New_York', '2024-03-10T05:00:00.000Z', 23],
+    ['2024-11-03', 'America/New_York', '2024-11-03T04:00:00.000Z', 25],
+    ['2024-09-08', 'America/Santiago', '2024-09-08T04:00:00.000Z', 23], // Clocks skip midnight: the day starts at 01:00
+    ['2024-01-16', 'Asia/Kathmandu', '2024-01-15T18:15:00.000Z', 24],
+  ])('%s in %s starts at %s and lasts %i hours', (day, timeZone, expectedStart, expectedHours) => {
+    const start = getDayStart(day, timeZone);
+    expect(new Date(start).toISOString()).toBe(expectedStart);
+    expect((getNextDayStart(start, timeZone) - start) / HOUR_MS).toBe(expectedHours);
+  });
+});
+
+describe('getHourStart', () => {
+  it.each([
+    ['2024-01-15T18:20:00Z', 'Europe/Berlin', '2024-01-15T18:00:00.000Z'],
+    ['2024-01-15T18:20:00Z', 'Asia/Kolkata', '2024-01-15T17:30:00.000Z'], // UTC+5:30
+    ['2024-01-15T18:20:00Z', 'Asia/Kathmandu', '2024-01-15T18:15:00.000Z'], // UTC+5:45: local midnight
+    ['2024-01-15T18:20:00Z', 'Australia/Adelaide', '2024-01-15T17:30:00.000Z'], // UTC+10:30 in summer
+    ['2024-01-15T18:15:00Z', 'Asia/Kathmandu', '2024-01-15T18:15:00.000Z'],
+  ])('%s in %s → %s', (time, timeZone, expected) => {
+    expect(new Date(getHourStart(utc(time), timeZone)).toISOString()).toBe(expected);
+  });
+});
+
+describe('splitByDay', () => {
+  it.each([
+    [
+      'a span within one day',
+      '2024-01-15T09:00:00Z',
+      '2024-01-15T10:00:00Z',
+      'Europe/Berlin',
+      [{ day: '2024-01-15', start: '2024-01-15T09:00:00.000Z', end: '2024-01-15T10:00:00.000Z' }],
+    ],
+    [
+      'a span over the night the clocks go forward',
+      '2024-03-30T22:00:00Z',
+      '2024-03-31T01:00:00Z',
+      'Europe/Berlin',
+      [
+        { day: '2024-03-30', start: '2024-03-30T22:00:00.000Z', end: '2024-03-30T23:00:00.000Z' },
+        { day: '2024-03-31', start: '2024-03-30T23:00:00.000Z', end: '2024-03-31T01:00:00.000Z' },
+      ],
+    ],
+    [
+      'a span over local midnight in a :45 zone',
+      '2024-01-15T18:00:00Z',
+      '2024-01-15T18:30:00Z',
+      'Asia/Kathmandu',
+      [
+        { day: '2024-01-15', start: '2024-01-15T18:00:00.000Z', end: '2024-01-15T18:15:00.000Z' },
+        { day: '2024-01-16', start: '2024-01-15T18:15:00.000Z', end: '2024-01-15T18:30:00.000Z' },
+      ],
+    ],
+  ])('%s', (_name, start, end, timeZone, expected) => {
+    const parts = splitByDay(utc(start), utc(end), timeZone).map((part) => ({
+      day: part.day,
+      start: new Date(part.start).toISOString(),
+      end: new Date(part.end).toISOString(),
+    }));
+    expect(parts).toEqual(expected);
+  });
+});
+
+describe('day key arithmetic', () => {
+  it.each([
+    ['2024-02-28', 1, '2024-02-29'],
+    ['2024-02-28', 2, '2024-03-01'],
+    ['2024-01-01', -1, '2023-12-31'],
+    ['2024-03-30', 1, '2024-03-31'], // Independent of DST
+  ])('addDays(%s, %i) → %s', (day, days, expected) => {
+    expect(addDays(day, days)).toBe(expected);
+  });
+
+  it.each([
+    ['2024-01-15', '2024-01-15'], // Monday
+    ['2024-01-21', '2024-01-15'], // Sunday ends the week
+    ['2024-01-01', '2024-01-01'],
+    ['2023-12-31', '2023-12-25'],
+  ])('getWeekStart(%s) → %s', (day, expected) => {
+    expect(getWeekStart(day)).toBe(expected);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Local calendar days and weeks for per-day history
+ *
+ * Day boundaries are found by searching for the instant the local date changes, so 23- and
+ * 25-hour DST days and zones whose clocks skip midnight get the right start and length.
+ */
+
+export type DayKey = string; // "YYYY-MM-DD" in the user's time zone
+
+const MINUTE_MS = 60000;
+const MAX_OFFSET_MS = 15 * 3600000; // UTC offsets stay within -12h..+14h
+const WEEK_STARTS_ON = 1; // Monday
+
+const dayFormatters = new Map<string, Intl.DateTimeFormat>();
+const minuteFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getDayFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = dayFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+    dayFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function getMinuteFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = minuteFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone, minute: 'numeric' });
+    minuteFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function parseDayKey(day: DayKey): { year: number; month: number; date: number } {
+  const [year, month, date] = day.split('-').map(Number);
+  return { year, month, date };
+}
+
+/**
+ * The local date of an instant
+ */
+export function getDayKey(time: number, timeZone: string): DayKey {
+  const parts = getDayFormatter(timeZone).formatToParts(new Date(time));
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? '';
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+/**
+ * Calendar arithmetic on day keys (independent of time zones)
+ */
+export function addDays(day: DayKey, days: number): DayKey {
+  const { year, month, date } = parseDayKey(day);
+  return new Date(Date.UTC(year, month - 1, date + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * 0 = Sunday ... 6 = Saturday
+ */
+export function getWeekday(day: DayKey): number {
+  const { year, month, date } = parseDayKey(day);
+  return new Date(Date.UTC(year, month - 1, date)).getUTCDay();
+}
+
+/**
+ * First day of the (Monday-based) week containing a day
+ */
+export function getWeekStart(day: DayKey): DayKey {
+  return addDays(day, -((getWeekday(day) - WEEK_STARTS_ON + 7) % 7));
+}
+
+/**
+ * The first instant of a local day
+ */
+export function getDayStart(day: DayKey, timeZone: string): number {
+  const { year, month, date } = parseDayKey(day);
+  const utcMidnight = Date.UTC(year, month - 1, date);
+  // Invariant: getDayKey(low) < day <= getDayKey(high); offsets are whole minutes
+  let low = (utcMidnight - MAX_OFFSET_MS) / MINUTE_MS;
+  let high = (utcMidnight + MAX_OFFSET_MS) / MINUTE_MS;
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    if (getDayKey(middle * MINUTE_MS, timeZone) < day) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return high * MINUTE_MS;
+}
+
+/**
+ * The first instant of the local day after the one containing `time`
+ */
+export function getNextDayStart(time: number, timeZone: string): number {
+  return getDayStart(addDays(getDayKey(time, timeZone), 1), timeZone);
+}
+
+/**
+ * The first instant of the local hour containing `time`. In zones offset by :30 or :45 it isn't
+ * the UTC hour, and only local hours nest inside local days.
+ */
+export function getHourStart(time: number, timeZone: string): number {
+  const minute = Number(getMinuteFormatter(timeZone).formatToParts(new Date(time)).find((part) => part.type === 'minute')?.value ?? 0);
+  return Math.floor(time / MINUTE_MS) * MINUTE_MS - minute * MINUTE_MS;
+}
+
+/**
+ * Split [start, end) at local midnights
+ */
+export function splitByDay(start: number, end: number, timeZone: string): { day: DayKey; start: number; end: number }[] {
+  const parts: { day: DayKey; start: number; end: number }[] = [];
+  let partStart = start;
+  while (partStart < end) {
+    const partEnd = Math.min(end, getNextDayStart(partStart, timeZone));
+    parts.push({ day: getDayKey(partStart, timeZone), start: partStart, end: partEnd });
+    partStart = partEnd;
+  }
+  return parts;
+}
@@ -0,0 +1,140 @@
+/**
+ * Call history from `call_logs`
+ *
+ * api/call-status records each lifecycle event Twilio reports for a placed call (initiated,
+ * ringing, answered, completed or why it didn't connect) and api/process-speech what the contact
+ * said. Here the events are grouped back into calls with their outcome.
+ */
+import type { EscalationTrigger } from './escalation';
+import { supabase } from './supabaseClient';
+
+export type CallEvent =
+  | 'initiated'
+  | 'ringing'
+  | 'answered'
+  | 'completed'
+  | 'busy'
+  | 'no-answer'
+  | 'failed'
+  | 'canceled'
+  | 'speech';
+
+export type CallOutcome = 'pending' | 'ringing' | 'inProgress' | 'answered' | 'voicemail' | 'busy' | 'noAnswer' | 'failed' | 'canceled';
+
+export interface CallRecord {
+  callSid: string;
+  trigger: EscalationTrigger;
+  recipient: string | null;
+  startedAt: number;
+  outcome: CallOutcome;
+  answeredBy: string | null; // Twilio answering machine detection: human, machine_start, fax, unknown...
+  durationSeconds: number | null; // Once the call is over
+  speech: string[]; // What the contact said, in order
+}
+
+interface CallLogRow {
+  call_sid: string;
+  trigger: EscalationTrigger;
+  recipient: string | null;
+  event: CallEvent;
+  answered_by: string | null;
+  duration_seconds: number | null;
+  speech: string | null;
+  created_at: string;
+}
+
+// Events that end a call, and the outcome each one means
+const FINAL_OUTCOMES: Partial<Record<CallEvent, CallOutcome>> = {
+  completed: 'answered',
+  busy: 'busy',
+  'no-answer': 'noAnswer',
+  failed: 'failed',
+  canceled: 'canceled',
+};
+
+const IN_CALL_OUTCOMES: Partial<Record<CallEvent, CallOutcome>> = {
+  initiated: 'pending',
+  ringing: 'ringing',
+  answered: 'inProgress',
+};
+
+const EVENTS_PER_CALL = 8; // Rows fetched per call asked for; most calls log 4 to 6
+
+function isVoicemail(answeredBy: string | null): boolean {
+  return answeredBy !== null && (answeredBy.startsWith('machine') || answeredBy === 'fax');
+}
+
+/**
+ * Fold one call's events (oldest first) into a record
+ */
+function toCallRecord(rows: CallLogRow[]): CallRecord {
+  const [first] = rows;
+  let outcome: CallOutcome = 'pending';
+  let ended = false;
+  let answeredBy: string | null = null;
+  let durationSeconds: number | null = null;
+  const speech: string[] = [];
+
+  for (const row of rows) {
+    answeredBy = row.answered_by ?? answeredBy;
+    durationSeconds = row.duration_seconds ?? durationSeconds;
+    if (row.event === 'speech') {
+      if (row.speech) speech.push(row.speech);
+    } else if (FINAL_OUTCOMES[row.event]) {
+      outcome = FINAL_OUTCOMES[row.event]!;
+      ended = true;
+    } else if (!ended && IN_CALL_OUTCOMES[row.event]) {
+      // Callbacks can arrive out of order; a final event always wins
+      outcome = IN_CALL_OUTCOMES[row.event]!;
+    }
+  }
+  if (outcome === 'answered' && isVoicemail(answeredBy)) {
+    outcome = 'voicemail';
+  }
+
+  return {
+    callSid: first.call_sid,
+    trigger: first.trigger,
+    recipient: first.recipient,
+    startedAt: Date.parse(first.created_at),
+    outcome,
+    answeredBy,
+    durationSeconds,
+    speech,
+  };
+}
+
+/**
+ * The user's most recent calls, newest first
+ */
+export async function listRecentCalls(userId: string, limit: number): Promise<CallRecord[]> {
+  const { data, error } = await supabase
+    .from('call_logs')
+    .select('call_sid, trigger, recipient, event, answered_by, duration_seconds, speech, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit * EVENTS_PER_CALL);
+  if (error) throw error;
+
+  const rowsByCall = new Map<string, CallLogRow[]>();
+  for (const row of (data || []) as CallLogRow[]) {
+    rowsByCall.set(row.call_sid, [row, ...(rowsByCall.get(row.call_sid) ?? [])]);
+  }
+  return [...rowsByCall.values()]
+    .map(toCallRecord)
+    .sort((a, b) => b.startedAt - a.startedAt)
+    .slice(0, limit);
+}
+
+/**
+ * The latest call for each trigger that has one
+ */
+export function getLastCallByTrigger(calls: CallRecord[]): Partial<Record<EscalationTrigger, CallRecord>> {
+  const lastCalls: Partial<Record<EscalationTrigger, CallRecord>> = {};
+  for (const call of calls) {
+    if (!lastCalls[call.trigger] || lastCalls[call.trigger]!.startedAt < call.startedAt) {
+      lastCalls[call.trigger] = call;
+    }
+  }
+  return lastCalls;
+}
@@ -1,30 +1,457 @@
 /**
- * Classifies a domain as productive or unproductive
+ * Classifies URLs into user-defined categories using user-editable rules
  */
-const UNPRODUCTIVE_DOMAINS = ['youtube.com', 'tiktok.com', 'instagram.com'];
 
-export function classifyDomain(domain: string | null): 'productive' | 'unproductive' | null {
-  if (!domain) return null;
+import { canonicalizeHost, normalizeUrl } from './normalize';
+import { isScheduleActive, type Schedule } from './schedule';
 
-  const normalizedDomain = domain.toLowerCase().replace(/^www\./, '');
-  
-  for (const unproductiveDomain of UNPRODUCTIVE_DOMAINS) {
-    if (normalizedDomain === unproductiveDomain || normalizedDomain.endsWith(`.${unproductiveDomain}`)) {
-      return 'unproductive';
+export type RuleMatchType = 'host' | 'wildcard' | 'path' | 'regex' | 'content';
+export type ContentField = 'title' | 'keywords' | 'ogType' | 'channel' | 'videoCategory' | 'shortForm';
+// lowest-weight lets the most distracting matching category win, highest-weight the most productive one
+export type RulePrecedence = 'first-match' | 'lowest-weight' | 'highest-weight';
+export type CategorySide = 'productive' | 'unproductive' | 'neutral';
+
+export interface Category {
+  id: string;
+  name: string;
+  // Contribution toward the focus score, from -1 (fully distracting) to 1 (fully productive).
+  // A weight of 0 makes the category neutral: its time counts toward neither side.
+  weight: number;
+  blocked?: boolean; // Always send pages in this category to the blocking interstitial
+}
+
+export interface ClassificationRule {
+  id: string;
+  type: RuleMatchType;
+  // host:     exact hostname, e.g. "reddit.com"
+  // wildcard: hostname glob, e.g. "*.youtube.com" (also matches the bare domain)
+  // path:     hostname glob + path prefix/glob, e.g. "youtube.com/shorts" or "*.reddit.com/r/*/comments"
+  // regex:    regular expression tested against the full URL
+  // content:  regular expression tested against a page signal picked by `field`
+  //           (shortForm is "true"/"false"); content rules take priority over URL rules
+  pattern: string;
+  field?: ContentField; // Only used by content rules
+  category: string; // Category id
+  scheduleId?: string; // Rule only applies while this schedule is active
+  source?: RuleSource; // Set on rules merged in from a shared list
+  enabled: boolean;
+}
+
+/**
+ * Where a shared rule came from. Enforced lists beat local rules; other shared lists only
+ * apply when no local rule matches.
+ */
+export interface RuleSource {
+  listId: string;
+  listName: string;
+  enforced: boolean;
+}
+
+type RuleLayer = 'enforced' | 'local' | 'shared';
+const RULE_LAYERS: RuleLayer[] = ['enforced', 'local', 'shared'];
+
+function getRuleLayer(rule: ClassificationRule): RuleLayer {
+  if (!rule.source) return 'local';
+  return rule.source.enforced ? 'enforced' : 'shared';
+}
+
+/**
+ * Signals the content script extracts from a page, used by content rules
+ */
+export interface PageSignals {
+  url: string;
+  title: string;
+  keywords: string[];
+  ogType: string | null;
+  channel: string | null; // YouTube channel name
+  videoCategory: string | null; // YouTube video category, e.g. "Education"
+  isShortForm: boolean; // Shorts/Reels/TikTok style player
+}
+
+export interface ClassificationRules {
+  categories: Category[];
+  defaultCategory: string; // Category id for URLs no rule matches
+  rules: ClassificationRule[]; // Evaluated top to bottom
+  precedence: RulePrecedence; // How to resolve a URL matched by rules of different categories
+  schedules: Schedule[];
+  trackingScheduleId: string | null; // When set, time is only tracked while this schedule is active
+}
+
+export type CategoryTotals = Record<string, number>; // Category id -> accumulated ms
+
+export const DEFAULT_CATEGORIES: Category[] = [
+  { id: 'work', name: 'Work', weight: 1 },
+  { id: 'learning', name: 'Learning', weight: 0.75 },
+  { id: 'neutral', name: 'Neutral', weight: 0 },
+  { id: 'news', name: 'News', weight: -0.5 },
+  { id: 'social', name: 'Social', weight: -1 },
+  { id: 'video', name: 'Video', weight: -1 },
+];
+
+export const DEFAULT_CLASSIFICATION_RULES: ClassificationRules = {
+  categories: DEFAULT_CATEGORIES,
+  defaultCategory: 'work',
+  rules: [
+    { id: 'default-youtube', type: 'wildcard', pattern: '*.youtube.com', category: 'video', enabled: true },
+    { id: 'default-tiktok', type: 'wildcard', pattern: '*.tiktok.com', category: 'video', enabled: true },
+    { id: 'default-instagram', type: 'wildcard', pattern: '*.instagram.com', category: 'social', enabled: true },
+  ],
+  precedence: 'first-match',
+  schedules: [],
+  trackingScheduleId: null,
+};
+
+// Hosts and rule patterns share one canonical form, so "twitter.com" rules match x.com and IDN
+// patterns match their punycode hostnames
+function normalizeHost(host: string): string {
+  return canonicalizeHost(host);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Convert a glob (only `*` is special) to an anchored regular expression
+ */
+function globToRegExp(glob: string): RegExp {
+  const source = glob.split('*').map(escapeRegExp).join('.*');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+function matchHostGlob(pattern: string, host: string): boolean {
+  const normalizedPattern = normalizeHost(pattern);
+  // "*.example.com" covers example.com itself as well as every subdomain
+  if (normalizedPattern.startsWith('*.') && host === normalizedPattern.slice(2)) {
+    return true;
+  }
+  return globToRegExp(normalizedPattern).test(host);
+}
+
+function matchPath(pattern: string, host: string, path: string): boolean {
+  const slashIndex = pattern.indexOf('/');
+  if (slashIndex === -1) {
+    return matchHostGlob(pattern, host);
+  }
+
+  const hostPattern = pattern.slice(0, slashIndex);
+  const pathPattern = pattern.slice(slashIndex);
+  if (!matchHostGlob(hostPattern, host)) {
+    return false;
+  }
+
+  // Without a wildcard the path is treated as a prefix ("youtube.com/shorts" matches "/shorts/abc")
+  return pathPattern.includes('*')
+    ? globToRegExp(pathPattern).test(path)
+    : path.toLowerCase().startsWith(pathPattern.toLowerCase());
+}
+
+function getSignalValue(signals: PageSignals, field: ContentField): string {
+  switch (field) {
+    case 'title':
+      return signals.title;
+    case 'keywords':
+      return signals.keywords.join(', ');
+    case 'ogType':
+      return signals.ogType ?? '';
+    case 'channel':
+      return signals.channel ?? '';
+    case 'videoCategory':
+      return signals.videoCategory ?? '';
+    case 'shortForm':
+      return String(signals.isShortForm);
+  }
+}
+
+function matchContent(rule: ClassificationRule, signals: PageSignals | null): boolean {
+  if (!signals || !rule.field) {
+    return false;
+  }
+  const value = getSignalValue(signals, rule.field);
+  if (!value) {
+    return false;
+  }
+  try {
+    return new RegExp(rule.pattern, 'i').test(value);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Suffix trie over host labels ("com" -> "youtube" -> "m") so host and wildcard rules are
+ * found without scanning every rule; large imported lists hold tens of thousands of them.
+ */
+interface HostTrieNode {
+  children: Map<string, HostTrieNode>;
+  exact: number[]; // Indexes of rules matching exactly this host
+  subtree: number[]; // Indexes of rules matching this host and every subdomain ("*.host")
+}
+
+interface RuleIndex {
+  trie: HostTrieNode;
+  linear: number[]; // Rules the trie can't express (paths, regex, content, inner wildcards)
+}
+
+const ruleIndexCache = new WeakMap<ClassificationRule[], RuleIndex>();
+
+function createTrieNode(): HostTrieNode {
+  return { children: new Map(), exact: [], subtree: [] };
+}
+
+/**
+ * The host a host/wildcard rule covers (and whether subdomains are included), or null for
+ * patterns that aren't a plain host
+ */
+export function getIndexableHost(rule: ClassificationRule): { host: string; subtree: boolean } | null {
+  if (rule.type === 'host') {
+    return { host: normalizeHost(rule.pattern), subtree: false };
+  }
+  if (rule.type === 'wildcard') {
+    const pattern = normalizeHost(rule.pattern);
+    const subtree = pattern.startsWith('*.');
+    const host = subtree ? pattern.slice(2) : pattern;
+    return host.includes('*') ? null : { host, subtree };
+  }
+  return null;
+}
+
+function getRuleIndex(rules: ClassificationRule[]): RuleIndex {
+  const cached = ruleIndexCache.get(rules);
+  if (cached) return cached;
+
+  const index: RuleIndex = { trie: createTrieNode(), linear: [] };
+  rules.forEach((rule, position) => {
+    const indexable = getIndexableHost(rule);
+    if (!indexable) {
+      index.linear.push(position);
+      return;
+    }
+    let node = index.trie;
+    for (const label of indexable.host.split('.').reverse()) {
+      let child = node.children.get(label);
+      if (!child) {
+        child = createTrieNode();
+        node.children.set(label, child);
+      }
+      node = child;
+    }
+    (indexable.subtree ? node.subtree : node.exact).push(position);
+  });
+
+  ruleIndexCache.set(rules, index);
+  return index;
+}
+
+/**
+ * Rules that could match a host, in their original order
+ */
+function getCandidateRules(rules: ClassificationRule[], host: string): ClassificationRule[] {
+  const index = getRuleIndex(rules);
+  const positions = [...index.linear];
+  const labels = host.split('.').reverse();
+
+  let node: HostTrieNode | undefined = index.trie;
+  for (let i = 0; i < labels.length && node; i++) {
+    node = node.children.get(labels[i]);
+    if (!node) break;
+    positions.push(...node.subtree);
+    if (i === labels.length - 1) {
+      positions.push(...node.exact);
     }
   }
-  
-  return 'productive';
+
+  return positions.sort((a, b) => a - b).map((position) => rules[position]);
 }
 
-export function extractDomain(url: string | undefined): string | null {
-  if (!url) return null;
-  
+/**
+ * Check whether a single rule matches a parsed URL (and, for content rules, its page signals)
+ */
+export function matchRule(rule: ClassificationRule, url: URL, signals: PageSignals | null = null): boolean {
+  const host = normalizeHost(url.hostname);
+
+  switch (rule.type) {
+    case 'host':
+      return host === normalizeHost(rule.pattern);
+    case 'wildcard':
+      return matchHostGlob(rule.pattern, host);
+    case 'path':
+      return matchPath(rule.pattern.trim(), host, `${url.pathname}${url.search}`);
+    case 'regex':
+      try {
+        return new RegExp(rule.pattern, 'i').test(url.href);
+      } catch {
+        return false;
+      }
+    case 'content':
+      return matchContent(rule, signals);
+  }
+}
+
+function validateRegExp(pattern: string): string | null {
   try {
-    const urlObj = new URL(url);
-    return urlObj.hostname;
+    new RegExp(pattern);
+    return null;
+  } catch (error) {
+    return `Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+/**
+ * Validate a rule before it is saved. Returns an error message or null if the rule is valid.
+ */
+export function validateRule(rule: Pick<ClassificationRule, 'type' | 'pattern' | 'field'>): string | null {
+  const pattern = rule.pattern.trim();
+  if (!pattern) {
+    return 'Pattern is required';
+  }
+
+  switch (rule.type) {
+    case 'host':
+      return /^[a-z0-9.-]+$/i.test(pattern) ? null : 'Host must only contain letters, digits, dots and dashes';
+    case 'wildcard':
+      return /^[a-z0-9.*-]+$/i.test(pattern) ? null : 'Wildcard must be a hostname, optionally using *';
+    case 'path':
+      return pattern.includes('/') ? null : 'Path rules need a host and a path, e.g. youtube.com/shorts';
+    case 'regex':
+      return validateRegExp(pattern);
+    case 'content':
+      return rule.field ? validateRegExp(pattern) : 'Content rules need a page signal to match against';
+  }
+}
+
+export function findSchedule(config: ClassificationRules, scheduleId: string | null | undefined): Schedule | null {
+  return config.schedules.find((schedule) => schedule.id === scheduleId) ?? null;
+}
+
+/**
+ * Whether a rule is switched on and, if it references a schedule, inside it right now.
+ * Rules pointing at a deleted schedule never apply.
+ */
+export function isRuleActive(rule: ClassificationRule, config: ClassificationRules, now: Date): boolean {
+  if (!rule.enabled) return false;
+  if (!rule.scheduleId) return true;
+  const schedule = findSchedule(config, rule.scheduleId);
+  return schedule !== null && isScheduleActive(schedule, now);
+}
+
+/**
+ * Whether time should be tracked at all right now
+ */
+export function isTrackingScheduled(config: ClassificationRules, now: Date = new Date()): boolean {
+  if (!config.trackingScheduleId) return true;
+  const schedule = findSchedule(config, config.trackingScheduleId);
+  return schedule === null || isScheduleActive(schedule, now);
+}
+
+export function findCategory(config: ClassificationRules, categoryId: string | undefined): Category | null {
+  return config.categories.find((category) => category.id === categoryId) ?? null;
+}
+
+/**
+ * Which side of the focus score a category's time counts toward
+ */
+export function getCategorySide(category: Category | null): CategorySide {
+  if (!category || category.weight === 0) return 'neutral';
+  return category.weight > 0 ? 'productive' : 'unproductive';
+}
+
+/**
+ * Find the rule that decides a URL, honouring the configured precedence.
+ * Layers are resolved in order (org-enforced lists, local rules, overridable shared lists);
+ * within a layer, matching content rules are resolved first and URL rules only apply when none match.
+ */
+export function findMatchingRule(
+  url: string,
+  config: ClassificationRules,
+  signals: PageSignals | null = null,
+  now: Date = new Date()
+): ClassificationRule | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
   } catch {
     return null;
   }
+
+  const allMatches = getCandidateRules(config.rules, normalizeHost(parsed.hostname)).filter(
+    (rule) => isRuleActive(rule, config, now) && findCategory(config, rule.category) && matchRule(rule, parsed, signals)
+  );
+  const layerMatches = RULE_LAYERS
+    .map((layer) => allMatches.filter((rule) => getRuleLayer(rule) === layer))
+    .find((rules) => rules.length > 0);
+  if (!layerMatches) {
+    return null;
+  }
+
+  const contentMatches = layerMatches.filter((rule) => rule.type === 'content');
+  const matches = contentMatches.length > 0 ? contentMatches : layerMatches;
+
+  if (config.precedence === 'first-match') {
+    return matches[0];
+  }
+
+  const weightOf = (rule: ClassificationRule) => findCategory(config, rule.category)?.weight ?? 0;
+  return matches.reduce((best, rule) => {
+    const isBetter = config.precedence === 'lowest-weight'
+      ? weightOf(rule) < weightOf(best)
+      : weightOf(rule) > weightOf(best);
+    return isBetter ? rule : best;
+  });
 }
 
+/**
+ * Classify a full URL into a category. URLs no rule matches fall into the default category;
+ * untracked URLs (browser pages, new tabs, localhost) return null.
+ */
+export function classifyUrl(
+  url: string | null | undefined,
+  config: ClassificationRules = DEFAULT_CLASSIFICATION_RULES,
+  signals: PageSignals | null = null,
+  now: Date = new Date()
+): Category | null {
+  const normalized = normalizeUrl(url);
+  if (!normalized) return null;
+
+  // Ignore signals captured for a different page (e.g. stale after an in-page navigation)
+  const pageSignals = signals?.url === url ? signals : null;
+  const rule = findMatchingRule(normalized.url, config, pageSignals, now);
+  return findCategory(config, rule?.category ?? config.defaultCategory);
+}
+
+/**
+ * Sum the totals of every category on one side of the focus score
+ */
+export function sumCategoryTotals(totals: CategoryTotals, config: ClassificationRules, side: CategorySide): number {
+  return Object.entries(totals).reduce((sum, [categoryId, ms]) => {
+    return getCategorySide(findCategory(config, categoryId)) === side ? sum + ms : sum;
+  }, 0);
+}
+
+/**
+ * Zero the totals of every category on one side, leaving the rest untouched
+ */
+export function resetCategoryTotals(totals: CategoryTotals, config: ClassificationRules, side: CategorySide): CategoryTotals {
+  const reset: CategoryTotals = {};
+  for (const [categoryId, ms] of Object.entries(totals)) {
+    reset[categoryId] = getCategorySide(findCategory(config, categoryId)) === side ? 0 : ms;
+  }
+  return reset;
+}
+
+/**
+ * Weighted focus score from 0 (all distracting) to 100 (all productive).
+ * Returns null while no weighted time has been recorded.
+ */
+export function computeFocusScore(totals: CategoryTotals, config: ClassificationRules): number | null {
+  let positive = 0;
+  let negative = 0;
+  for (const [categoryId, ms] of Object.entries(totals)) {
+    const weight = findCategory(config, categoryId)?.weight ?? 0;
+    if (weight > 0) positive += weight * ms;
+    if (weight < 0) negative += -weight * ms;
+  }
+
+  const weighted = positive + negative;
+  return weighted > 0 ? Math.round((positive / weighted) * 100) : null;
+}
@@ -0,0 +1,137 @@
+/**
+ * Accountability contacts
+ *
+ * Contacts live in `accountability_contacts`, one row per person with an E.164 number. A number
+ * can only be called or messaged once it's verified: api/verify-contact texts it a one-time code,
+ * which the user enters here. A contact who replies STOP is marked opted out by api/sms-inbound
+ * and is skipped until they reply START. Verification and opt-out state is only ever written
+ * server-side; the extension adds, lists and removes contacts.
+ */
+import { API_BASE_URL } from './env';
+import { isE164 } from './phone';
+import { supabase } from './supabaseClient';
+
+export const MAX_CONTACT_NAME_LENGTH = 60;
+export const VERIFICATION_CODE_LENGTH = 6;
+
+export interface Contact {
+  id: string;
+  name: string;
+  phone: string; // E.164
+  country: string; // ISO 3166-1 alpha-2 the number was entered for
+  verifiedAt: number | null;
+  optedOutAt: number | null; // Replied STOP
+  createdAt: number;
+}
+
+export type ContactStatus = 'unverified' | 'verified' | 'optedOut';
+
+interface ContactRow {
+  id: string;
+  name: string;
+  phone: string;
+  country: string;
+  verified_at: string | null;
+  opted_out_at: string | null;
+  created_at: string;
+}
+
+function toContact(row: ContactRow): Contact {
+  return {
+    id: row.id,
+    name: row.name,
+    phone: row.phone,
+    country: row.country,
+    verifiedAt: row.verified_at ? Date.parse(row.verified_at) : null,
+    optedOutAt: row.opted_out_at ? Date.parse(row.opted_out_at) : null,
+    createdAt: Date.parse(row.created_at),
+  };
+}
+
+export function getContactStatus(contact: Contact): ContactStatus {
+  if (contact.optedOutAt !== null) return 'optedOut';
+  return contact.verifiedAt !== null ? 'verified' : 'unverified';
+}
+
+/**
+ * Check a new contact from the popup; returns an error message, or null
+ */
+export function validateContact(name: string, phone: string | null, contacts: Contact[]): string | null {
+  if (!name.trim()) return 'Enter a name';
+  if (name.trim().length > MAX_CONTACT_NAME_LENGTH) return `Names can be at most ${MAX_CONTACT_NAME_LENGTH} characters`;
+  if (!phone || !isE164(phone)) return 'Enter a valid phone number for the selected country';
+  if (contacts.some((contact) => contact.phone === phone)) return 'That number is already a contact';
+  return null;
+}
+
+export async function listContacts(userId: string): Promise<Contact[]> {
+  const { data, error } = await supabase
+    .from('accountability_contacts')
+    .select('id, name, phone, country, verified_at, opted_out_at, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return (data || []).map(toContact);
+}
+
+export async function addContact(userId: string, name: string, phone: string, country: string): Promise<Contact> {
+  const { data, error } = await supabase
+    .from('accountability_contacts')
+    .insert({ user_id: userId, name: name.trim(), phone, country })
+    .select('id, name, phone, country, verified_at, opted_out_at, created_at')
+    .single();
+  if (error) throw error;
+  console.log('👤 Added contact:', data.name);
+  return toContact(data);
+}
+
+export async function removeContact(userId: string, contactId: string): Promise<void> {
+  const { error } = await supabase
+    .from('accountability_contacts')
+    .delete()
+    .eq('user_id', userId)
+    .eq('id', contactId);
+  if (error) throw error;
+}
+
+/**
+ * POST a verification step to api/verify-contact as the signed-in user; throws with the
+ * server's message when it fails
+ */
+async function postVerification(body: Record<string, unknown>): Promise<void> {
+  if (!API_BASE_URL) {
+    throw new Error('API base URL not configured. Please set VITE_API_BASE_URL in .env file.');
+  }
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('You must be logged in.');
+  }
+
+  const response = await fetch(`${API_BASE_URL}/api/verify-contact`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${session.access_token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}));
+    const retryHint = typeof result.retryAfterSeconds === 'number' ? ` (try again in ${Math.ceil(result.retryAfterSeconds / 60)} min)` : '';
+    throw new Error(`${typeof result.error === 'string' ? result.error : `Request failed (${response.status})`}${retryHint}`);
+  }
+}
+
+/**
+ * Text the contact a one-time code
+ */
+export function sendVerificationCode(contactId: string): Promise<void> {
+  return postVerification({ action: 'send', contactId });
+}
+
+/**
+ * Check the code the contact received; on success the contact is verified server-side
+ */
+export function confirmVerificationCode(contactId: string, code: string): Promise<void> {
+  return postVerification({ action: 'confirm', contactId, code: code.trim() });
+}
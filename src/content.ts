@@ -0,0 +1,120 @@
+/**
+ * Content script: extracts page signals for content-based classification
+ * and reports them (plus what media is playing) to the background worker.
+ *
+ * Must stay free of runtime imports so it builds into a single classic script.
+ */
+import type { PageSignals } from './classify';
+import type { BackgroundCommand } from './messages';
+import type { MediaState } from './mediaTabs';
+
+const SHORT_FORM_PATTERNS = [
+  /(^|\.)youtube\.com\/shorts\//,
+  /(^|\.)instagram\.com\/reels?\//,
+  /(^|\.)facebook\.com\/reel\//,
+  /(^|\.)tiktok\.com\//,
+];
+const NAVIGATION_SETTLE_MS = 500; // SPA pages update their metadata shortly after the URL changes
+
+function getMetaContent(selector: string): string | null {
+  const content = document.querySelector<HTMLMetaElement>(selector)?.content?.trim();
+  return content || null;
+}
+
+function getYouTubeChannel(): string | null {
+  // Structured data is only correct on the first load; the rendered owner name follows SPA navigations
+  const rendered = document.querySelector('ytd-video-owner-renderer #channel-name a')?.textContent?.trim();
+  if (rendered) {
+    return rendered;
+  }
+  return document.querySelector('span[itemprop="author"] link[itemprop="name"]')?.getAttribute('content') || null;
+}
+
+function collectPageSignals(): PageSignals {
+  const { hostname, pathname } = window.location;
+  const keywords = (getMetaContent('meta[name="keywords"]') ?? '')
+    .split(',')
+    .map((keyword) => keyword.trim())
+    .filter(Boolean);
+  const isYouTube = /(^|\.)youtube\.com$/.test(hostname);
+
+  return {
+    url: window.location.href,
+    title: document.title,
+    keywords,
+    ogType: getMetaContent('meta[property="og:type"]'),
+    channel: isYouTube ? getYouTubeChannel() : null,
+    videoCategory: isYouTube ? getMetaContent('meta[itemprop="genre"]') : null,
+    isShortForm: SHORT_FORM_PATTERNS.some((pattern) => pattern.test(`${hostname}${pathname}`)),
+  };
+}
+
+let lastSentKey = '';
+
+function reportPageSignals(): void {
+  const signals = collectPageSignals();
+  const key = `${signals.url}|${signals.title}|${signals.channel}|${signals.videoCategory}`;
+  if (key === lastSentKey) {
+    return;
+  }
+  lastSentKey = key;
+
+  const command: BackgroundCommand = { type: 'pageSignals', signals };
+  chrome.runtime.sendMessage(command).catch(() => {
+    // Background worker may be restarting; it will ask for signals again when needed
+  });
+}
+
+let settleTimer: ReturnType<typeof setTimeout> | undefined;
+
+function scheduleReport(): void {
+  clearTimeout(settleTimer);
+  settleTimer = setTimeout(reportPageSignals, NAVIGATION_SETTLE_MS);
+}
+
+function collectMediaState(): MediaState {
+  const elements = Array.from(document.querySelectorAll<HTMLMediaElement>('video, audio'));
+  return {
+    url: window.location.href,
+    playing: elements.some((media) => !media.paused && !media.ended && !media.muted && media.volume > 0),
+    pictureInPicture: document.pictureInPictureElement !== null,
+  };
+}
+
+let lastMediaKey = '';
+
+function reportMediaState(): void {
+  const state = collectMediaState();
+  const key = `${state.url}|${state.playing}|${state.pictureInPicture}`;
+  if (key === lastMediaKey) {
+    return;
+  }
+  lastMediaKey = key;
+
+  const command: BackgroundCommand = { type: 'mediaState', state };
+  chrome.runtime.sendMessage(command).catch(() => {
+    // Background worker may be restarting; audible tabs are still picked up from tab state
+  });
+}
+
+chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+  if (message?.type === 'getPageSignals') {
+    sendResponse(collectPageSignals());
+  }
+});
+
+// YouTube fires this after every in-app navigation
+document.addEventListener('yt-navigate-finish', scheduleReport);
+
+// Other single-page apps: a title change is the most reliable navigation hint
+const titleElement = document.querySelector('title');
+if (titleElement) {
+  new MutationObserver(scheduleReport).observe(titleElement, { childList: true, characterData: true, subtree: true });
+}
+
+// Media events don't bubble, so listen in the capture phase
+for (const type of ['play', 'pause', 'ended', 'emptied', 'volumechange', 'enterpictureinpicture', 'leavepictureinpicture']) {
+  document.addEventListener(type, reportMediaState, true);
+}
+
+reportPageSignals();
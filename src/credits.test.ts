@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { CategorySide } from './classify';
+import { creditLedger, getCreditBalance, validateCreditSettings, type CreditLedger, type CreditSettings } from './credits';
+
+const MINUTE_MS = 60000;
+const DAY = '2024-01-15';
+const START = Date.UTC(2024, 0, 15, 9);
+
+const settings: CreditSettings = { enabled: true, earnRatio: 4, maxBalanceMinutes: 30, dailyDecayPercent: 50, exhaustedAction: 'notify' };
+
+function ledger(balanceMinutes: number, day: string | null = DAY, exhaustedNotified = false): CreditLedger {
+  return { balanceMs: balanceMinutes * MINUTE_MS, day, exhaustedNotified };
+}
+
+describe('creditLedger', () => {
+  it.each<[string, CreditLedger, CategorySide, number, { balance: number; transactions: string[]; ranOut: boolean }]>([
+    ['productive time earns at the ratio', ledger(0), 'productive', 8, { balance: 2, transactions: ['earn +2'], ranOut: false }],
+    ['earning past the cap forfeits the rest', ledger(29), 'productive', 8, { balance: 30, transactions: ['earn +1 (1 forfeited)'], ranOut: false }],
+    ['at the cap everything is forfeited', ledger(30), 'productive', 4, { balance: 30, transactions: ['earn +0 (1 forfeited)'], ranOut: false }],
+    ['unproductive time spends one to one', ledger(10), 'unproductive', 3, { balance: 7, transactions: ['spend -3'], ranOut: false }],
+    ['spending the last credit runs out', ledger(2), 'unproductive', 5, { balance: 0, transactions: ['spend -2'], ranOut: true }],
+    ['running out is reported once', ledger(0, DAY, true), 'unproductive', 5, { balance: 0, transactions: [], ranOut: false }],
+    ['browsing on with nothing left runs out too', ledger(0), 'unproductive', 1, { balance: 0, transactions: [], ranOut: true }],
+    ['neutral time changes nothing', ledger(10), 'neutral', 5, { balance: 10, transactions: [], ranOut: false }],
+    ['a new day decays the balance first', ledger(20, '2024-01-14'), 'productive', 4, { balance: 11, transactions: ['decay -10', 'earn +1'], ranOut: false }],
+    ['decay compounds over skipped days', ledger(20, '2024-01-12'), 'neutral', 5, { balance: 2.5, transactions: ['decay -17.5'], ranOut: false }],
+    ['a first update only sets the day', ledger(5, null), 'neutral', 5, { balance: 5, transactions: [], ranOut: false }],
+  ])('%s', (_name, before, side, minutes, expected) => {
+    const result = creditLedger(before, settings, { side, domain: 'example.com' }, minutes * MINUTE_MS, DAY, START);
+    expect({
+      balance: result.ledger.balanceMs / MINUTE_MS,
+      transactions: result.transactions.map(
+        (transaction) =>
+          `${transaction.type} ${transaction.amountMs >= 0 ? '+' : ''}${transaction.amountMs / MINUTE_MS}` +
+          (transaction.forfeitedMs ? ` (${transaction.forfeitedMs / MINUTE_MS} forfeited)` : '')
+      ),
+      ranOut: result.ranOut,
+    }).toEqual(expected);
+    expect(result.ledger.day).toBe(DAY);
+  });
+
+  it('earning clears the ran-out flag', () => {
+    const { ledger: after } = creditLedger(ledger(0, DAY, true), settings, { side: 'productive', domain: 'github.com' }, 4 * MINUTE_MS, DAY, START);
+    expect(after.exhaustedNotified).toBe(false);
+  });
+});
+
+describe('getCreditBalance', () => {
+  it.each<[string, CreditLedger, string, number]>([
+    ['same day', ledger(20), DAY, 20],
+    ['next day', ledger(20, '2024-01-14'), DAY, 10],
+    ['over a year end', ledger(16, '2023-12-30'), '2024-01-03', 1], // Four midnights
+    ['a ledger dated later is left alone', ledger(20, '2024-01-16'), DAY, 20],
+  ])('%s', (_name, current, day, expectedMinutes) => {
+    expect(getCreditBalance(current, settings, day) / MINUTE_MS).toBe(expectedMinutes);
+  });
+});
+
+describe('validateCreditSettings', () => {
+  it.each<[Partial<CreditSettings>, string | null]>([
+    [{}, null],
+    [{ dailyDecayPercent: 0 }, null],
+    [{ earnRatio: 0 }, 'Earn ratio must be a positive number of productive minutes per credit minute'],
+    [{ earnRatio: Number.NaN }, 'Earn ratio must be a positive number of productive minutes per credit minute'],
+    [{ maxBalanceMinutes: 0.5 }, 'Credit cap must be at least 1 minute'],
+    [{ dailyDecayPercent: 101 }, 'Daily decay must be between 0 and 100%'],
+  ])('%j → %s', (changes, expected) => {
+    const validate = () => validateCreditSettings({ ...settings, ...changes });
+    if (expected === null) {
+      expect(validate).not.toThrow();
+    } else {
+      expect(validate).toThrow(expected);
+    }
+  });
+});
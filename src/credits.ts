@@ -0,0 +1,165 @@
+/**
+ * Earn-to-scroll credits
+ *
+ * Productive time earns scroll credits at a configurable ratio (e.g. 4 minutes of work earn 1
+ * minute of credit) and unproductive time spends them. The balance is capped, loses a share at
+ * every local midnight, and every change is kept in a local transaction log. When the balance runs
+ * out, the configured action runs: a notification only, the AI call, or blocking distracting
+ * categories until more credit is earned (see blocking.ts).
+ */
+import type { BudgetAction } from './budgets';
+import { addDays, type DayKey } from './calendar';
+import type { CategorySide } from './classify';
+import { getCreditTransactions, setCreditTransactions } from './storage';
+
+export type CreditTransactionType = 'earn' | 'spend' | 'decay';
+
+const MAX_CREDIT_TRANSACTIONS = 500;
+const MAX_DECAY_DAYS = 366; // Past this, any decay leaves nothing worth computing
+
+export interface CreditSettings {
+  enabled: boolean;
+  earnRatio: number; // Productive minutes per minute of credit
+  maxBalanceMinutes: number; // Credit earned past this is forfeited
+  dailyDecayPercent: number; // Share of the balance lost at every local midnight
+  exhaustedAction: BudgetAction; // What happens when the balance runs out
+}
+
+export interface CreditLedger {
+  balanceMs: number;
+  day: DayKey | null; // Local day the balance was last updated on (decay is applied on the next one)
+  exhaustedNotified: boolean; // Running out was reported; reset by the next earning
+}
+
+export interface CreditTransaction {
+  id: string;
+  type: CreditTransactionType;
+  amountMs: number; // Positive for earnings, negative for spending and decay
+  balanceMs: number; // Balance after the transaction
+  domain: string | null; // Page that earned or spent the credit (null for decay)
+  start: number;
+  end: number;
+  forfeitedMs?: number; // Earned past the cap
+}
+
+/**
+ * Check credit settings from the popup; throws with a message the popup can show
+ */
+export function validateCreditSettings(settings: CreditSettings): void {
+  if (!Number.isFinite(settings.earnRatio) || settings.earnRatio <= 0) {
+    throw new Error('Earn ratio must be a positive number of productive minutes per credit minute');
+  }
+  if (!Number.isFinite(settings.maxBalanceMinutes) || settings.maxBalanceMinutes < 1) {
+    throw new Error('Credit cap must be at least 1 minute');
+  }
+  if (!Number.isFinite(settings.dailyDecayPercent) || settings.dailyDecayPercent < 0 || settings.dailyDecayPercent > 100) {
+    throw new Error('Daily decay must be between 0 and 100%');
+  }
+}
+
+/**
+ * The balance as of `day`, with the decay for days started since the ledger was last updated
+ */
+export function getCreditBalance(ledger: CreditLedger, settings: CreditSettings, day: DayKey): number {
+  return decayLedger(ledger, settings, day).balanceMs;
+}
+
+function decayLedger(ledger: CreditLedger, settings: CreditSettings, day: DayKey): CreditLedger {
+  if (ledger.day === null || ledger.day >= day) {
+    return ledger.day === null ? { ...ledger, day } : ledger;
+  }
+  let days = 0;
+  for (let current = ledger.day; current < day && days < MAX_DECAY_DAYS; current = addDays(current, 1)) {
+    days++;
+  }
+  const balanceMs = ledger.balanceMs * Math.pow(1 - settings.dailyDecayPercent / 100, days);
+  return { ...ledger, balanceMs, day };
+}
+
+/**
+ * Earn or spend credit for `ms` of time on a page, on local day `day` starting at `start`. Decay for
+ * days started since the last update is applied first. Returns the new ledger, the transactions
+ * and whether the balance just ran out (reported once until credit is earned again).
+ */
+export function creditLedger(
+  ledger: CreditLedger,
+  settings: CreditSettings,
+  page: { side: CategorySide; domain: string },
+  ms: number,
+  day: DayKey,
+  start: number
+): { ledger: CreditLedger; transactions: CreditTransaction[]; ranOut: boolean } {
+  const transactions: CreditTransaction[] = [];
+  let next = decayLedger(ledger, settings, day);
+  if (next.balanceMs !== ledger.balanceMs) {
+    transactions.push({
+      id: crypto.randomUUID(),
+      type: 'decay',
+      amountMs: next.balanceMs - ledger.balanceMs,
+      balanceMs: next.balanceMs,
+      domain: null,
+      start,
+      end: start,
+    });
+  }
+  const end = start + ms;
+
+  if (page.side === 'productive' && ms > 0) {
+    const earned = ms / settings.earnRatio;
+    const balanceMs = Math.min(settings.maxBalanceMinutes * 60000, next.balanceMs + earned);
+    const forfeitedMs = next.balanceMs + earned - balanceMs;
+    transactions.push({
+      id: crypto.randomUUID(),
+      type: 'earn',
+      amountMs: balanceMs - next.balanceMs,
+      balanceMs,
+      domain: page.domain,
+      start,
+      end,
+      ...(forfeitedMs > 0 && { forfeitedMs }),
+    });
+    next = { ...next, balanceMs, exhaustedNotified: false };
+    return { ledger: next, transactions, ranOut: false };
+  }
+
+  if (page.side === 'unproductive' && ms > 0) {
+    const spent = Math.min(next.balanceMs, ms);
+    const balanceMs = next.balanceMs - spent;
+    if (spent > 0) {
+      transactions.push({ id: crypto.randomUUID(), type: 'spend', amountMs: -spent, balanceMs, domain: page.domain, start, end });
+    }
+    // Browsing on with nothing left counts as running out too
+    const ranOut = balanceMs <= 0 && !next.exhaustedNotified;
+    next = { ...next, balanceMs, exhaustedNotified: next.exhaustedNotified || ranOut };
+    return { ledger: next, transactions, ranOut };
+  }
+  return { ledger: next, transactions, ranOut: false };
+}
+
+/**
+ * Append transactions to the local log (most recent first). A transaction continuing the previous
+ * one (same type and page, contiguous in time) is merged into it, so the log holds one entry per
+ * stretch of browsing rather than one per checkpoint.
+ */
+export async function recordCreditTransactions(transactions: CreditTransaction[]): Promise<void> {
+  if (transactions.length === 0) {
+    return;
+  }
+  const log = await getCreditTransactions();
+  for (const transaction of transactions) {
+    const last = log[0];
+    if (last && transaction.type !== 'decay' && last.type === transaction.type && last.domain === transaction.domain && last.end === transaction.start) {
+      const forfeitedMs = (last.forfeitedMs ?? 0) + (transaction.forfeitedMs ?? 0);
+      log[0] = {
+        ...last,
+        amountMs: last.amountMs + transaction.amountMs,
+        balanceMs: transaction.balanceMs,
+        end: transaction.end,
+        ...(forfeitedMs > 0 && { forfeitedMs }),
+      };
+    } else {
+      log.unshift(transaction);
+    }
+  }
+  await setCreditTransactions(log.slice(0, MAX_CREDIT_TRANSACTIONS));
+}
@@ -0,0 +1,562 @@
+/**
+ * Tracking engine: the state transitions behind time tracking, free of chrome.* APIs, the system
+ * clock and Supabase
+ *
+ * The background service worker wires it to chrome.storage, Date.now() and Supabase; the
+ * simulation harness (src/simulation) wires it to a fake clock, a fake chrome shim and a
+ * recording sink so scripted timelines replay deterministically.
+ */
+
+import {
+  classifyUrl,
+  findCategory,
+  findSchedule,
+  getCategorySide,
+  isTrackingScheduled,
+  resetCategoryTotals,
+  type Category,
+  type ClassificationRules,
+  type PageSignals,
+} from './classify';
+import {
+  MAX_UNOBSERVED_GAP_MS,
+  allocateSpan,
+  describePause,
+  isActivityPaused,
+  splitSpan,
+  type SpanAllocation,
+  type SpanParticipant,
+} from './accounting';
+import { budgetMatches, creditBudgets, getMsUntilNextWarning, type Budget, type BudgetWarning } from './budgets';
+import { getDayKey, splitByDay } from './calendar';
+import { creditLedger, getCreditBalance, type CreditTransaction } from './credits';
+import { creditFocusSession, recordFocusDistraction } from './focus';
+import type { CounterReset, VisitSegment } from './history';
+import { extractDomain, normalizeUrl } from './normalize';
+import type { IdleState, MediaTab, TrackingState } from './storage';
+import type { UsageSample } from './usage';
+
+export const PRODUCTIVE_TRIGGER_MS = 60000; // 60 seconds
+export const AI_CALL_TRIGGER_MS = 120000; // 2 minutes (120 seconds) - trigger AI agent call
+
+/**
+ * Where the engine keeps TrackingState (chrome.storage.local in the extension)
+ */
+export interface EngineStorage {
+  getState(): Promise<TrackingState>;
+  updateState(updates: Partial<TrackingState>): Promise<TrackingState>;
+}
+
+/**
+ * How escalating the productive streak went. One that didn't go out (held back by the escalation
+ * policy, or every channel failed) is tried again at `retryAt` if the streak is still past the
+ * threshold then; null means not again for this streak.
+ */
+export interface CallAttempt {
+  placed: boolean;
+  retryAt: number | null;
+}
+
+/**
+ * Side effects of crediting time: Supabase writes, escalations, budget and credit warnings and the
+ * local history
+ */
+export interface TrackingSink {
+  recordProductiveTrigger(domain: string, durationMs: number, userId: string): Promise<void>;
+  recordUsage(usage: UsageSample): Promise<void>; // Batched and uploaded on the upload cadence
+  placeCall(userId: string): Promise<CallAttempt>; // Escalate the streak
+  reachBudgetWarning(warning: BudgetWarning, userId: string): Promise<void>; // Notify, and run the action at 100%
+  recordCreditTransactions(transactions: CreditTransaction[]): Promise<void>;
+  runOutOfCredits(userId: string): Promise<void>; // Run the action set for an empty balance
+  recordVisit(visit: Omit<VisitSegment, 'id'>): Promise<void>;
+  recordCounterResets(resets: Omit<CounterReset, 'id'>[]): Promise<void>;
+}
+
+export interface EngineDeps {
+  now: () => number;
+  storage: EngineStorage;
+  sink: TrackingSink;
+  getRules: () => ClassificationRules;
+  getBudgets: () => Budget[];
+  getSignals: (url: string | null) => Promise<PageSignals | null>;
+  getTimeZone: () => string;
+}
+
+/**
+ * The tab a page is shown in
+ */
+export interface TabRef {
+  id?: number;
+  windowId?: number;
+}
+
+export interface TrackingEngine {
+  closeOutSpan(now?: number): Promise<void>;
+  updateDomain(newUrl: string | null, tab?: TabRef | null): Promise<void>;
+  setWindowFocused(isWindowFocused: boolean): Promise<void>;
+  setIdleState(idleState: IdleState): Promise<void>;
+  setMediaTabs(mediaTabs: MediaTab[]): Promise<void>;
+  getThresholdTime(): Promise<number | null>;
+}
+
+/**
+ * Create an engine over the given clock, storage and sink. Callers serialize calls (see
+ * runAccounting in background.ts): two close-outs reading the same checkpoint would count a span twice.
+ */
+export function createTrackingEngine({ now, storage, sink, getRules, getBudgets, getSignals, getTimeZone }: EngineDeps): TrackingEngine {
+  let wasOutsideSchedule = false;
+
+  /**
+   * Classify a page using the URL rules plus any cached content signals for it
+   */
+  async function classifyPage(url: string | null, at: Date = new Date(now())): Promise<Category | null> {
+    return classifyUrl(url, getRules(), await getSignals(url), at);
+  }
+
+  /**
+   * Attribute the time since the last checkpoint to the page that was being tracked, and move the
+   * checkpoint to `end`. Runs before every transition and on the periodic checkpoint, so each
+   * span has one page and one pause state.
+   */
+  async function closeOutSpan(end: number = now()): Promise<void> {
+    const state = await storage.getState();
+    const rules = getRules();
+    const span = end - state.lastTick;
+    if (span <= 0) {
+      return;
+    }
+
+    if (span > MAX_UNOBSERVED_GAP_MS) {
+      console.log(`⚠️ No checkpoint for ${Math.floor(span / 1000)}s (browser closed or system asleep), not counting that time`);
+      await storage.updateState({ lastTick: end });
+      return;
+    }
+
+    // The pause policy decides whether idle, locked or unfocused time counts
+    if (isActivityPaused(state)) {
+      console.log(`⏸️ Not counting ${Math.floor(span / 1000)}s: ${describePause(state)}`);
+      await storage.updateState({ lastTick: end });
+      return;
+    }
+
+    for (const chunk of splitSpan(state.lastTick, end, rules)) {
+      // Tracking can be limited to a schedule (e.g. weekdays 9-5)
+      if (!isTrackingScheduled(rules, new Date(chunk.start))) {
+        if (!wasOutsideSchedule) {
+          const schedule = findSchedule(rules, rules.trackingScheduleId);
+          console.log(`⏸️ Pausing tracking: outside the "${schedule?.name}" schedule`);
+          wasOutsideSchedule = true;
+        }
+        await storage.updateState({ lastTick: chunk.end });
+        continue;
+      }
+      if (wasOutsideSchedule) {
+        console.log('▶️ Tracking schedule active again, resuming tracking');
+        wasOutsideSchedule = false;
+      }
+      await processTime(await storage.getState(), chunk.end - chunk.start, chunk.end);
+    }
+  }
+
+  /**
+   * When the current productive streak will cross its next threshold, the current page will bring
+   * a daily budget to its next warning level or spend the last scroll credit, or null if none of
+   * these will happen while nothing changes
+   */
+  async function getThresholdTime(): Promise<number | null> {
+    const state = await storage.getState();
+    if (isActivityPaused(state)) {
+      return null;
+    }
+    const category = findCategory(getRules(), state.currentCategory ?? undefined);
+    const times: number[] = [];
+
+    const nextThreshold = [PRODUCTIVE_TRIGGER_MS, AI_CALL_TRIGGER_MS].find((ms) => ms > state.consecutiveProductiveMs);
+    if (getCategorySide(category) === 'productive' && nextThreshold !== undefined) {
+      times.push(state.lastTick + nextThreshold - state.consecutiveProductiveMs);
+    }
+    // An escalation of the streak that didn't go out is retried even without a new crossing
+    if (getCategorySide(category) === 'productive' && nextThreshold === undefined && state.streakEscalationRetryAt !== null) {
+      times.push(state.streakEscalationRetryAt);
+    }
+
+    // Budgets only count signed-in time on tracked pages
+    if (state.userId && state.currentDomain && category) {
+      const day = getDayKey(state.lastTick, getTimeZone());
+      for (const budget of getBudgets()) {
+        const remaining = budgetMatches(budget, state.currentDomain, category.id) ? getMsUntilNextWarning(state.budgetUsage, budget, day) : null;
+        if (remaining !== null) {
+          times.push(state.lastTick + remaining);
+        }
+      }
+      const { creditSettings, credits } = state;
+      if (creditSettings.enabled && getCategorySide(category) === 'unproductive' && !credits.exhaustedNotified) {
+        times.push(state.lastTick + getCreditBalance(credits, creditSettings, day));
+      }
+    }
+    return times.length > 0 ? Math.min(...times) : null;
+  }
+
+  /**
+   * Update the current URL/domain and flush time if the domain or classification changed.
+   * The span up to now is closed out first, so it is credited to the page being left.
+   */
+  async function updateDomain(newUrl: string | null, tab: TabRef | null = null): Promise<void> {
+    const current = await storage.getState();
+    const newCategory = await classifyPage(newUrl);
+    const newTabId = tab?.id ?? current.currentTabId;
+    const newWindowId = tab?.windowId ?? current.currentWindowId;
+
+    // Same page can still change category once its content signals arrive
+    if (
+      current.currentUrl === newUrl &&
+      current.currentCategory === (newCategory?.id ?? null) &&
+      current.currentTabId === newTabId
+    ) {
+      return; // No change
+    }
+
+    await closeOutSpan();
+    const state = await storage.getState();
+
+    const newDomain = extractDomain(newUrl ?? undefined);
+    const previousCategory = findCategory(getRules(), state.currentCategory ?? undefined);
+    const previousClassification = getCategorySide(previousCategory);
+    const newClassification = getCategorySide(newCategory);
+
+    // Navigating within the same domain only matters if a path or content rule changes the category
+    if (state.currentDomain === newDomain && previousCategory?.id === newCategory?.id) {
+      await storage.updateState({ currentUrl: newUrl, currentTabId: newTabId, currentWindowId: newWindowId });
+      return;
+    }
+
+    // Handle domain switch
+
+    // Record database events for previous domain (if needed)
+    if (state.currentDomain && state.userId) {
+      // Record productive trigger at 60s for database tracking (but don't reset counter)
+      if (previousClassification === 'productive' && state.consecutiveProductiveMs >= PRODUCTIVE_TRIGGER_MS) {
+        // Only record once per session to avoid duplicates
+        await sink.recordProductiveTrigger(state.currentDomain, state.consecutiveProductiveMs, state.userId);
+      }
+    }
+
+    // IMPORTANT: Do NOT reset productive time counter when switching between productive domains
+    // Only reset when:
+    // 1. Switching FROM productive TO unproductive (reset productive counter)
+    // 2. Switching FROM unproductive TO productive (reset unproductive buffer)
+    // Neutral categories leave both counters alone
+    // 3. Call is triggered (handled in resetAfterCall)
+    // 4. Update Leaderboard button is pressed (handled in popup)
+
+    // Determine what to reset
+    const shouldResetProductive = previousClassification === 'productive' && newClassification === 'unproductive';
+    const shouldResetUnproductive = previousClassification === 'unproductive' && newClassification === 'productive';
+
+    await storage.updateState({
+      currentDomain: newDomain,
+      currentUrl: newUrl,
+      currentCategory: newCategory?.id ?? null,
+      currentTabId: newTabId,
+      currentWindowId: newWindowId,
+      consecutiveProductiveMs: shouldResetProductive ? 0 : state.consecutiveProductiveMs,
+      unproductiveMsBuffer: shouldResetUnproductive ? 0 : state.unproductiveMsBuffer,
+      // Unproductive visits during a focus session are counted per domain for its report
+      focusSession:
+        state.focusSession && newDomain && newClassification === 'unproductive'
+          ? recordFocusDistraction(state.focusSession, newDomain, now())
+          : state.focusSession,
+    });
+
+    // Log domain switch for debugging
+    if (shouldResetProductive) {
+      console.log('🔄 Switched from productive to unproductive domain, reset productive counter');
+    } else if (shouldResetUnproductive) {
+      console.log('🔄 Switched from unproductive to productive domain, reset unproductive buffer');
+    } else if (previousClassification === 'productive' && newClassification === 'productive') {
+      console.log('✅ Switched between productive domains, keeping productive counter running');
+    }
+  }
+
+  async function setWindowFocused(isWindowFocused: boolean): Promise<void> {
+    await closeOutSpan();
+    await storage.updateState({ isWindowFocused });
+  }
+
+  async function setIdleState(idleState: IdleState): Promise<void> {
+    await closeOutSpan();
+    await storage.updateState({ idleState });
+  }
+
+  /**
+   * Replace the playing media tabs. The span so far is closed out first, so it is shared among
+   * the tabs that were playing during it.
+   */
+  async function setMediaTabs(mediaTabs: MediaTab[]): Promise<void> {
+    const state = await storage.getState();
+    if (JSON.stringify(mediaTabs) !== JSON.stringify(state.mediaTabs)) {
+      await closeOutSpan();
+      await storage.updateState({ mediaTabs });
+    }
+  }
+
+  /**
+   * Log tracked time to the local visit history. History failures never stop tracking.
+   */
+  async function logVisitTime(allocation: SpanAllocation, start: number, end: number): Promise<void> {
+    try {
+      // Time spanning midnight is split so each part lands in its own local day
+      for (const part of splitByDay(start, end, getTimeZone())) {
+        await sink.recordVisit({
+          domain: allocation.domain,
+          path: normalizeUrl(allocation.url)?.path ?? null,
+          category: allocation.category.id,
+          side: getCategorySide(allocation.category),
+          ...part,
+          tabId: allocation.tabId,
+          windowId: allocation.windowId,
+          media: allocation.media,
+        });
+      }
+    } catch (error) {
+      console.error('Error recording visit history:', error);
+    }
+  }
+
+  /**
+   * Add a page's time to the daily budgets it counts toward, then report the warning levels reached.
+   * The usage is written first, so a budget's action (e.g. blocking) sees it.
+   */
+  async function creditBudgetTime(allocation: SpanAllocation, start: number, end: number, userId: string): Promise<void> {
+    const state = await storage.getState();
+    const page = { domain: allocation.domain, categoryId: allocation.category.id };
+    let budgetUsage = state.budgetUsage;
+    const warnings: BudgetWarning[] = [];
+    // Time spanning midnight counts toward each day's budget separately
+    for (const part of splitByDay(start, end, getTimeZone())) {
+      const credited = creditBudgets(budgetUsage, getBudgets(), page, part.end - part.start, part.day);
+      budgetUsage = credited.usage;
+      warnings.push(...credited.warnings);
+    }
+    if (budgetUsage === state.budgetUsage) {
+      return;
+    }
+    await storage.updateState({ budgetUsage });
+    for (const warning of warnings) {
+      await sink
+        .reachBudgetWarning(warning, userId)
+        .catch((error) => console.error('Error handling budget warning:', error));
+    }
+  }
+
+  /**
+   * Earn (productive pages) or spend (unproductive pages) scroll credits for a page's time, then
+   * report the balance running out
+   */
+  async function creditScrollTime(allocation: SpanAllocation, start: number, end: number, userId: string): Promise<void> {
+    const state = await storage.getState();
+    if (!state.creditSettings.enabled) {
+      return;
+    }
+    const page = { side: getCategorySide(allocation.category), domain: allocation.domain };
+    let credits = state.credits;
+    let ranOut = false;
+    const transactions: CreditTransaction[] = [];
+    // Decay applies at each local midnight, so time spanning one is split there
+    for (const part of splitByDay(start, end, getTimeZone())) {
+      const credited = creditLedger(credits, state.creditSettings, page, part.end - part.start, part.day, part.start);
+      credits = credited.ledger;
+      ranOut = ranOut || credited.ranOut;
+      transactions.push(...credited.transactions);
+    }
+    if (credits === state.credits) {
+      return;
+    }
+    await storage.updateState({ credits });
+    await sink
+      .recordCreditTransactions(transactions)
+      .catch((error) => console.error('Error recording credit transactions:', error));
+    if (ranOut) {
+      await sink.runOutOfCredits(userId).catch((error) => console.error('Error handling empty credit balance:', error));
+    }
+  }
+
+  /**
+   * A tracked page that can be credited with time, or null for untracked/unclassified pages
+   */
+  async function toParticipant(url: string | null, tabId: number | null, windowId: number | null, media: boolean, at: Date): Promise<SpanParticipant | null> {
+    const domain = extractDomain(url ?? undefined);
+    const category = await classifyPage(url, at);
+    return url && domain && category ? { url, domain, category, tabId, windowId, media } : null;
+  }
+
+  /**
+   * Credit a closed-out span of `elapsed` ms ending at `end` to the foreground page and, when
+   * enabled, to audible/media tabs playing behind it (shared per the overlap policy)
+   */
+  async function processTime(state: TrackingState, elapsed: number, end: number): Promise<void> {
+    const spanStart = new Date(end - elapsed);
+    const foreground = state.currentDomain
+      ? await toParticipant(state.currentUrl, state.currentTabId, state.currentWindowId, false, spanStart)
+      : null;
+    const media = state.trackBackgroundMedia
+      ? (
+          await Promise.all(
+            state.mediaTabs
+              .filter((tab) => tab.tabId !== state.currentTabId)
+              .map((tab) => toParticipant(tab.url, tab.tabId, tab.windowId, true, spanStart))
+          )
+        ).filter((participant): participant is SpanParticipant => participant !== null)
+      : [];
+    const allocations = allocateSpan(foreground, media, elapsed, state.mediaOverlapPolicy);
+
+    if (!state.userId || allocations.length === 0) {
+      await storage.updateState({ lastTick: end });
+      return;
+    }
+
+    for (const allocation of allocations) {
+      if (allocation.media) {
+        console.log(`🎵 Crediting ${Math.round(allocation.ms / 1000)}s to media tab ${allocation.domain} (${allocation.category.name})`);
+      }
+      // Re-read between allocations: crediting one can reset counters (e.g. after a call)
+      await creditTime(await storage.getState(), allocation, end - elapsed, end);
+    }
+  }
+
+  /**
+   * Reset productive time to 0 after a call is placed, so the counter starts the next cycle
+   */
+  async function resetAfterCall(): Promise<void> {
+    const calledAt = now();
+    const rules = getRules();
+    const latestState = await storage.getState();
+    await storage.updateState({
+      lastCallTriggerTime: calledAt,
+      consecutiveProductiveMs: 0,
+      categoryTotals: resetCategoryTotals(latestState.categoryTotals, rules, 'productive'),
+    });
+    const productiveCategories = rules.categories
+      .filter((category) => getCategorySide(category) === 'productive')
+      .map((category) => category.id);
+    await sink
+      .recordCounterResets([
+        { time: calledAt, counter: 'consecutiveProductive' },
+        { time: calledAt, counter: 'categoryTotals', categories: productiveCategories },
+      ])
+      .catch((error) => console.error('Error recording counter reset:', error));
+
+    console.log('✅ Productive time reset to 0');
+    console.log('✅ Counter will start accumulating again for the next cycle');
+  }
+
+  /**
+   * Add one page's share of a span to the counters and run the productive/unproductive triggers
+   */
+  async function creditTime(state: TrackingState, allocation: SpanAllocation, start: number, end: number): Promise<void> {
+    const { category, ms: elapsed } = allocation;
+    const classification = getCategorySide(category);
+    const userId = state.userId!;
+
+    await logVisitTime(allocation, start, start + elapsed);
+    if (state.focusSession) {
+      const focusSession = creditFocusSession(state.focusSession, classification, allocation.domain, elapsed, start, end);
+      if (focusSession !== state.focusSession) {
+        await storage.updateState({ focusSession });
+      }
+    }
+    await creditBudgetTime(allocation, start, start + elapsed, userId);
+    await creditScrollTime(allocation, start, start + elapsed, userId);
+    await sink
+      .recordUsage({ userId, domain: allocation.domain, category: category.id, side: classification, start, end: start + elapsed })
+      .catch((error) => console.error('Error recording usage:', error));
+
+    const categoryTotals = {
+      ...state.categoryTotals,
+      [category.id]: (state.categoryTotals[category.id] || 0) + elapsed,
+    };
+
+    if (classification === 'productive') {
+      const newConsecutive = state.consecutiveProductiveMs + elapsed;
+
+      // Check if we've reached or exceeded the AI call trigger threshold (2 minutes = 120 seconds)
+      // Trigger immediately when threshold is reached, even if we jumped past it
+      const previousConsecutive = state.consecutiveProductiveMs;
+      const previousSeconds = Math.floor(previousConsecutive / 1000);
+      const newSeconds = Math.floor(newConsecutive / 1000);
+      const hasReachedThreshold = newConsecutive >= AI_CALL_TRIGGER_MS;
+      const wasBelowThreshold = previousConsecutive < AI_CALL_TRIGGER_MS;
+      const isRetryDue = state.streakEscalationRetryAt !== null && end >= state.streakEscalationRetryAt;
+      let streakEscalationRetryAt = state.streakEscalationRetryAt;
+
+      // Log progress every 10 seconds for debugging
+      if (newSeconds > 0 && newSeconds % 10 === 0 && previousSeconds < newSeconds) {
+        console.log(`⏱️ Productive time: ${newSeconds}s / 120s (${Math.floor((newConsecutive / AI_CALL_TRIGGER_MS) * 100)}%)`);
+      }
+
+      // Trigger if we just crossed the threshold OR if an escalation held back earlier in this
+      // streak is due again. This ensures immediate triggering as soon as we hit 2 minutes
+      if (hasReachedThreshold && (wasBelowThreshold || isRetryDue)) {
+        // Trigger AI agent call immediately when productive time reaches 2 minutes
+        const productiveSeconds = Math.floor(newConsecutive / 1000);
+        console.log(`🚀🚀🚀 PRODUCTIVE TIME REACHED ${productiveSeconds} SECONDS (2 MINUTES) 🚀🚀🚀`);
+        console.log(`   Previous: ${previousSeconds}s, New: ${newSeconds}s`);
+        console.log(`   Threshold: ${AI_CALL_TRIGGER_MS}ms (${AI_CALL_TRIGGER_MS / 1000}s)`);
+        console.log(`   Triggering AI agent call NOW...`);
+
+        let attempt: CallAttempt = { placed: false, retryAt: null };
+        try {
+          attempt = await sink.placeCall(userId);
+          console.log(`✅ placeCall() completed`);
+        } catch (error) {
+          console.error(`❌ ERROR in placeCall():`, error);
+          console.error(`   Error details:`, error instanceof Error ? error.message : String(error));
+          console.error(`   Error stack:`, error instanceof Error ? error.stack : 'No stack trace');
+        }
+
+        // The reset replaces the counters; writing the pre-call counters below would undo it
+        // (and the reset logged to the history)
+        if (attempt.placed) {
+          await resetAfterCall();
+          await storage.updateState({ lastTick: end, streakEscalationRetryAt: null });
+          return;
+        }
+        streakEscalationRetryAt = attempt.retryAt;
+        if (attempt.retryAt !== null) {
+          console.log(`⏳ Escalation didn't go out, trying again at ${new Date(attempt.retryAt).toLocaleTimeString()}`);
+        }
+      }
+
+      // IMPORTANT: Do NOT reset consecutiveProductiveMs automatically
+      // It should only reset when:
+      // 1. Call is initiated (handled in resetAfterCall)
+      // 2. Update Leaderboard button is pressed (handled in popup)
+      // 3. User switches to unproductive domain (handled in updateDomain)
+
+      // Still record productive trigger at 60s for database tracking, but don't reset counter
+      if (newConsecutive >= PRODUCTIVE_TRIGGER_MS && previousConsecutive < PRODUCTIVE_TRIGGER_MS) {
+        await sink.recordProductiveTrigger(allocation.domain, newConsecutive, userId);
+      }
+
+      // Always update the counter and total (no reset)
+      await storage.updateState({
+        consecutiveProductiveMs: newConsecutive,
+        categoryTotals,
+        streakEscalationRetryAt,
+        lastTick: end,
+      });
+    } else if (classification === 'unproductive') {
+      // Unproductive time since the last switch from productive; uploads go through recordUsage
+      await storage.updateState({
+        unproductiveMsBuffer: state.unproductiveMsBuffer + elapsed,
+        categoryTotals,
+        lastTick: end,
+      });
+    } else {
+      // Neutral category - counts toward its own total but neither side
+      await storage.updateState({ categoryTotals, lastTick: end });
+    }
+  }
+
+  return { closeOutSpan, updateDomain, setWindowFocused, setIdleState, setMediaTabs, getThresholdTime };
+}
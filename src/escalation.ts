@@ -0,0 +1,225 @@
+/**
+ * Escalation channels
+ *
+ * When a trigger fires (a productive streak, a used-up budget, running out of scroll credits),
+ * each channel the user chose for that trigger is tried: a local browser notification, a JSON
+ * webhook (Slack, Discord or plain JSON), or an SMS, email or voice call to the accountability
+ * contact. SMS, email and calls go through the api/ functions, which look up the contact and hold
+ * the provider credentials. Channels take their I/O (fetch, the access token, notifications) as
+ * parameters and report a uniform EscalationResult, so each can run against a local stand-in
+ * server (see escalation-stand-in.js). Whether a trigger escalates at all is up to the policy
+ * (see escalationPolicy.ts).
+ */
+import { validateEscalationPolicy, type EscalationDecision, type EscalationPolicy } from './escalationPolicy';
+import { getEscalationLog, setEscalationLog } from './storage';
+
+export type EscalationTrigger = 'productiveStreak' | 'budget' | 'credits' | 'test';
+export type EscalationChannelType = 'notification' | 'webhook' | 'sms' | 'email' | 'voice';
+export type WebhookFormat = 'slack' | 'discord' | 'json';
+
+export const ESCALATION_CHANNEL_TYPES: EscalationChannelType[] = ['notification', 'webhook', 'sms', 'email', 'voice'];
+
+const MAX_ESCALATION_LOG_ENTRIES = 100;
+
+export interface EscalationSettings {
+  // Channels tried for each trigger (tests pick their channel explicitly)
+  channels: Record<Exclude<EscalationTrigger, 'test'>, EscalationChannelType[]>;
+  webhook: { url: string; format: WebhookFormat };
+  policy: EscalationPolicy;
+}
+
+export interface Escalation {
+  trigger: EscalationTrigger;
+  title: string;
+  message: string;
+  at: number;
+}
+
+export type EscalationErrorCode = 'notConfigured' | 'notSignedIn' | 'noRecipient' | 'rateLimited' | 'failed';
+
+export type EscalationResult =
+  | { channel: EscalationChannelType; ok: true; reference?: string } // Call SID, message id...
+  | { channel: EscalationChannelType; ok: false; code: EscalationErrorCode; error: string; retryAfterSeconds?: number };
+
+export interface EscalationLogEntry extends Escalation {
+  id: string;
+  decision: EscalationDecision;
+  results: EscalationResult[]; // Empty when the policy held the escalation back
+}
+
+/**
+ * What the channels need from the browser (or from a test harness)
+ */
+export interface EscalationDeps {
+  fetch: typeof fetch;
+  apiBaseUrl: string; // Deployment serving api/initiate-call and api/escalate
+  getAccessToken: () => Promise<string | null>; // Supabase access token of the signed-in user
+  notify: (id: string, title: string, message: string) => void;
+}
+
+export interface EscalationChannel {
+  type: EscalationChannelType;
+  send(escalation: Escalation, settings: EscalationSettings, deps: EscalationDeps): Promise<EscalationResult>;
+}
+
+function failure(
+  channel: EscalationChannelType,
+  code: EscalationErrorCode,
+  error: string,
+  retryAfterSeconds?: number
+): EscalationResult {
+  return { channel, ok: false, code, error, ...(retryAfterSeconds !== undefined && { retryAfterSeconds }) };
+}
+
+/**
+ * POST to one of the api/ functions as the signed-in user, mapping its status codes to results
+ */
+async function postToApi(
+  channel: EscalationChannelType,
+  path: string,
+  body: Record<string, unknown>,
+  deps: EscalationDeps
+): Promise<EscalationResult> {
+  if (!deps.apiBaseUrl) {
+    return failure(channel, 'notConfigured', 'API base URL not configured. Please set VITE_API_BASE_URL in .env file.');
+  }
+  const accessToken = await deps.getAccessToken();
+  if (!accessToken) {
+    return failure(channel, 'notSignedIn', 'You must be logged in.');
+  }
+
+  const response = await deps.fetch(`${deps.apiBaseUrl}${path}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+  const result = await response.json().catch(() => ({}));
+  if (response.ok) {
+    return { channel, ok: true, reference: result.callSid ?? result.id };
+  }
+
+  const error = typeof result.error === 'string' ? result.error : `Request failed (${response.status})`;
+  switch (response.status) {
+    case 401:
+      return failure(channel, 'notSignedIn', error);
+    case 404:
+      return failure(channel, 'noRecipient', error);
+    case 429:
+      return failure(channel, 'rateLimited', error, typeof result.retryAfterSeconds === 'number' ? result.retryAfterSeconds : undefined);
+    default:
+      return failure(channel, 'failed', error);
+  }
+}
+
+/**
+ * Webhook payload: Slack and Discord incoming webhooks take a single text field, plain JSON gets
+ * the whole escalation
+ */
+function formatWebhookPayload(escalation: Escalation, format: WebhookFormat): Record<string, unknown> {
+  switch (format) {
+    case 'slack':
+      return { text: `*${escalation.title}*\n${escalation.message}` };
+    case 'discord':
+      return { content: `**${escalation.title}**\n${escalation.message}` };
+    case 'json':
+      return { ...escalation, at: new Date(escalation.at).toISOString() };
+  }
+}
+
+export const ESCALATION_CHANNELS: Record<EscalationChannelType, EscalationChannel> = {
+  notification: {
+    type: 'notification',
+    async send(escalation, _settings, deps) {
+      deps.notify(`escalation-${escalation.trigger}`, escalation.title, escalation.message);
+      return { channel: 'notification', ok: true };
+    },
+  },
+  webhook: {
+    type: 'webhook',
+    async send(escalation, settings, deps) {
+      if (!settings.webhook.url) {
+        return failure('webhook', 'notConfigured', 'No webhook URL set.');
+      }
+      const response = await deps.fetch(settings.webhook.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formatWebhookPayload(escalation, settings.webhook.format)),
+      });
+      if (!response.ok) {
+        const text = await response.text().catch(() => '');
+        return failure('webhook', 'failed', `Webhook responded ${response.status}${text ? `: ${text.substring(0, 200)}` : ''}`);
+      }
+      return { channel: 'webhook', ok: true };
+    },
+  },
+  sms: {
+    type: 'sms',
+    send: (escalation, _settings, deps) =>
+      postToApi('sms', '/api/escalate', { channel: 'sms', trigger: escalation.trigger, title: escalation.title, message: escalation.message }, deps),
+  },
+  email: {
+    type: 'email',
+    send: (escalation, _settings, deps) =>
+      postToApi('email', '/api/escalate', { channel: 'email', trigger: escalation.trigger, title: escalation.title, message: escalation.message }, deps),
+  },
+  voice: {
+    type: 'voice',
+    send: (escalation, _settings, deps) => postToApi('voice', '/api/initiate-call', { trigger: escalation.trigger }, deps),
+  },
+};
+
+/**
+ * Check escalation settings from the popup; returns an error message, or null
+ */
+export function validateEscalationSettings(settings: EscalationSettings): string | null {
+  const usesWebhook = Object.values(settings.channels).some((channels) => channels.includes('webhook'));
+  if (usesWebhook || settings.webhook.url) {
+    try {
+      const url = new URL(settings.webhook.url);
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        return 'Webhook URL must start with https://';
+      }
+    } catch {
+      return 'Enter a valid webhook URL';
+    }
+  }
+  return validateEscalationPolicy(settings.policy);
+}
+
+/**
+ * Try each channel in turn. A channel that throws (e.g. the network is down) is reported as
+ * failed; nothing here throws.
+ */
+export async function runEscalation(
+  escalation: Escalation,
+  channels: EscalationChannelType[],
+  settings: EscalationSettings,
+  deps: EscalationDeps
+): Promise<EscalationResult[]> {
+  const results: EscalationResult[] = [];
+  for (const channel of channels) {
+    try {
+      results.push(await ESCALATION_CHANNELS[channel].send(escalation, settings, deps));
+    } catch (error) {
+      results.push(failure(channel, 'failed', error instanceof Error ? error.message : String(error)));
+    }
+  }
+  return results;
+}
+
+/**
+ * Keep an escalation, the policy's decision and the results in the local log (most recent first)
+ */
+export async function recordEscalation(
+  escalation: Escalation,
+  decision: EscalationDecision,
+  results: EscalationResult[]
+): Promise<EscalationLogEntry> {
+  const entry: EscalationLogEntry = { id: crypto.randomUUID(), ...escalation, decision, results };
+  const log = await getEscalationLog();
+  await setEscalationLog([entry, ...log].slice(0, MAX_ESCALATION_LOG_ENTRIES));
+  return entry;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { EscalationChannelType } from './escalation';
+import {
+  DEFAULT_ESCALATION_POLICY,
+  decideEscalation,
+  getNextEscalationTime,
+  type EscalationCount,
+  type EscalationDecision,
+  type EscalationPolicy,
+} from './escalationPolicy';
+
+const TIME_ZONE = 'Europe/Berlin';
+// Berlin is UTC+1 in January
+const berlin = (day: number, hours: number, minutes = 0) => Date.UTC(2024, 0, day, hours - 1, minutes);
+
+const policy = DEFAULT_ESCALATION_POLICY; // 5 min cooldown, 10 a day, quiet 22:00–07:00
+const withTiers: EscalationPolicy = { ...policy, tiers: true };
+const noQuietHours: EscalationPolicy = { ...policy, quietHours: { ...policy.quietHours, enabled: false } };
+
+const count = (day: string | null, escalations: number): EscalationCount => ({ day, count: escalations });
+const none = count(null, 0);
+
+// Reasons with a time of day are locale-formatted, so those are matched by their start
+type ExpectedDecision = Omit<EscalationDecision, 'reason'> & { reason: string | RegExp };
+
+describe('decideEscalation', () => {
+  it.each<[string, EscalationPolicy, EscalationChannelType[], number, number, EscalationCount, ExpectedDecision]>([
+    ['no channels chosen', policy, [], berlin(15, 12), 0, none, { allowed: false, reason: 'No channels chosen for this trigger', tier: null, channels: [] }],
+    ['late evening is quiet', policy, ['voice'], berlin(15, 23, 30), 0, none, { allowed: false, reason: /^Quiet hours \(22:00–07:00\) until /, tier: null, channels: [] }],
+    ['quiet hours run past midnight', policy, ['voice'], berlin(16, 6, 59), 0, none, { allowed: false, reason: /^Quiet hours/, tier: null, channels: [] }],
+    ['quiet hours end is exclusive', policy, ['voice'], berlin(16, 7), 0, none, { allowed: true, reason: 'Allowed (1 of 10 today)', tier: null, channels: ['voice'] }],
+    ['daily cap reached', policy, ['voice'], berlin(15, 12), 0, count('2024-01-15', 10), { allowed: false, reason: 'Daily cap of 10 escalations reached', tier: null, channels: [] }],
+    ["yesterday's count doesn't apply", policy, ['voice'], berlin(15, 12), 0, count('2024-01-14', 10), { allowed: true, reason: 'Allowed (1 of 10 today)', tier: null, channels: ['voice'] }],
+    ['within the cooldown', policy, ['voice'], berlin(15, 12), berlin(15, 11, 58), count('2024-01-15', 1), { allowed: false, reason: /^Cooldown of 5 min until /, tier: null, channels: [] }],
+    ['cooldown over', policy, ['sms', 'voice'], berlin(15, 12), berlin(15, 11, 55), count('2024-01-15', 3), { allowed: true, reason: 'Allowed (4 of 10 today)', tier: null, channels: ['sms', 'voice'] }],
+    [
+      'first of the day with tiers only notifies',
+      withTiers,
+      ['sms', 'voice'],
+      berlin(15, 12),
+      0,
+      none,
+      { allowed: true, reason: 'Tier 1 (notify), holding back sms, voice', tier: 1, channels: ['notification'] },
+    ],
+    [
+      'second of the day may message',
+      withTiers,
+      ['webhook', 'sms', 'voice'],
+      berlin(15, 12),
+      0,
+      count('2024-01-15', 1),
+      { allowed: true, reason: 'Tier 2 (message), holding back voice', tier: 2, channels: ['webhook', 'sms'] },
+    ],
+    ['from the third on the contact may be called', withTiers, ['voice'], berlin(15, 12), 0, count('2024-01-15', 5), { allowed: true, reason: 'Tier 3 (call)', tier: 3, channels: ['voice'] }],
+  ])('%s', (_name, currentPolicy, chosen, now, lastEscalationAt, escalations, expected) => {
+    const decision = decideEscalation(chosen, { policy: currentPolicy, lastEscalationAt, escalations, now, timeZone: TIME_ZONE });
+    expect(decision).toEqual({ ...expected, reason: typeof expected.reason === 'string' ? expected.reason : expect.stringMatching(expected.reason) });
+  });
+});
+
+describe('getNextEscalationTime', () => {
+  it.each<[string, EscalationPolicy, number, number, EscalationCount, number]>([
+    ['allowed now', policy, berlin(15, 12), 0, none, berlin(15, 12)],
+    ['end of the cooldown', policy, berlin(15, 12), berlin(15, 11, 58), count('2024-01-15', 1), berlin(15, 12, 3)],
+    ['quiet hours over midnight end in the morning', policy, berlin(15, 23, 30), 0, none, berlin(16, 7)],
+    ['a cooldown ending in quiet hours waits for the morning', policy, berlin(15, 21, 58), berlin(15, 21, 58), count('2024-01-15', 1), berlin(16, 7)],
+    ['a reached cap rolls over to the next day, after its quiet hours', policy, berlin(15, 12), 0, count('2024-01-15', 10), berlin(16, 7)],
+    ['a reached cap rolls over at local midnight without quiet hours', noQuietHours, berlin(15, 12), 0, count('2024-01-15', 10), berlin(16, 0)],
+    ['a cooldown past midnight lands in a fresh day', noQuietHours, berlin(15, 23, 58), berlin(15, 23, 58), count('2024-01-15', 10), berlin(16, 0, 3)],
+    [
+      'daytime quiet hours',
+      { ...policy, quietHours: { enabled: true, start: '12:00', end: '14:00' } },
+      berlin(15, 13, 15),
+      0,
+      none,
+      berlin(15, 14),
+    ],
+  ])('%s', (_name, currentPolicy, now, lastEscalationAt, escalations, expected) => {
+    const next = getNextEscalationTime({ policy: currentPolicy, lastEscalationAt, escalations, now, timeZone: TIME_ZONE });
+    expect(new Date(next).toISOString()).toBe(new Date(expected).toISOString());
+    // Whatever it returns, the policy allows an escalation then
+    expect(decideEscalation(['voice'], { policy: currentPolicy, lastEscalationAt, escalations, now: next, timeZone: TIME_ZONE }).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Escalation policy
+ *
+ * Decides whether a trigger may escalate and through which of its chosen channels: not during
+ * quiet hours, not before the cooldown since the last escalation has passed, and not past the
+ * daily cap. With severity tiers on, each day starts gently: the first escalation only notifies
+ * (browser notification, webhook), the second may also message (SMS, email) and from the third on
+ * the contact may be called. Every decision carries its reason for the escalation log.
+ */
+import { getDayKey, getNextDayStart, type DayKey } from './calendar';
+import type { EscalationChannelType } from './escalation';
+import { getZonedTime, parseTimeOfDay } from './schedule';
+
+export type EscalationTier = 1 | 2 | 3;
+
+export const AI_CALL_COOLDOWN_MS = 300000; // 5 minutes cooldown between escalations by default
+export const MAX_COOLDOWN_MINUTES = 24 * 60;
+
+export const CHANNEL_TIERS: Record<EscalationChannelType, EscalationTier> = {
+  notification: 1,
+  webhook: 1,
+  sms: 2,
+  email: 2,
+  voice: 3,
+};
+
+export const TIER_LABELS: Record<EscalationTier, string> = {
+  1: 'notify',
+  2: 'message',
+  3: 'call',
+};
+
+export interface EscalationPolicy {
+  cooldownMinutes: number; // Since the last escalation that went out
+  maxPerDay: number; // Escalations that went out per local day
+  quietHours: { enabled: boolean; start: string; end: string }; // Local "HH:MM"; an end before the start runs past midnight
+  tiers: boolean; // Notify first, then message, then call
+}
+
+export const DEFAULT_ESCALATION_POLICY: EscalationPolicy = {
+  cooldownMinutes: AI_CALL_COOLDOWN_MS / 60000,
+  maxPerDay: 10,
+  quietHours: { enabled: true, start: '22:00', end: '07:00' },
+  tiers: false,
+};
+
+/**
+ * Escalations that went out on a local day (kept in TrackingState, with the time of the last one
+ * in lastCallTriggerTime)
+ */
+export interface EscalationCount {
+  day: DayKey | null;
+  count: number;
+}
+
+export interface EscalationDecision {
+  allowed: boolean;
+  reason: string;
+  tier: EscalationTier | null; // With severity tiers on
+  channels: EscalationChannelType[]; // Channels to try (none when not allowed)
+}
+
+interface PolicyInput {
+  policy: EscalationPolicy;
+  lastEscalationAt: number;
+  escalations: EscalationCount;
+  now: number;
+  timeZone: string;
+}
+
+function getCountToday(escalations: EscalationCount, now: number, timeZone: string): number {
+  return escalations.day === getDayKey(now, timeZone) ? escalations.count : 0;
+}
+
+function formatTime(time: number): string {
+  return new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * Check a policy from the popup; returns an error message, or null
+ */
+export function validateEscalationPolicy(policy: EscalationPolicy): string | null {
+  if (!Number.isFinite(policy.cooldownMinutes) || policy.cooldownMinutes < 0 || policy.cooldownMinutes > MAX_COOLDOWN_MINUTES) {
+    return `Cooldown must be between 0 and ${MAX_COOLDOWN_MINUTES} minutes`;
+  }
+  if (!Number.isInteger(policy.maxPerDay) || policy.maxPerDay < 1) {
+    return 'Allow at least 1 escalation a day';
+  }
+  if (policy.quietHours.enabled) {
+    const start = parseTimeOfDay(policy.quietHours.start);
+    const end = parseTimeOfDay(policy.quietHours.end);
+    if (start === null || end === null) return 'Quiet hours must be in HH:MM format';
+    if (start === end) return 'Quiet hours must start and end at different times';
+  }
+  return null;
+}
+
+/**
+ * When the quiet hours around `now` end, or null if it isn't quiet time
+ */
+export function getQuietHoursEnd(policy: EscalationPolicy, now: number, timeZone: string): number | null {
+  const start = parseTimeOfDay(policy.quietHours.start);
+  const end = parseTimeOfDay(policy.quietHours.end);
+  if (!policy.quietHours.enabled || start === null || end === null || start === end) {
+    return null;
+  }
+  const { minutes } = getZonedTime(new Date(now), timeZone);
+  const quiet = start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+  if (!quiet) {
+    return null;
+  }
+  const minutesLeft = (end - minutes + 24 * 60) % (24 * 60);
+  // Rounded down to the minute, like the time of day it was computed from
+  return Math.floor(now / 60000) * 60000 + minutesLeft * 60000;
+}
+
+/**
+ * The earliest time from `now` on at which an escalation would be allowed
+ */
+export function getNextEscalationTime({ policy, lastEscalationAt, escalations, now, timeZone }: PolicyInput): number {
+  let time = Math.max(now, lastEscalationAt + policy.cooldownMinutes * 60000);
+  // Each step only moves forward; a couple of rounds settle a cap and quiet hours at midnight
+  for (let round = 0; round < 3; round++) {
+    if (getCountToday(escalations, time, timeZone) >= policy.maxPerDay) {
+      time = getNextDayStart(time, timeZone);
+    }
+    time = getQuietHoursEnd(policy, time, timeZone) ?? time;
+  }
+  return time;
+}
+
+/**
+ * Decide whether a trigger may escalate now and through which of the channels chosen for it
+ */
+export function decideEscalation(chosen: EscalationChannelType[], input: PolicyInput): EscalationDecision {
+  const { policy, lastEscalationAt, escalations, now, timeZone } = input;
+  const denied = (reason: string): EscalationDecision => ({ allowed: false, reason, tier: null, channels: [] });
+
+  if (chosen.length === 0) {
+    return denied('No channels chosen for this trigger');
+  }
+
+  const quietEnd = getQuietHoursEnd(policy, now, timeZone);
+  if (quietEnd !== null) {
+    return denied(`Quiet hours (${policy.quietHours.start}–${policy.quietHours.end}) until ${formatTime(quietEnd)}`);
+  }
+  const countToday = getCountToday(escalations, now, timeZone);
+  if (countToday >= policy.maxPerDay) {
+    return denied(`Daily cap of ${policy.maxPerDay} escalations reached`);
+  }
+  const cooldownEnd = lastEscalationAt + policy.cooldownMinutes * 60000;
+  if (now < cooldownEnd) {
+    return denied(`Cooldown of ${policy.cooldownMinutes} min until ${formatTime(cooldownEnd)}`);
+  }
+
+  if (!policy.tiers) {
+    return { allowed: true, reason: `Allowed (${countToday + 1} of ${policy.maxPerDay} today)`, tier: null, channels: chosen };
+  }
+  const tier = Math.min(3, countToday + 1) as EscalationTier;
+  const withinTier = chosen.filter((channel) => CHANNEL_TIERS[channel] <= tier);
+  // Nothing chosen is mild enough yet: a local notification still tells the user
+  const channels: EscalationChannelType[] = withinTier.length > 0 ? withinTier : ['notification'];
+  const held = chosen.filter((channel) => !withinTier.includes(channel));
+  return {
+    allowed: true,
+    reason: `Tier ${tier} (${TIER_LABELS[tier]})${held.length > 0 ? `, holding back ${held.join(', ')}` : ''}`,
+    tier,
+    channels,
+  };
+}
+
+/**
+ * Count an escalation that went out at `at`
+ */
+export function countEscalation(escalations: EscalationCount, at: number, timeZone: string): EscalationCount {
+  const day = getDayKey(at, timeZone);
+  return { day, count: escalations.day === day ? escalations.count + 1 : 1 };
+}
@@ -0,0 +1,179 @@
+/**
+ * Focus sessions (Pomodoro mode)
+ *
+ * The user starts a session from the popup with a work length, a break length and an optional
+ * goal. The background runs work -> break through a `focusPhase` alarm; while the work phase runs,
+ * credited time is also added to the session, with unproductive time broken down by domain. When
+ * the work phase ends the session is complete and its report is kept locally and recorded to
+ * Supabase.
+ */
+import type { CategorySide } from './classify';
+import { getFocusReports, setFocusReports } from './storage';
+
+export type FocusPhase = 'work' | 'break';
+
+export const DEFAULT_FOCUS_WORK_MINUTES = 25;
+export const DEFAULT_FOCUS_BREAK_MINUTES = 5;
+export const MAX_FOCUS_MINUTES = 180;
+const MAX_FOCUS_REPORTS = 20;
+
+export interface FocusDistraction {
+  domain: string;
+  ms: number;
+  visits: number; // Times an unproductive page on this domain was opened during the session
+}
+
+export interface FocusSession {
+  id: string;
+  goal: string;
+  workMinutes: number;
+  breakMinutes: number;
+  phase: FocusPhase;
+  startedAt: number;
+  workEndsAt: number;
+  phaseEndsAt: number;
+  // Time credited during the work phase, per side
+  productiveMs: number;
+  unproductiveMs: number;
+  neutralMs: number;
+  distractions: FocusDistraction[];
+}
+
+export interface FocusReport {
+  id: string;
+  goal: string;
+  workMinutes: number;
+  breakMinutes: number;
+  startedAt: number;
+  endedAt: number;
+  completed: boolean; // False if stopped before the work phase ended
+  productiveMs: number;
+  unproductiveMs: number;
+  neutralMs: number;
+  focusPercentage: number | null; // Productive share of tracked time, null if nothing was tracked
+  distractions: FocusDistraction[]; // Most time first
+}
+
+export interface FocusSessionOptions {
+  workMinutes: number;
+  breakMinutes: number;
+  goal: string;
+}
+
+/**
+ * Check the popup's session options; throws with a message the popup can show
+ */
+export function validateFocusOptions({ workMinutes, breakMinutes }: FocusSessionOptions): void {
+  if (!Number.isFinite(workMinutes) || workMinutes < 1 || workMinutes > MAX_FOCUS_MINUTES) {
+    throw new Error(`Work length must be between 1 and ${MAX_FOCUS_MINUTES} minutes`);
+  }
+  if (!Number.isFinite(breakMinutes) || breakMinutes < 0 || breakMinutes > MAX_FOCUS_MINUTES) {
+    throw new Error(`Break length must be between 0 and ${MAX_FOCUS_MINUTES} minutes`);
+  }
+}
+
+export function createFocusSession(options: FocusSessionOptions, now: number): FocusSession {
+  validateFocusOptions(options);
+  const workEndsAt = now + options.workMinutes * 60000;
+  return {
+    id: crypto.randomUUID(),
+    goal: options.goal.trim(),
+    workMinutes: options.workMinutes,
+    breakMinutes: options.breakMinutes,
+    phase: 'work',
+    startedAt: now,
+    workEndsAt,
+    phaseEndsAt: workEndsAt,
+    productiveMs: 0,
+    unproductiveMs: 0,
+    neutralMs: 0,
+    distractions: [],
+  };
+}
+
+/**
+ * Add a page's share of the span [start, end] to the session. Only the part of the span inside
+ * the work phase counts; returns the session unchanged when none of it does.
+ */
+export function creditFocusSession(
+  session: FocusSession,
+  side: CategorySide,
+  domain: string,
+  ms: number,
+  start: number,
+  end: number
+): FocusSession {
+  if (session.phase !== 'work' || end <= start) {
+    return session;
+  }
+  const overlap = Math.min(end, session.workEndsAt) - Math.max(start, session.startedAt);
+  if (overlap <= 0) {
+    return session;
+  }
+  // A media allocation can be a share of the span; keep the same share of the overlap
+  const credited = Math.round((ms * overlap) / (end - start));
+
+  if (side === 'productive') {
+    return { ...session, productiveMs: session.productiveMs + credited };
+  }
+  if (side === 'neutral') {
+    return { ...session, neutralMs: session.neutralMs + credited };
+  }
+  return {
+    ...session,
+    unproductiveMs: session.unproductiveMs + credited,
+    distractions: updateDistraction(session.distractions, domain, (entry) => ({ ...entry, ms: entry.ms + credited })),
+  };
+}
+
+/**
+ * Count a switch to an unproductive page during the work phase
+ */
+export function recordFocusDistraction(session: FocusSession, domain: string, at: number): FocusSession {
+  if (session.phase !== 'work' || at >= session.workEndsAt) {
+    return session;
+  }
+  return {
+    ...session,
+    distractions: updateDistraction(session.distractions, domain, (entry) => ({ ...entry, visits: entry.visits + 1 })),
+  };
+}
+
+function updateDistraction(
+  distractions: FocusDistraction[],
+  domain: string,
+  update: (entry: FocusDistraction) => FocusDistraction
+): FocusDistraction[] {
+  const existing = distractions.find((entry) => entry.domain === domain) ?? { domain, ms: 0, visits: 0 };
+  return [...distractions.filter((entry) => entry.domain !== domain), update(existing)];
+}
+
+export function getFocusPercentage(session: Pick<FocusSession, 'productiveMs' | 'unproductiveMs' | 'neutralMs'>): number | null {
+  const tracked = session.productiveMs + session.unproductiveMs + session.neutralMs;
+  return tracked > 0 ? Math.round((session.productiveMs / tracked) * 100) : null;
+}
+
+export function buildFocusReport(session: FocusSession, endedAt: number, completed: boolean): FocusReport {
+  return {
+    id: session.id,
+    goal: session.goal,
+    workMinutes: session.workMinutes,
+    breakMinutes: session.breakMinutes,
+    startedAt: session.startedAt,
+    endedAt,
+    completed,
+    productiveMs: session.productiveMs,
+    unproductiveMs: session.unproductiveMs,
+    neutralMs: session.neutralMs,
+    focusPercentage: getFocusPercentage(session),
+    distractions: [...session.distractions].sort((a, b) => b.ms - a.ms),
+  };
+}
+
+/**
+ * Keep a report for the popup (most recent first)
+ */
+export async function saveFocusReport(report: FocusReport): Promise<void> {
+  const reports = await getFocusReports();
+  await setFocusReports([report, ...reports.filter((existing) => existing.id !== report.id)].slice(0, MAX_FOCUS_REPORTS));
+}
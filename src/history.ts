@@ -0,0 +1,501 @@
+/**
+ * Local activity history stored in IndexedDB
+ *
+ * - Every stretch of tracked time is logged as a visit segment (domain, path, category, tab, window)
+ * - Counter resets are logged as markers, so the TrackingState counters can be rebuilt from the log
+ * - Old segments are compacted into local-hour rollups per domain and category; old rollups expire
+ * - Finished local days (and weeks) are rolled up into per-day totals at midnight
+ */
+
+import { addDays, getDayKey, getDayStart, getHourStart, getWeekStart, type DayKey } from './calendar';
+import type { CategorySide, CategoryTotals } from './classify';
+
+export interface VisitSegment {
+  id?: number;
+  domain: string;
+  path: string | null; // URL path without query string, when known
+  category: string; // Category id
+  side: CategorySide; // Side of the focus score the category counted toward when recorded
+  day: DayKey; // Local day the segment belongs to; segments never cross midnight
+  start: number;
+  end: number;
+  tabId: number | null;
+  windowId: number | null;
+  media?: boolean; // Credited to an audible/media tab playing behind the foreground tab
+}
+
+export interface HourlyRollup {
+  hour: number; // Start of the local hour (ms since epoch), so a day's rollups fall within the day
+  domain: string;
+  category: string;
+  side: CategorySide;
+  ms: number;
+  visits: number; // Segments folded into this rollup
+}
+
+export type ResettableCounter = 'consecutiveProductive' | 'unproductiveBuffer' | 'categoryTotals';
+
+export interface CounterReset {
+  id?: number;
+  time: number;
+  counter: ResettableCounter;
+  categories?: string[]; // categoryTotals only: the category ids reset (all when absent)
+}
+
+export interface HistoryLog {
+  segments: VisitSegment[];
+  rollups: HourlyRollup[];
+  resets: CounterReset[];
+}
+
+/**
+ * Totals for one finished local day, or (for weeks) the days from `start` up to `end`
+ */
+export interface PeriodRollup {
+  day: DayKey; // The day, or the first day of the week
+  timeZone: string;
+  start: number;
+  end: number;
+  categoryTotals: CategoryTotals;
+}
+
+export interface DerivedCounters {
+  categoryTotals: CategoryTotals;
+  consecutiveProductiveMs: number;
+  unproductiveMsBuffer: number;
+}
+
+const DB_NAME = 'scrollify-history';
+const DB_VERSION = 2;
+const SEGMENTS_STORE = 'segments';
+const ROLLUPS_STORE = 'rollups';
+const RESETS_STORE = 'resets';
+const DAYS_STORE = 'days';
+const WEEKS_STORE = 'weeks';
+
+const HOUR_MS = 3600000;
+const DAY_MS = 24 * HOUR_MS;
+const RAW_RETENTION_MS = 14 * DAY_MS; // Segments older than this are compacted into rollups
+const ROLLUP_RETENTION_MS = 365 * DAY_MS; // Rollups and reset markers older than this are deleted
+const MAX_SEGMENTS = 50000; // Compact the oldest segments early past this many
+const MERGE_GAP_MS = 2000; // Time recorded within this gap of an open segment extends it
+const MAX_ROLLOVER_DAYS = 400; // Days materialized in one catch-up after a long absence
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+// Segments currently being extended by this context, per tab (only the background records visits)
+const openSegments = new Map<string, VisitSegment>();
+
+function openSegmentKey(segment: Pick<VisitSegment, 'tabId' | 'media'>): string {
+  return `${segment.tabId}|${Boolean(segment.media)}`;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function openHistoryDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          const segments = db.createObjectStore(SEGMENTS_STORE, { keyPath: 'id', autoIncrement: true });
+          segments.createIndex('start', 'start');
+          const rollups = db.createObjectStore(ROLLUPS_STORE, { keyPath: ['hour', 'domain', 'category'] });
+          rollups.createIndex('hour', 'hour');
+          const resets = db.createObjectStore(RESETS_STORE, { keyPath: 'id', autoIncrement: true });
+          resets.createIndex('time', 'time');
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(DAYS_STORE, { keyPath: 'day' });
+          db.createObjectStore(WEEKS_STORE, { keyPath: 'day' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function isSameVisit(a: VisitSegment, b: Omit<VisitSegment, 'id'>): boolean {
+  return (
+    a.day === b.day &&
+    a.domain === b.domain &&
+    a.path === b.path &&
+    a.category === b.category &&
+    a.side === b.side &&
+    a.tabId === b.tabId &&
+    a.windowId === b.windowId &&
+    Boolean(a.media) === Boolean(b.media)
+  );
+}
+
+/**
+ * Log a stretch of tracked time (callers split it at local midnight). Contiguous time on the same
+ * page and day extends the open segment instead of adding a new one, unless a counter was reset in between.
+ */
+export async function recordVisitTime(visit: Omit<VisitSegment, 'id'>): Promise<void> {
+  const db = await openHistoryDb();
+  const transaction = db.transaction([SEGMENTS_STORE, RESETS_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+  const segments = transaction.objectStore(SEGMENTS_STORE);
+
+  const key = openSegmentKey(visit);
+  const open = openSegments.get(key) ?? null;
+  let extend = open !== null && isSameVisit(open, visit) && visit.start - open.end <= MERGE_GAP_MS;
+  if (extend && open) {
+    // A reset must fall between segments, otherwise the log can't tell which side of it the time was on
+    const resetsSince = await requestToPromise(
+      transaction.objectStore(RESETS_STORE).index('time').count(IDBKeyRange.lowerBound(open.start, true))
+    );
+    extend = resetsSince === 0;
+  }
+
+  if (extend && open) {
+    const extended = { ...open, end: visit.end };
+    openSegments.set(key, extended);
+    segments.put(extended);
+  } else {
+    const id = await requestToPromise(segments.add({ ...visit }));
+    openSegments.set(key, { ...visit, id: id as number });
+  }
+  await done;
+}
+
+/**
+ * Log counter resets (call triggered, leaderboard transfer, sign-out, buffer flush)
+ */
+export async function recordCounterResets(resets: Omit<CounterReset, 'id'>[]): Promise<void> {
+  if (resets.length === 0) return;
+  const db = await openHistoryDb();
+  const transaction = db.transaction(RESETS_STORE, 'readwrite');
+  const store = transaction.objectStore(RESETS_STORE);
+  for (const reset of resets) {
+    store.add({ ...reset });
+  }
+  await transactionDone(transaction);
+  openSegments.clear();
+}
+
+/**
+ * Segments overlapping [from, to), oldest first
+ */
+export async function querySegments(from: number, to: number = Date.now()): Promise<VisitSegment[]> {
+  const db = await openHistoryDb();
+  const transaction = db.transaction(SEGMENTS_STORE, 'readonly');
+  // Segments are short, so starting a day early is enough to catch ones that began before `from`
+  const range = IDBKeyRange.bound(from - DAY_MS, to, false, true);
+  const segments: VisitSegment[] = await requestToPromise(transaction.objectStore(SEGMENTS_STORE).index('start').getAll(range));
+  return segments.filter((segment) => segment.end > from);
+}
+
+/**
+ * The most recent segments, newest first
+ */
+export async function getRecentSegments(limit: number): Promise<VisitSegment[]> {
+  const db = await openHistoryDb();
+  const transaction = db.transaction(SEGMENTS_STORE, 'readonly');
+  const request = transaction.objectStore(SEGMENTS_STORE).index('start').openCursor(null, 'prev');
+  const segments: VisitSegment[] = [];
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor && segments.length < limit) {
+        segments.push(cursor.value);
+        cursor.continue();
+      } else {
+        resolve(segments);
+      }
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Rollups for the hours starting in [from, to)
+ */
+export async function queryRollups(from: number, to: number = Date.now()): Promise<HourlyRollup[]> {
+  const db = await openHistoryDb();
+  const transaction = db.transaction(ROLLUPS_STORE, 'readonly');
+  return requestToPromise(transaction.objectStore(ROLLUPS_STORE).index('hour').getAll(IDBKeyRange.bound(from, to, false, true)));
+}
+
+/**
+ * Everything in the log, for rebuilding counters
+ */
+export async function loadHistoryLog(): Promise<HistoryLog> {
+  const db = await openHistoryDb();
+  const transaction = db.transaction([SEGMENTS_STORE, ROLLUPS_STORE, RESETS_STORE], 'readonly');
+  const [segments, rollups, resets] = await Promise.all([
+    requestToPromise<VisitSegment[]>(transaction.objectStore(SEGMENTS_STORE).getAll()),
+    requestToPromise<HourlyRollup[]>(transaction.objectStore(ROLLUPS_STORE).getAll()),
+    requestToPromise<CounterReset[]>(transaction.objectStore(RESETS_STORE).getAll()),
+  ]);
+  return { segments, rollups, resets };
+}
+
+/**
+ * Time per category between two timestamps, from segments (clipped to the range) and rollups
+ */
+export async function getCategoryTotalsBetween(from: number, to: number = Date.now()): Promise<CategoryTotals> {
+  const [segments, rollups] = await Promise.all([querySegments(from, to), queryRollups(from, to)]);
+  const totals: CategoryTotals = {};
+  for (const segment of segments) {
+    const ms = Math.min(segment.end, to) - Math.max(segment.start, from);
+    if (ms > 0) totals[segment.category] = (totals[segment.category] || 0) + ms;
+  }
+  for (const rollup of rollups) {
+    totals[rollup.category] = (totals[rollup.category] || 0) + rollup.ms;
+  }
+  return totals;
+}
+
+function applyReset(counters: DerivedCounters, reset: CounterReset): void {
+  if (reset.counter === 'consecutiveProductive') {
+    counters.consecutiveProductiveMs = 0;
+  } else if (reset.counter === 'unproductiveBuffer') {
+    counters.unproductiveMsBuffer = 0;
+  } else if (reset.categories) {
+    for (const categoryId of reset.categories) {
+      if (categoryId in counters.categoryTotals) counters.categoryTotals[categoryId] = 0;
+    }
+  } else {
+    counters.categoryTotals = {};
+  }
+}
+
+/**
+ * Rebuild the TrackingState counters by replaying the log. Exact while the raw segments are
+ * kept; once compacted, time within an hour is replayed as one block.
+ */
+export function deriveTrackingCounters(log: HistoryLog): DerivedCounters {
+  const entries = [
+    ...log.rollups.map((rollup) => ({ start: rollup.hour, ms: rollup.ms, category: rollup.category, side: rollup.side })),
+    ...log.segments.map((segment) => ({
+      start: segment.start,
+      ms: segment.end - segment.start,
+      category: segment.category,
+      side: segment.side,
+      media: segment.media,
+    })),
+  ].sort((a, b) => a.start - b.start);
+  const resets = [...log.resets].sort((a, b) => a.time - b.time);
+
+  const counters: DerivedCounters = { categoryTotals: {}, consecutiveProductiveMs: 0, unproductiveMsBuffer: 0 };
+  let previousSide: CategorySide | null = null;
+  let resetIndex = 0;
+  for (const entry of entries) {
+    while (resetIndex < resets.length && resets[resetIndex].time <= entry.start) {
+      applyReset(counters, resets[resetIndex++]);
+    }
+    // Mirrors updateDomain: only a direct switch of the foreground page between the two sides
+    // resets the other side's counter; media tabs never switch anything
+    const isSwitch = !('media' in entry && entry.media);
+    if (entry.side === 'productive') {
+      if (isSwitch && previousSide === 'unproductive') counters.unproductiveMsBuffer = 0;
+      counters.consecutiveProductiveMs += entry.ms;
+    } else if (entry.side === 'unproductive') {
+      if (isSwitch && previousSide === 'productive') counters.consecutiveProductiveMs = 0;
+      counters.unproductiveMsBuffer += entry.ms;
+    }
+    counters.categoryTotals[entry.category] = (counters.categoryTotals[entry.category] || 0) + entry.ms;
+    if (isSwitch) previousSide = entry.side;
+  }
+  while (resetIndex < resets.length) {
+    applyReset(counters, resets[resetIndex++]);
+  }
+  return counters;
+}
+
+function addToRollups(rollups: Map<string, HourlyRollup>, segment: VisitSegment, timeZone: string): void {
+  let start = segment.start;
+  let first = true;
+  // Split at local hour boundaries so each hour holds only its own time
+  while (start < segment.end) {
+    const hour = getHourStart(start, timeZone);
+    const end = Math.min(segment.end, hour + HOUR_MS);
+    const key = `${hour}|${segment.domain}|${segment.category}`;
+    const rollup = rollups.get(key) ?? { hour, domain: segment.domain, category: segment.category, side: segment.side, ms: 0, visits: 0 };
+    rollup.ms += end - start;
+    rollup.visits += first ? 1 : 0;
+    rollups.set(key, rollup);
+    start = end;
+    first = false;
+  }
+}
+
+/**
+ * Fold old segments into rollups of local hours in `timeZone` and drop expired rollups and reset
+ * markers
+ */
+export async function compactHistory(timeZone: string, now: number = Date.now()): Promise<void> {
+  const db = await openHistoryDb();
+  const transaction = db.transaction([SEGMENTS_STORE, ROLLUPS_STORE, RESETS_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+  const segmentStore = transaction.objectStore(SEGMENTS_STORE);
+  const rollupStore = transaction.objectStore(ROLLUPS_STORE);
+
+  const total = await requestToPromise(segmentStore.count());
+  const aged: VisitSegment[] = await requestToPromise(
+    segmentStore.index('start').getAll(IDBKeyRange.upperBound(now - RAW_RETENTION_MS, true))
+  );
+  const excess = total - MAX_SEGMENTS;
+  const toCompact = excess > aged.length
+    ? await requestToPromise<VisitSegment[]>(segmentStore.index('start').getAll(null, excess))
+    : aged;
+
+  const rollups = new Map<string, HourlyRollup>();
+  for (const segment of toCompact) {
+    addToRollups(rollups, segment, timeZone);
+    segmentStore.delete(segment.id!);
+    for (const [key, open] of openSegments) {
+      if (open.id === segment.id) openSegments.delete(key);
+    }
+  }
+  for (const rollup of rollups.values()) {
+    const existing = await requestToPromise<HourlyRollup | undefined>(rollupStore.get([rollup.hour, rollup.domain, rollup.category]));
+    rollupStore.put(existing ? { ...rollup, ms: existing.ms + rollup.ms, visits: existing.visits + rollup.visits } : rollup);
+  }
+
+  const expiry = IDBKeyRange.upperBound(now - ROLLUP_RETENTION_MS, true);
+  const expiredRollups = await requestToPromise(rollupStore.index('hour').getAllKeys(expiry));
+  expiredRollups.forEach((key) => rollupStore.delete(key));
+  const resetStore = transaction.objectStore(RESETS_STORE);
+  const expiredResets = await requestToPromise(resetStore.index('time').getAllKeys(expiry));
+  expiredResets.forEach((key) => resetStore.delete(key));
+
+  await done;
+  if (toCompact.length > 0) {
+    console.log(`🗜️ Compacted ${toCompact.length} visit segments into ${rollups.size} hourly rollups`);
+  }
+}
+
+async function getPeriodRollup(storeName: string, day: DayKey): Promise<PeriodRollup | undefined> {
+  const db = await openHistoryDb();
+  const transaction = db.transaction(storeName, 'readonly');
+  return requestToPromise(transaction.objectStore(storeName).get(day));
+}
+
+async function putPeriodRollup(storeName: string, rollup: PeriodRollup): Promise<void> {
+  const db = await openHistoryDb();
+  const transaction = db.transaction(storeName, 'readwrite');
+  transaction.objectStore(storeName).put(rollup);
+  await transactionDone(transaction);
+}
+
+async function getLastRolledUpDay(): Promise<DayKey | null> {
+  const db = await openHistoryDb();
+  const transaction = db.transaction(DAYS_STORE, 'readonly');
+  const cursor = await requestToPromise(transaction.objectStore(DAYS_STORE).openCursor(null, 'prev'));
+  return cursor ? (cursor.value as PeriodRollup).day : null;
+}
+
+async function getFirstSegmentTime(): Promise<number | null> {
+  const db = await openHistoryDb();
+  const transaction = db.transaction([SEGMENTS_STORE, ROLLUPS_STORE], 'readonly');
+  const [segment, rollup] = await Promise.all([
+    requestToPromise(transaction.objectStore(SEGMENTS_STORE).index('start').openCursor()),
+    requestToPromise(transaction.objectStore(ROLLUPS_STORE).index('hour').openCursor()),
+  ]);
+  const times = [(segment?.value as VisitSegment | undefined)?.start, (rollup?.value as HourlyRollup | undefined)?.hour];
+  const known = times.filter((time): time is number => time !== undefined);
+  return known.length > 0 ? Math.min(...known) : null;
+}
+
+function addTotals(target: CategoryTotals, source: CategoryTotals): CategoryTotals {
+  for (const [categoryId, ms] of Object.entries(source)) {
+    target[categoryId] = (target[categoryId] || 0) + ms;
+  }
+  return target;
+}
+
+/**
+ * Totals for a local day: the stored rollup once the day is over, otherwise live from the log
+ */
+export async function getDayTotals(day: DayKey, timeZone: string, now: number = Date.now()): Promise<CategoryTotals> {
+  const stored = await getPeriodRollup(DAYS_STORE, day);
+  if (stored && stored.timeZone === timeZone) {
+    return stored.categoryTotals;
+  }
+  const start = getDayStart(day, timeZone);
+  const end = Math.min(getDayStart(addDays(day, 1), timeZone), now);
+  return end > start ? getCategoryTotalsBetween(start, end) : {};
+}
+
+/**
+ * Totals for the local week containing `day`, up to now
+ */
+export async function getWeekTotals(day: DayKey, timeZone: string, now: number = Date.now()): Promise<CategoryTotals> {
+  const weekStart = getWeekStart(day);
+  const stored = await getPeriodRollup(WEEKS_STORE, weekStart);
+  if (stored && stored.timeZone === timeZone) {
+    return stored.categoryTotals;
+  }
+  const today = getDayKey(now, timeZone);
+  const totals: CategoryTotals = {};
+  for (let current = weekStart; current < addDays(weekStart, 7) && current <= today; current = addDays(current, 1)) {
+    addTotals(totals, await getDayTotals(current, timeZone, now));
+  }
+  return totals;
+}
+
+/**
+ * Store totals for every local day (and week) that has finished since the last rollover.
+ * Runs at local midnight and on startup, so days missed while the browser was closed are caught up.
+ */
+export async function rollOverDays(timeZone: string, now: number = Date.now()): Promise<DayKey[]> {
+  const today = getDayKey(now, timeZone);
+  const lastDay = await getLastRolledUpDay();
+  const firstTime = lastDay ? null : await getFirstSegmentTime();
+  let day = lastDay ? addDays(lastDay, 1) : firstTime !== null ? getDayKey(firstTime, timeZone) : today;
+  if (day < addDays(today, -MAX_ROLLOVER_DAYS)) {
+    day = addDays(today, -MAX_ROLLOVER_DAYS);
+  }
+
+  const rolledOver: DayKey[] = [];
+  for (; day < today; day = addDays(day, 1)) {
+    const start = getDayStart(day, timeZone);
+    const end = getDayStart(addDays(day, 1), timeZone);
+    await putPeriodRollup(DAYS_STORE, { day, timeZone, start, end, categoryTotals: await getCategoryTotalsBetween(start, end) });
+    rolledOver.push(day);
+  }
+
+  // A week is stored once its last day is
+  const finishedWeeks = new Set(
+    rolledOver.map(getWeekStart).filter((weekStart) => addDays(weekStart, 7) <= today)
+  );
+  for (const weekStart of finishedWeeks) {
+    const totals: CategoryTotals = {};
+    for (let offset = 0; offset < 7; offset++) {
+      addTotals(totals, (await getPeriodRollup(DAYS_STORE, addDays(weekStart, offset)))?.categoryTotals ?? {});
+    }
+    await putPeriodRollup(WEEKS_STORE, {
+      day: weekStart,
+      timeZone,
+      start: getDayStart(weekStart, timeZone),
+      end: getDayStart(addDays(weekStart, 7), timeZone),
+      categoryTotals: totals,
+    });
+  }
+
+  if (rolledOver.length > 0) {
+    console.log(`📅 Rolled over ${rolledOver.length} day(s) up to ${rolledOver[rolledOver.length - 1]}`);
+  }
+  return rolledOver;
+}
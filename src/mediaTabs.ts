@@ -0,0 +1,77 @@
+/**
+ * Per-tab media state reported by the content script, for crediting background media tabs
+ *
+ * Mirrored to chrome.storage.session so the cache survives service worker suspension.
+ */
+import type { MediaTab } from './storage';
+
+/**
+ * What a page is playing, as seen by its content script
+ */
+export interface MediaState {
+  url: string;
+  playing: boolean; // An unmuted audio/video element is playing
+  pictureInPicture: boolean;
+}
+
+const SESSION_KEY = 'mediaStates';
+
+const mediaByTab = new Map<number, MediaState>();
+let restored = false;
+
+async function restoreCache(): Promise<void> {
+  if (restored) return;
+  restored = true;
+  try {
+    const result = await chrome.storage.session.get(SESSION_KEY);
+    const stored: Record<string, MediaState> = result[SESSION_KEY] || {};
+    for (const [tabId, state] of Object.entries(stored)) {
+      if (!mediaByTab.has(Number(tabId))) {
+        mediaByTab.set(Number(tabId), state);
+      }
+    }
+  } catch (error) {
+    console.error('Error restoring media state cache:', error);
+  }
+}
+
+async function persistCache(): Promise<void> {
+  await chrome.storage.session.set({ [SESSION_KEY]: Object.fromEntries(mediaByTab) });
+}
+
+/**
+ * Store media state pushed by a tab's content script
+ */
+export async function cacheMediaState(tabId: number, state: MediaState): Promise<void> {
+  await restoreCache();
+  if (state.playing || state.pictureInPicture) {
+    mediaByTab.set(tabId, state);
+  } else if (!mediaByTab.delete(tabId)) {
+    return;
+  }
+  await persistCache();
+}
+
+export async function forgetMediaTab(tabId: number): Promise<void> {
+  await restoreCache();
+  if (mediaByTab.delete(tabId)) {
+    await persistCache();
+  }
+}
+
+/**
+ * Tabs in any window that are audible, in picture-in-picture or playing unmuted media
+ */
+export async function findMediaTabs(): Promise<MediaTab[]> {
+  await restoreCache();
+  const tabs = await chrome.tabs.query({});
+  return tabs
+    .filter((tab) => {
+      if (tab.id === undefined || !tab.url) return false;
+      const reported = mediaByTab.get(tab.id);
+      // Reported state only counts while the tab still shows the page that reported it
+      const isReportedPlaying = reported?.url === tab.url && (reported.playing || reported.pictureInPicture);
+      return tab.audible || isReportedPlaying;
+    })
+    .map((tab) => ({ tabId: tab.id!, windowId: tab.windowId, url: tab.url! }));
+}
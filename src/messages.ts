@@ -0,0 +1,59 @@
+/**
+ * Typed messages to the background service worker, which owns TrackingState
+ *
+ * The popup never writes the state itself: it sends a command and renders the state the
+ * background writes (delivered through chrome.storage.onChanged). Content scripts report page
+ * signals and media state the same way.
+ */
+
+import type { PageSignals } from './classify';
+import type { EscalationChannelType } from './escalation';
+import type { FocusSessionOptions } from './focus';
+import type { MediaState } from './mediaTabs';
+import type { TrackingSettings, TrackingState } from './storage';
+
+export type BackgroundCommand =
+  // Credit time up to now (e.g. before showing totals)
+  | { type: 'checkpoint' }
+  // `settingsRevision` is the settings the change was made from; rejected if another settings
+  // change landed since (accounting writes in between don't count)
+  | { type: 'updateSettings'; settings: TrackingSettings; settingsRevision?: number }
+  | { type: 'setUserId'; userId: string | null }
+  // Add the current totals to leaderboard_global and zero them
+  | { type: 'transferTime' }
+  // Upload the batched usage aggregates and send queued Supabase writes now
+  | { type: 'flushUsage' }
+  // Credit, upload and send the user's time while the session can still write it, then clear the
+  // user; the popup signs out of Supabase afterwards
+  | { type: 'signOut' }
+  // Queue the outbox's dead letters again and send them, or throw them away
+  | { type: 'retryDeadLetters' }
+  | { type: 'discardDeadLetters' }
+  | { type: 'startFocusSession'; options: FocusSessionOptions }
+  // Ends the running session; a work phase cut short is reported as not completed
+  | { type: 'stopFocusSession' }
+  // Let the page's domain through the blocking interstitial for a few minutes (logged)
+  | { type: 'grantOverride'; url: string }
+  // Send a test escalation through one channel; the result is added to the escalation log
+  | { type: 'testEscalation'; channel: EscalationChannelType }
+  | { type: 'pageSignals'; signals: PageSignals }
+  | { type: 'mediaState'; state: MediaState };
+
+export type CommandResponse =
+  | { ok: true; state: TrackingState }
+  | { ok: false; error: string; stale?: boolean };
+
+/**
+ * Send a command to the background and return the state after it ran.
+ * Throws if the background rejected or failed the command.
+ */
+export async function sendCommand(command: BackgroundCommand): Promise<TrackingState> {
+  const response: CommandResponse | undefined = await chrome.runtime.sendMessage(command);
+  if (!response) {
+    throw new Error(`No response to ${command.type}`);
+  }
+  if (!response.ok) {
+    throw new Error(response.error);
+  }
+  return response.state;
+}
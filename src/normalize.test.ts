@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalizeHost, extractDomain, getRegistrableDomain, getUntrackedReason, normalizeUrl } from './normalize';
+
+describe('canonicalizeHost', () => {
+  it.each([
+    ['Example.COM', 'example.com'],
+    ['www.example.com', 'example.com'],
+    ['example.com.', 'example.com'], // Trailing dot of a fully qualified name
+    ['www.example.com.', 'example.com'],
+    ['bücher.de', 'xn--bcher-kva.de'],
+    ['www.bücher.de', 'xn--bcher-kva.de'],
+    ['xn--bcher-kva.de', 'xn--bcher-kva.de'],
+    ['youtu.be', 'youtube.com'],
+    ['m.youtube.com', 'youtube.com'],
+    ['www.m.youtube.com', 'youtube.com'],
+    ['twitter.com', 'x.com'],
+    ['*.twitter.com', '*.x.com'],
+    ['*.Bücher.de', '*.xn--bcher-kva.de'],
+    ['www.ck', 'www.ck'], // Registrable domain under the "*.ck" wildcard, not a "www." subdomain
+  ])('%s → %s', (input, expected) => {
+    expect(canonicalizeHost(input)).toBe(expected);
+  });
+});
+
+describe('getRegistrableDomain', () => {
+  it.each([
+    ['example.com', 'example.com'],
+    ['a.b.example.com', 'example.com'],
+    ['news.bbc.co.uk', 'bbc.co.uk'],
+    ['bbc.co.uk', 'bbc.co.uk'],
+    ['co.uk', 'co.uk'], // A public suffix itself
+    ['shop.example.com.au', 'example.com.au'],
+    ['user.github.io', 'user.github.io'],
+    ['docs.user.github.io', 'user.github.io'],
+    ['my-app.vercel.app', 'my-app.vercel.app'],
+    ['bucket.s3.amazonaws.com', 'bucket.s3.amazonaws.com'],
+    ['a.b.example.ck', 'b.example.ck'], // "*.ck": every second level is a suffix
+    ['www.ck', 'www.ck'], // "!www.ck" exception
+    ['sub.example.unlistedtld', 'example.unlistedtld'], // Implicit "*" rule
+    ['192.168.1.10', '192.168.1.10'],
+    ['[2001:db8::1]', '[2001:db8::1]'],
+  ])('%s → %s', (host, expected) => {
+    expect(getRegistrableDomain(host)).toBe(expected);
+  });
+});
+
+describe('getUntrackedReason', () => {
+  it.each([
+    ['https://example.com/', null],
+    ['http://example.com:8080/page', null],
+    ['chrome://extensions/', 'internal'],
+    ['chrome://newtab/', 'internal'],
+    ['chrome-extension://abcdefghijklmnop/popup/index.html', 'internal'],
+    ['file:///home/user/notes.txt', 'internal'],
+    ['about:blank', 'internal'],
+    ['edge://settings', 'internal'],
+    ['https://www.google.com/_/chrome/newtab?ie=UTF-8', 'new-tab'],
+    ['https://www.google.com/webhp', 'new-tab'],
+    ['http://localhost:3000/', 'local'],
+    ['http://app.localhost:5173/', 'local'],
+    ['http://127.0.0.1:8000/', 'local'],
+    ['http://[::1]:8080/', 'local'],
+    ['http://0.0.0.0:4000/', 'local'],
+    ['not a url', 'invalid'],
+    ['', 'invalid'],
+    [null, 'invalid'],
+  ])('%s → %s', (url, expected) => {
+    expect(getUntrackedReason(url)).toBe(expected);
+  });
+});
+
+describe('normalizeUrl', () => {
+  it.each([
+    [
+      'https://WWW.Example.com:8443/Path?q=1',
+      { url: 'https://example.com:8443/Path?q=1', host: 'example.com', path: '/Path', registrableDomain: 'example.com' },
+    ],
+    [
+      'https://example.com./docs',
+      { url: 'https://example.com/docs', host: 'example.com', path: '/docs', registrableDomain: 'example.com' },
+    ],
+    [
+      'https://youtu.be/dQw4w9WgXcQ?t=42',
+      { url: 'https://youtube.com/watch?t=42&v=dQw4w9WgXcQ', host: 'youtube.com', path: '/watch', registrableDomain: 'youtube.com' },
+    ],
+    [
+      'https://m.youtube.com/watch?v=abc',
+      { url: 'https://youtube.com/watch?v=abc', host: 'youtube.com', path: '/watch', registrableDomain: 'youtube.com' },
+    ],
+    [
+      'https://münchen.de/rathaus',
+      { url: 'https://xn--mnchen-3ya.de/rathaus', host: 'xn--mnchen-3ya.de', path: '/rathaus', registrableDomain: 'xn--mnchen-3ya.de' },
+    ],
+    [
+      'https://news.bbc.co.uk/sport',
+      { url: 'https://news.bbc.co.uk/sport', host: 'news.bbc.co.uk', path: '/sport', registrableDomain: 'bbc.co.uk' },
+    ],
+    ['chrome://settings/', null],
+    ['http://localhost:3000/', null],
+  ])('%s', (url, expected) => {
+    expect(normalizeUrl(url)).toEqual(expected);
+  });
+});
+
+describe('extractDomain', () => {
+  it.each([
+    ['https://music.youtube.com/watch?v=1', 'youtube.com'],
+    ['https://youtu.be/abc', 'youtube.com'],
+    ['https://mobile.twitter.com/home', 'x.com'],
+    ['https://old.reddit.com/r/all', 'reddit.com'],
+    ['https://www.amazon.co.jp/', 'amazon.co.jp'],
+    ['https://xn--bcher-kva.de/', 'xn--bcher-kva.de'],
+    ['https://bücher.de/', 'xn--bcher-kva.de'],
+    ['about:blank', null],
+    [undefined, null],
+  ])('%s → %s', (url, expected) => {
+    expect(extractDomain(url)).toBe(expected);
+  });
+});
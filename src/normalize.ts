@@ -0,0 +1,195 @@
+/**
+ * URL/domain normalization shared by classification and tracking
+ *
+ * - Browser-internal pages, new-tab pages and local development servers are untracked
+ * - Hosts are lowercased, IDN hosts converted to punycode and "www." dropped
+ * - Known aliases are folded into their canonical site (youtu.be -> youtube.com)
+ * - Registrable domains (eTLD+1) come from the bundled public suffix list
+ */
+import { PUBLIC_SUFFIXES } from './publicSuffixList';
+
+export type UntrackedReason = 'invalid' | 'internal' | 'new-tab' | 'local';
+
+export interface NormalizedUrl {
+  url: string; // Canonical URL, with host aliases applied
+  host: string; // Canonical ASCII host without "www." or port
+  path: string; // Path of the canonical URL, without query string
+  registrableDomain: string; // eTLD+1, e.g. "bbc.co.uk" for "news.bbc.co.uk"
+}
+
+// Alternate hosts of the same site. Applied to URLs and rule patterns alike, so a rule written
+// for either host matches both.
+const HOST_ALIASES: Record<string, string> = {
+  'youtu.be': 'youtube.com',
+  'm.youtube.com': 'youtube.com',
+  'youtube-nocookie.com': 'youtube.com',
+  'm.facebook.com': 'facebook.com',
+  'fb.com': 'facebook.com',
+  'twitter.com': 'x.com',
+  'mobile.twitter.com': 'x.com',
+  'mobile.x.com': 'x.com',
+  'm.tiktok.com': 'tiktok.com',
+  'vm.tiktok.com': 'tiktok.com',
+  'instagr.am': 'instagram.com',
+  'redd.it': 'reddit.com',
+  'old.reddit.com': 'reddit.com',
+  'm.reddit.com': 'reddit.com',
+  'm.twitch.tv': 'twitch.tv',
+};
+
+const TRACKED_PROTOCOLS = new Set(['http:', 'https:']);
+const NEW_TAB_PAGES = [
+  { host: 'google.com', pathPrefix: '/_/chrome/newtab' },
+  { host: 'google.com', pathPrefix: '/webhp' },
+];
+const IPV4_PATTERN = /^\d{1,3}(\.\d{1,3}){3}$/;
+
+const suffixRules = new Set<string>();
+const wildcardRules = new Set<string>(); // "*.ck" stored as "ck"
+const exceptionRules = new Set<string>(); // "!www.ck" stored as "www.ck"
+for (const entry of PUBLIC_SUFFIXES) {
+  if (entry.startsWith('!')) {
+    exceptionRules.add(entry.slice(1));
+  } else if (entry.startsWith('*.')) {
+    wildcardRules.add(entry.slice(2));
+  } else {
+    suffixRules.add(entry);
+  }
+}
+
+function isIpAddress(host: string): boolean {
+  return IPV4_PATTERN.test(host) || host.includes(':') || host.startsWith('[');
+}
+
+function toAsciiLabel(label: string): string {
+  if (label.includes('*') || !/[^\x00-\x7f]/.test(label)) {
+    return label;
+  }
+  try {
+    return new URL(`http://${label}`).hostname;
+  } catch {
+    return label;
+  }
+}
+
+function stripWww(host: string): string {
+  const rest = host.slice('www.'.length);
+  // "www.ck" is itself a registrable domain, not a subdomain of the "ck" suffix
+  return host.startsWith('www.') && getPublicSuffix(rest) !== rest ? rest : host;
+}
+
+/**
+ * Canonical form of a host or host pattern: lowercase, punycode, no "www.", aliases applied.
+ * A leading "*." (as in wildcard rules) is kept.
+ */
+export function canonicalizeHost(value: string): string {
+  const lowered = value.trim().toLowerCase().replace(/\.$/, '');
+  const wildcard = lowered.startsWith('*.') ? '*.' : '';
+  const host = stripWww(lowered.slice(wildcard.length).split('.').map(toAsciiLabel).join('.'));
+  return `${wildcard}${HOST_ALIASES[host] ?? host}`;
+}
+
+/**
+ * Hosts that canonicalize to `host` (e.g. "twitter.com" for "x.com")
+ */
+export function getHostAliases(host: string): string[] {
+  return Object.keys(HOST_ALIASES).filter((alias) => HOST_ALIASES[alias] === host);
+}
+
+/**
+ * The public suffix of a host, following the PSL algorithm (longest match, exceptions win,
+ * unlisted TLDs fall back to the implicit "*" rule)
+ */
+export function getPublicSuffix(host: string): string {
+  const labels = host.split('.');
+  for (let i = 0; i < labels.length; i++) {
+    const candidate = labels.slice(i).join('.');
+    if (exceptionRules.has(candidate)) {
+      return labels.slice(i + 1).join('.');
+    }
+    if (suffixRules.has(candidate)) {
+      return candidate;
+    }
+    if (i + 1 < labels.length && wildcardRules.has(labels.slice(i + 1).join('.'))) {
+      return candidate;
+    }
+  }
+  return labels[labels.length - 1];
+}
+
+/**
+ * eTLD+1 of a host. IP addresses and hosts that are themselves public suffixes are returned as-is.
+ */
+export function getRegistrableDomain(host: string): string {
+  if (isIpAddress(host)) return host;
+  const suffix = getPublicSuffix(host);
+  if (host === suffix) return host;
+  const labels = host.slice(0, host.length - suffix.length - 1).split('.');
+  return `${labels[labels.length - 1]}.${suffix}`;
+}
+
+function parseUrl(url: string | null | undefined): URL | null {
+  if (!url) return null;
+  try {
+    return new URL(url);
+  } catch {
+    return null;
+  }
+}
+
+function isLocalHost(host: string): boolean {
+  return (
+    host === 'localhost' ||
+    host.endsWith('.localhost') ||
+    host === '0.0.0.0' ||
+    host === '[::1]' ||
+    host.startsWith('127.')
+  );
+}
+
+/**
+ * Why a URL is not tracked, or null if it should be tracked
+ */
+export function getUntrackedReason(url: string | null | undefined): UntrackedReason | null {
+  const parsed = parseUrl(url);
+  if (!parsed || !parsed.hostname) {
+    return parsed && !TRACKED_PROTOCOLS.has(parsed.protocol) ? 'internal' : 'invalid';
+  }
+  if (!TRACKED_PROTOCOLS.has(parsed.protocol)) {
+    return 'internal';
+  }
+  const host = canonicalizeHost(parsed.hostname);
+  if (isLocalHost(host)) {
+    return 'local';
+  }
+  if (NEW_TAB_PAGES.some((page) => host === page.host && parsed.pathname.startsWith(page.pathPrefix))) {
+    return 'new-tab';
+  }
+  return null;
+}
+
+/**
+ * Normalize a URL for classification and tracking. Returns null for untracked URLs.
+ */
+export function normalizeUrl(url: string | null | undefined): NormalizedUrl | null {
+  if (getUntrackedReason(url) !== null) return null;
+  const parsed = new URL(url!);
+
+  const host = canonicalizeHost(parsed.hostname);
+
+  // youtu.be/<id> is a short link to youtube.com/watch?v=<id>
+  if (stripWww(parsed.hostname) === 'youtu.be' && parsed.pathname.length > 1) {
+    parsed.searchParams.set('v', parsed.pathname.slice(1));
+    parsed.pathname = '/watch';
+  }
+  parsed.hostname = host;
+
+  return { url: parsed.href, host, path: parsed.pathname, registrableDomain: getRegistrableDomain(host) };
+}
+
+/**
+ * Registrable domain of a tracked URL (e.g. "youtube.com" for m.youtube.com), or null if untracked
+ */
+export function extractDomain(url: string | undefined): string | null {
+  return normalizeUrl(url)?.registrableDomain ?? null;
+}
@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { enqueue, flushOutbox, getRetryDelay, quarantineOtherUsers, retryDeadLetters, type OutboxOperation, type UsageAggregate } from './outbox';
+import { createFakeChrome, createFakeClock, installFakeChrome } from './simulation/fakeChrome';
+import { getOutbox, setOutbox } from './storage';
+
+const supabaseResult = vi.hoisted(() => ({ error: null as { message: string } | null }));
+
+vi.mock('./supabaseClient', () => ({
+  supabase: {
+    auth: { getSession: async () => ({ data: { session: { access_token: 'token' } } }) },
+    from: () => ({ upsert: async () => supabaseResult }),
+  },
+}));
+
+const NOW = Date.UTC(2024, 0, 15, 9);
+
+function aggregate(intervalStart: string, domain: string, ms: number): UsageAggregate {
+  return { intervalStart, domain, category: 'social', side: 'unproductive', ms };
+}
+
+function leaderboard(userId: string, bestScore: number): OutboxOperation {
+  return { kind: 'leaderboardUpdate', userId, bestScore, categorySeconds: {}, focusScore: null, updatedAt: new Date(NOW).toISOString() };
+}
+
+beforeEach(() => {
+  installFakeChrome(createFakeChrome(createFakeClock(NOW)));
+  supabaseResult.error = null;
+  // Failed sends and evictions are expected here
+  for (const method of ['log', 'warn', 'error'] as const) {
+    vi.spyOn(console, method).mockImplementation(() => undefined);
+  }
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('getRetryDelay', () => {
+  it.each([
+    [0, 30000],
+    [1, 30000],
+    [2, 60000],
+    [3, 120000],
+    [7, 1920000],
+    [8, 3600000], // Capped at an hour
+    [20, 3600000],
+  ])('attempt %i → %i ms', (attempts, expected) => {
+    expect(getRetryDelay(attempts)).toBe(expected);
+  });
+});
+
+describe('enqueue coalescing', () => {
+  const hour9 = '2024-01-15T09:00:00.000Z';
+  const hour10 = '2024-01-15T10:00:00.000Z';
+
+  it.each<[string, OutboxOperation[], OutboxOperation[]]>([
+    ['keeps only the latest leaderboard update', [leaderboard('user-1', 10), leaderboard('user-1', 25)], [leaderboard('user-1', 25)]],
+    ['keeps leaderboard updates of different users apart', [leaderboard('user-1', 10), leaderboard('user-2', 5)], [leaderboard('user-1', 10), leaderboard('user-2', 5)]],
+    [
+      'replaces rows of the same hour and keeps the others',
+      [
+        { kind: 'usageAggregates', userId: 'user-1', rows: [aggregate(hour9, 'x.com', 1000), aggregate(hour9, 'reddit.com', 500)] },
+        { kind: 'usageAggregates', userId: 'user-1', rows: [aggregate(hour9, 'x.com', 4000), aggregate(hour10, 'x.com', 200)] },
+      ],
+      [
+        {
+          kind: 'usageAggregates',
+          userId: 'user-1',
+          rows: [aggregate(hour9, 'x.com', 4000), aggregate(hour9, 'reddit.com', 500), aggregate(hour10, 'x.com', 200)],
+        },
+      ],
+    ],
+    [
+      'never merges inserts',
+      [
+        { kind: 'productiveTrigger', userId: 'user-1', domain: 'github.com', durationSeconds: 600 },
+        { kind: 'productiveTrigger', userId: 'user-1', domain: 'github.com', durationSeconds: 600 },
+      ],
+      [
+        { kind: 'productiveTrigger', userId: 'user-1', domain: 'github.com', durationSeconds: 600 },
+        { kind: 'productiveTrigger', userId: 'user-1', domain: 'github.com', durationSeconds: 600 },
+      ],
+    ],
+  ])('%s', async (_name, operations, expected) => {
+    for (const operation of operations) {
+      await enqueue(operation, NOW);
+    }
+    const outbox = await getOutbox();
+    expect(outbox.entries.map((entry) => entry.operation)).toEqual(expected);
+    expect(new Set(outbox.entries.map((entry) => entry.key)).size).toBe(expected.length);
+  });
+});
+
+describe('dead letters', () => {
+  it('gives up on a write after 12 failed attempts and queues it again on retry', async () => {
+    supabaseResult.error = { message: 'permission denied' };
+    await enqueue(leaderboard('user-1', 10), NOW);
+    for (let attempt = 1; attempt <= 11; attempt++) {
+      await flushOutbox(true, NOW);
+    }
+    expect((await getOutbox()).entries).toHaveLength(1);
+
+    expect(await flushOutbox(true, NOW)).toBeNull();
+    const outbox = await getOutbox();
+    expect(outbox.entries).toEqual([]);
+    expect(outbox.deadLetters).toMatchObject([{ attempts: 12, lastError: 'permission denied' }]);
+
+    supabaseResult.error = null;
+    await retryDeadLetters(NOW);
+    await flushOutbox(false, NOW);
+    expect(await getOutbox()).toMatchObject({ entries: [], deadLetters: [], lastSyncedAt: NOW });
+  });
+
+  it('moves the oldest writes out of a full queue instead of dropping them', async () => {
+    const trigger = (i: number): OutboxOperation => ({ kind: 'productiveTrigger', userId: 'user-1', domain: `site${i}.com`, durationSeconds: 600 });
+    await setOutbox({
+      ...(await getOutbox()),
+      entries: Array.from({ length: 1000 }, (_, i) => ({ key: `key-${i}`, operation: trigger(i), createdAt: NOW, attempts: 0, nextAttemptAt: NOW, lastError: null })),
+    });
+    await enqueue(trigger(1000), NOW);
+    await enqueue(trigger(1001), NOW);
+    const outbox = await getOutbox();
+    expect(outbox.entries).toHaveLength(1000);
+    expect(outbox.deadLetters.map((entry) => entry.operation)).toMatchObject([{ domain: 'site0.com' }, { domain: 'site1.com' }]);
+    expect(outbox.deadLetters.map((entry) => entry.lastError)).toEqual(['Outbox full', 'Outbox full']);
+  });
+
+  it('sets aside writes queued for another account', async () => {
+    await enqueue(leaderboard('user-1', 10), NOW);
+    await enqueue(leaderboard('user-2', 5), NOW);
+    await quarantineOtherUsers('user-2');
+    const outbox = await getOutbox();
+    expect(outbox.entries.map((entry) => entry.operation)).toEqual([leaderboard('user-2', 5)]);
+    expect(outbox.deadLetters).toMatchObject([{ operation: leaderboard('user-1', 10), lastError: 'Queued for another account' }]);
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * Durable outbox for Supabase writes
+ *
+ * Every write is queued in chrome.storage with an idempotency key before it is sent, and stays
+ * there until Supabase accepts it. Failed sends are retried with exponential backoff, and right
+ * away when connectivity or the session comes back. Inserts carry their key in an
+ * `idempotency_key` column, so a replay of a write that did land is ignored by the server.
+ *
+ * A write that keeps failing, or that is pushed out of a full queue, is moved to the dead letters
+ * instead of being dropped. The popup lists them, and the user retries or discards them.
+ *
+ * Only the background worker writes the outbox; the popup reads it to show the queue depth.
+ */
+import type { OverrideLogEntry } from './blocking';
+import type { CategorySide } from './classify';
+import type { FocusReport } from './focus';
+import { getOutbox, setOutbox } from './storage';
+import { supabase } from './supabaseClient';
+
+/**
+ * Running total of one hour's time on a domain/category (see usage.ts)
+ */
+export interface UsageAggregate {
+  intervalStart: string; // ISO timestamp of the hour
+  domain: string;
+  category: string;
+  side: CategorySide;
+  ms: number;
+}
+
+export type OutboxOperation =
+  | { kind: 'productiveTrigger'; userId: string; domain: string; durationSeconds: number }
+  | { kind: 'usageAggregates'; userId: string; rows: UsageAggregate[] }
+  | { kind: 'focusSession'; userId: string; report: FocusReport }
+  | { kind: 'blockOverride'; userId: string; entry: OverrideLogEntry }
+  | {
+      kind: 'leaderboardUpdate';
+      userId: string;
+      bestScore: number; // Unproductive seconds
+      categorySeconds: Record<string, number>;
+      focusScore: number | null;
+      updatedAt: string;
+    };
+
+export interface OutboxEntry {
+  key: string; // Idempotency key
+  operation: OutboxOperation;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+}
+
+export interface Outbox {
+  entries: OutboxEntry[];
+  deadLetters: OutboxEntry[]; // Given up on; kept until the user retries or discards them
+  lastError: string | null; // Error from the last failed send, cleared by a successful one
+  lastErrorAt: number;
+  lastSyncedAt: number;
+}
+
+const RETRY_BASE_MS = 30000; // chrome.alarms can't wake us sooner anyway
+const RETRY_MAX_MS = 60 * 60000;
+const MAX_ENTRIES = 1000;
+const MAX_ATTEMPTS = 12; // About five hours of retries with the backoff above
+
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+// The outbox is read-modify-written from several events; run those one at a time
+let outboxQueue: Promise<unknown> = Promise.resolve();
+
+function withOutbox<T>(task: () => Promise<T>): Promise<T> {
+  const run = outboxQueue.then(task);
+  outboxQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Fold a new operation into a queued one where the result is the same as sending both.
+ * Both kinds merged here are upserts of absolute values, so merging into an entry that was
+ * already attempted (and may have landed) is safe too: sending it again only overwrites the same
+ * rows with newer values. Inserts are never merged.
+ */
+function coalesce(entries: OutboxEntry[], operation: OutboxOperation): boolean {
+  if (operation.kind === 'leaderboardUpdate') {
+    // An upsert of absolute values: only the latest matters
+    const queued = entries.find((entry) => entry.operation.kind === 'leaderboardUpdate' && entry.operation.userId === operation.userId);
+    if (queued) {
+      queued.operation = operation;
+      return true;
+    }
+  } else if (operation.kind === 'usageAggregates') {
+    // Rows are running totals upserted by key: a newer row replaces the queued one for the same hour
+    const queued = entries.find((entry) => entry.operation.kind === 'usageAggregates' && entry.operation.userId === operation.userId);
+    if (queued && queued.operation.kind === 'usageAggregates') {
+      const rowKey = (row: UsageAggregate) => `${row.intervalStart}|${row.domain}|${row.category}`;
+      const rows = new Map(queued.operation.rows.map((row) => [rowKey(row), row]));
+      operation.rows.forEach((row) => rows.set(rowKey(row), row));
+      queued.operation = { ...queued.operation, rows: [...rows.values()] };
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Queue a write. It is sent on the next flush.
+ */
+export async function enqueue(operation: OutboxOperation, now: number = Date.now()): Promise<void> {
+  await withOutbox(async () => {
+    const outbox = await getOutbox();
+    if (!coalesce(outbox.entries, operation)) {
+      outbox.entries.push({ key: crypto.randomUUID(), operation, createdAt: now, attempts: 0, nextAttemptAt: now, lastError: null });
+    }
+    if (outbox.entries.length > MAX_ENTRIES) {
+      const evicted = outbox.entries.splice(0, outbox.entries.length - MAX_ENTRIES);
+      outbox.deadLetters.push(...evicted.map((entry) => ({ ...entry, lastError: entry.lastError ?? 'Outbox full' })));
+      console.warn(`⚠️ Outbox full, moved ${evicted.length} oldest writes to the dead letters`);
+    }
+    await setOutbox(outbox);
+  });
+}
+
+async function send(entry: OutboxEntry): Promise<void> {
+  const { operation } = entry;
+  if (operation.kind === 'productiveTrigger') {
+    const { error } = await supabase.from('productive_triggers').upsert(
+      {
+        user_id: operation.userId,
+        domain: operation.domain,
+        duration_seconds: operation.durationSeconds,
+        idempotency_key: entry.key,
+      },
+      { onConflict: 'idempotency_key', ignoreDuplicates: true }
+    );
+    if (error) throw new Error(error.message);
+    console.log(`Recorded productive trigger: ${operation.domain} for ${operation.durationSeconds}s`);
+  } else if (operation.kind === 'usageAggregates') {
+    // One upsert for the whole batch, keyed by user, hour, domain and category
+    const { error } = await supabase.from('usage_aggregates').upsert(
+      operation.rows.map((row) => ({
+        user_id: operation.userId,
+        interval_start: row.intervalStart,
+        domain: row.domain,
+        category: row.category,
+        side: row.side,
+        duration_ms: row.ms,
+      })),
+      { onConflict: 'user_id,interval_start,domain,category' }
+    );
+    if (error) throw new Error(error.message);
+    console.log(`Uploaded ${operation.rows.length} usage aggregates`);
+  } else if (operation.kind === 'focusSession') {
+    // The session id is the key, so a replay overwrites the same row
+    const { report } = operation;
+    const { error } = await supabase.from('focus_sessions').upsert(
+      {
+        id: report.id,
+        user_id: operation.userId,
+        goal: report.goal || null,
+        started_at: new Date(report.startedAt).toISOString(),
+        ended_at: new Date(report.endedAt).toISOString(),
+        work_minutes: report.workMinutes,
+        break_minutes: report.breakMinutes,
+        productive_seconds: Math.floor(report.productiveMs / 1000),
+        unproductive_seconds: Math.floor(report.unproductiveMs / 1000),
+        neutral_seconds: Math.floor(report.neutralMs / 1000),
+        focus_percentage: report.focusPercentage,
+        distracting_domains: report.distractions.map((entry) => ({
+          domain: entry.domain,
+          seconds: Math.floor(entry.ms / 1000),
+          visits: entry.visits,
+        })),
+      },
+      { onConflict: 'id' }
+    );
+    if (error) throw new Error(error.message);
+    console.log(`Recorded focus session ${report.id}: ${report.focusPercentage ?? '-'}% focus`);
+  } else if (operation.kind === 'blockOverride') {
+    const { entry } = operation;
+    const { error } = await supabase.from('block_overrides').upsert(
+      {
+        id: entry.id,
+        user_id: operation.userId,
+        url: entry.url,
+        domain: entry.domain,
+        category: entry.category,
+        reason: entry.reason,
+        granted_at: new Date(entry.grantedAt).toISOString(),
+        expires_at: new Date(entry.until).toISOString(),
+      },
+      { onConflict: 'id' }
+    );
+    if (error) throw new Error(error.message);
+    console.log(`Recorded block override for ${entry.domain}`);
+  } else {
+    // best_score stores unproductive time in seconds
+    const { error } = await supabase.from('leaderboard_global').upsert(
+      {
+        user_id: operation.userId,
+        best_score: operation.bestScore,
+        category_seconds: operation.categorySeconds,
+        focus_score: operation.focusScore,
+        updated_at: operation.updatedAt,
+      },
+      { onConflict: 'user_id' }
+    );
+    if (error) throw new Error(error.message);
+    console.log(`Updated leaderboard_global: ${operation.bestScore}s unproductive time (best_score) for user ${operation.userId}`);
+  }
+}
+
+/**
+ * Send queued writes that are due (or all of them with `force`, e.g. when back online).
+ * Returns when the next retry is due, or null if the outbox is empty.
+ */
+export async function flushOutbox(force = false, now: number = Date.now()): Promise<number | null> {
+  return withOutbox(async () => {
+    const outbox = await getOutbox();
+    if (outbox.entries.length === 0) {
+      return null;
+    }
+
+    // Without a session every write would fail on RLS; wait for sign-in instead of burning retries
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      outbox.lastError = 'Waiting for sign-in';
+      outbox.lastErrorAt = now;
+      await setOutbox(outbox);
+      return null;
+    }
+
+    const remaining: OutboxEntry[] = [];
+    for (const entry of outbox.entries) {
+      if (!force && entry.nextAttemptAt > now) {
+        remaining.push(entry);
+        continue;
+      }
+      try {
+        await send(entry);
+        outbox.lastSyncedAt = now;
+        outbox.lastError = null;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const attempts = entry.attempts + 1;
+        console.error(`Error sending ${entry.operation.kind} (attempt ${attempts}):`, message);
+        const failed = { ...entry, attempts, nextAttemptAt: now + getRetryDelay(attempts), lastError: message };
+        if (attempts >= MAX_ATTEMPTS) {
+          console.warn(`⚠️ Giving up on ${entry.operation.kind} after ${attempts} attempts`);
+          outbox.deadLetters.push(failed);
+        } else {
+          remaining.push(failed);
+        }
+        outbox.lastError = message;
+        outbox.lastErrorAt = now;
+      }
+    }
+
+    outbox.entries = remaining;
+    await setOutbox(outbox);
+    return remaining.length > 0 ? Math.min(...remaining.map((entry) => entry.nextAttemptAt)) : null;
+  });
+}
+
+/**
+ * Set aside writes queued for anyone but `userId`: the session of another user can't send them.
+ * They become dead letters, so they are shown rather than silently lost.
+ */
+export async function quarantineOtherUsers(userId: string): Promise<void> {
+  await withOutbox(async () => {
+    const outbox = await getOutbox();
+    const foreign = outbox.entries.filter((entry) => entry.operation.userId !== userId);
+    if (foreign.length === 0) {
+      return;
+    }
+    outbox.entries = outbox.entries.filter((entry) => entry.operation.userId === userId);
+    outbox.deadLetters.push(...foreign.map((entry) => ({ ...entry, lastError: 'Queued for another account' })));
+    await setOutbox(outbox);
+    console.warn(`⚠️ Set aside ${foreign.length} writes queued for another account`);
+  });
+}
+
+/**
+ * Queue the dead letters again with a fresh attempt count. They are sent on the next flush.
+ */
+export async function retryDeadLetters(now: number = Date.now()): Promise<void> {
+  await withOutbox(async () => {
+    const outbox = await getOutbox();
+    outbox.entries.push(...outbox.deadLetters.map((entry) => ({ ...entry, attempts: 0, nextAttemptAt: now })));
+    outbox.deadLetters = [];
+    await setOutbox(outbox);
+  });
+}
+
+/**
+ * Throw the dead letters away, once the user has seen they won't be synced
+ */
+export async function discardDeadLetters(): Promise<void> {
+  await withOutbox(async () => {
+    const outbox = await getOutbox();
+    console.warn(`⚠️ Discarded ${outbox.deadLetters.length} unsent writes`);
+    outbox.deadLetters = [];
+    await setOutbox(outbox);
+  });
+}
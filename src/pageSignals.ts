@@ -0,0 +1,100 @@
+/**
+ * Per-tab cache of page signals reported by the content script
+ *
+ * Mirrored to chrome.storage.session so the cache survives service worker suspension.
+ */
+import type { PageSignals } from './classify';
+
+const SESSION_KEY = 'pageSignals';
+
+// Tab id -> latest signals. A `missing` entry records that a URL was already asked for without an answer.
+const signalsByTab = new Map<number, PageSignals | { url: string; missing: true }>();
+let restorePromise: Promise<void> | null = null;
+
+/**
+ * Load the cache from session storage once. Every entry point awaits it, so none reads the cache
+ * half-restored.
+ */
+function restoreCache(): Promise<void> {
+  restorePromise ??= loadCache();
+  return restorePromise;
+}
+
+async function loadCache(): Promise<void> {
+  try {
+    const result = await chrome.storage.session.get(SESSION_KEY);
+    const stored: Record<string, PageSignals> = result[SESSION_KEY] || {};
+    for (const [tabId, signals] of Object.entries(stored)) {
+      if (!signalsByTab.has(Number(tabId))) {
+        signalsByTab.set(Number(tabId), signals);
+      }
+    }
+  } catch (error) {
+    console.error('Error restoring page signals cache:', error);
+  }
+}
+
+async function persistCache(): Promise<void> {
+  const stored: Record<string, PageSignals> = {};
+  for (const [tabId, entry] of signalsByTab) {
+    if (!('missing' in entry)) {
+      stored[tabId] = entry;
+    }
+  }
+  await chrome.storage.session.set({ [SESSION_KEY]: stored });
+}
+
+/**
+ * Store signals pushed by a tab's content script
+ */
+export async function cachePageSignals(tabId: number, signals: PageSignals): Promise<void> {
+  await restoreCache();
+  signalsByTab.set(tabId, signals);
+  await persistCache();
+}
+
+export async function forgetTab(tabId: number): Promise<void> {
+  await restoreCache();
+  if (signalsByTab.delete(tabId)) {
+    await persistCache();
+  }
+}
+
+/**
+ * Cached signals for any tab currently showing this URL (no messaging)
+ */
+export async function getCachedSignals(url: string | null): Promise<PageSignals | null> {
+  if (!url) return null;
+  await restoreCache();
+  for (const entry of signalsByTab.values()) {
+    if (entry.url === url && !('missing' in entry)) {
+      return entry;
+    }
+  }
+  return null;
+}
+
+/**
+ * Signals for a tab's current URL, asking its content script only on a cache miss.
+ * Each URL is asked for at most once, so the checkpoint alarm that closes out the span every
+ * 30 seconds never re-requests.
+ */
+export async function getPageSignals(tabId: number, url: string): Promise<PageSignals | null> {
+  await restoreCache();
+  const cached = signalsByTab.get(tabId);
+  if (cached?.url === url) {
+    return 'missing' in cached ? null : cached;
+  }
+
+  signalsByTab.set(tabId, { url, missing: true });
+  try {
+    const signals: PageSignals | undefined = await chrome.tabs.sendMessage(tabId, { type: 'getPageSignals' });
+    if (signals?.url === url) {
+      await cachePageSignals(tabId, signals);
+      return signals;
+    }
+  } catch {
+    // No content script in this tab (internal pages, pages loaded before install)
+  }
+  return null;
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { isE164, parsePhoneNumber } from './phone';
+
+describe('parsePhoneNumber', () => {
+  it.each([
+    ['(415) 555-0123', 'US', '+14155550123'],
+    ['415.555.0123', 'US', '+14155550123'],
+    ['1 415 555 0123', 'US', '+14155550123'], // Trunk prefix "1"
+    ['415 555 012', 'US', null], // Too short
+    ['030 1234567', 'DE', '+49301234567'],
+    ['0151/23456789', 'DE', '+4915123456789'],
+    ['07700 900123', 'GB', '+447700900123'],
+    ['020 7946 0958', 'GB', '+442079460958'],
+    ['06 12 34 56 78', 'FR', '+33612345678'],
+    ['612 345 678', 'ES', '+34612345678'], // No trunk prefix
+    ['0412 345 678', 'AU', '+61412345678'],
+    ['+49 30 1234567', 'US', '+49301234567'], // International input ignores the country
+    ['0049 30 1234567', 'US', '+49301234567'],
+    ['+1 (415) 555-0123', 'DE', '+14155550123'],
+    ['+0 123 456 789', 'US', null], // No calling code starts with 0
+    ['+1234567', 'US', null], // Too short for E.164
+    ['+1234567890123456', 'US', null], // Too long for E.164
+    ['415-555-0123 ext 4', 'US', null],
+    ['call me', 'US', null],
+    ['', 'US', null],
+    ['030 1234567', 'XX', null], // Unknown country
+  ])('%s (%s) → %s', (input, country, expected) => {
+    expect(parsePhoneNumber(input, country)).toBe(expected);
+  });
+});
+
+describe('isE164', () => {
+  it.each([
+    ['+14155550123', true],
+    ['+442079460958', true],
+    ['14155550123', false],
+    ['+1 415 555 0123', false],
+    ['+012345678', false],
+  ])('%s → %s', (value, expected) => {
+    expect(isE164(value)).toBe(expected);
+  });
+});
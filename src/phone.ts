@@ -0,0 +1,87 @@
+/**
+ * Phone numbers in E.164 ("+14155550123")
+ *
+ * Numbers are typed in national format for a selected country ("(415) 555-0123", "030 1234567")
+ * or in international format ("+49 30 1234567", "0049 30 1234567"), and stored as E.164. The
+ * country table covers calling codes, trunk prefixes and national number lengths; it is not a
+ * full numbering plan, so a number of the right length is accepted.
+ */
+
+export interface Country {
+  code: string; // ISO 3166-1 alpha-2
+  name: string;
+  dialCode: string; // Country calling code without the "+"
+  trunkPrefix: string; // Dropped from national numbers ("0" in most of Europe), or ""
+  nationalLengths: [number, number]; // Digits after the calling code, min and max
+}
+
+export const COUNTRIES: Country[] = [
+  { code: 'US', name: 'United States', dialCode: '1', trunkPrefix: '1', nationalLengths: [10, 10] },
+  { code: 'CA', name: 'Canada', dialCode: '1', trunkPrefix: '1', nationalLengths: [10, 10] },
+  { code: 'GB', name: 'United Kingdom', dialCode: '44', trunkPrefix: '0', nationalLengths: [9, 10] },
+  { code: 'IE', name: 'Ireland', dialCode: '353', trunkPrefix: '0', nationalLengths: [7, 9] },
+  { code: 'DE', name: 'Germany', dialCode: '49', trunkPrefix: '0', nationalLengths: [6, 11] },
+  { code: 'AT', name: 'Austria', dialCode: '43', trunkPrefix: '0', nationalLengths: [4, 13] },
+  { code: 'CH', name: 'Switzerland', dialCode: '41', trunkPrefix: '0', nationalLengths: [9, 9] },
+  { code: 'FR', name: 'France', dialCode: '33', trunkPrefix: '0', nationalLengths: [9, 9] },
+  { code: 'NL', name: 'Netherlands', dialCode: '31', trunkPrefix: '0', nationalLengths: [9, 9] },
+  { code: 'BE', name: 'Belgium', dialCode: '32', trunkPrefix: '0', nationalLengths: [8, 9] },
+  { code: 'ES', name: 'Spain', dialCode: '34', trunkPrefix: '', nationalLengths: [9, 9] },
+  { code: 'IT', name: 'Italy', dialCode: '39', trunkPrefix: '', nationalLengths: [6, 11] },
+  { code: 'PT', name: 'Portugal', dialCode: '351', trunkPrefix: '', nationalLengths: [9, 9] },
+  { code: 'SE', name: 'Sweden', dialCode: '46', trunkPrefix: '0', nationalLengths: [7, 9] },
+  { code: 'NO', name: 'Norway', dialCode: '47', trunkPrefix: '', nationalLengths: [8, 8] },
+  { code: 'DK', name: 'Denmark', dialCode: '45', trunkPrefix: '', nationalLengths: [8, 8] },
+  { code: 'FI', name: 'Finland', dialCode: '358', trunkPrefix: '0', nationalLengths: [5, 12] },
+  { code: 'PL', name: 'Poland', dialCode: '48', trunkPrefix: '', nationalLengths: [9, 9] },
+  { code: 'AU', name: 'Australia', dialCode: '61', trunkPrefix: '0', nationalLengths: [9, 9] },
+  { code: 'NZ', name: 'New Zealand', dialCode: '64', trunkPrefix: '0', nationalLengths: [8, 10] },
+  { code: 'IN', name: 'India', dialCode: '91', trunkPrefix: '0', nationalLengths: [10, 10] },
+  { code: 'JP', name: 'Japan', dialCode: '81', trunkPrefix: '0', nationalLengths: [9, 10] },
+  { code: 'BR', name: 'Brazil', dialCode: '55', trunkPrefix: '0', nationalLengths: [10, 11] },
+  { code: 'MX', name: 'Mexico', dialCode: '52', trunkPrefix: '', nationalLengths: [10, 10] },
+  { code: 'ZA', name: 'South Africa', dialCode: '27', trunkPrefix: '0', nationalLengths: [9, 9] },
+];
+
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+export function findCountry(code: string): Country | undefined {
+  return COUNTRIES.find((country) => country.code === code);
+}
+
+export function isE164(value: string): boolean {
+  return E164_PATTERN.test(value);
+}
+
+/**
+ * Parse a number typed for `countryCode` into E.164, or null if it can't be a number there.
+ * International input ("+...", "00...") is taken as is, whatever the country.
+ */
+export function parsePhoneNumber(input: string, countryCode: string): string | null {
+  const trimmed = input.trim();
+  // Allow the usual separators, nothing else
+  if (!/^\+?[\d\s().\-/]+$/.test(trimmed)) {
+    return null;
+  }
+  const digits = trimmed.replace(/\D/g, '');
+
+  if (trimmed.startsWith('+') || digits.startsWith('00')) {
+    const international = `+${trimmed.startsWith('+') ? digits : digits.slice(2)}`;
+    return isE164(international) ? international : null;
+  }
+
+  const country = findCountry(countryCode);
+  if (!country) {
+    return null;
+  }
+  const [minLength, maxLength] = country.nationalLengths;
+  let national = digits;
+  if (country.trunkPrefix && national.startsWith(country.trunkPrefix) && national.length > minLength) {
+    national = national.slice(country.trunkPrefix.length);
+  }
+  if (national.length < minLength || national.length > maxLength) {
+    return null;
+  }
+  const e164 = `+${country.dialCode}${national}`;
+  return isE164(e164) ? e164 : null;
+}
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import {
+  describeBudgetTarget,
+  getBudgetRemainingMs,
+  getBudgetUsedMs,
+  normalizeBudgetDomain,
+  validateBudget,
+  type Budget,
+  type BudgetAction,
+  type BudgetTarget,
+} from '../budgets';
+import { getDayKey } from '../calendar';
+import type { ClassificationRules } from '../classify';
+import { getLocalTimeZone } from '../schedule';
+import { setBudgets, type TrackingState } from '../storage';
+import { getThemeStyles, SIDE_COLORS } from './theme';
+
+interface BudgetsPanelProps {
+  rules: ClassificationRules;
+  budgets: Budget[];
+  state: TrackingState;
+  isDark: boolean;
+}
+
+const ACTION_LABELS: Record<BudgetAction, string> = {
+  notify: 'Notify only',
+  call: 'Escalate',
+  block: 'Block',
+};
+
+function formatMinutes(ms: number): string {
+  const minutes = Math.ceil(ms / 60000);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+/**
+ * Popup section for daily time budgets: what's left of each today, and adding/removing budgets
+ */
+export function BudgetsPanel({ rules, budgets, state, isDark }: BudgetsPanelProps) {
+  const [targetType, setTargetType] = useState<BudgetTarget['type']>('category');
+  const [categoryId, setCategoryId] = useState(rules.categories[0]?.id ?? '');
+  const [site, setSite] = useState('');
+  const [minutes, setMinutes] = useState('30');
+  const [action, setAction] = useState<BudgetAction>('notify');
+  const [error, setError] = useState('');
+
+  const { borderColor, mutedText, inputStyle, smallButtonStyle, primaryButtonStyle } = getThemeStyles(isDark);
+  const today = getDayKey(Date.now(), getLocalTimeZone());
+
+  const handleAddBudget = async (e: React.FormEvent) => {
+    e.preventDefault();
+    let target: BudgetTarget;
+    if (targetType === 'site') {
+      const domain = normalizeBudgetDomain(site);
+      if (!domain) {
+        setError('Enter a site, e.g. youtube.com');
+        return;
+      }
+      target = { type: 'site', domain };
+    } else {
+      target = { type: 'category', categoryId };
+    }
+    const budget = { target, minutes: Math.round(parseFloat(minutes)), action };
+    const validationError = validateBudget(budget, rules);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setError('');
+    await setBudgets([...budgets, { id: crypto.randomUUID(), ...budget }]);
+    setSite('');
+  };
+
+  const updateAction = async (id: string, newAction: BudgetAction) => {
+    await setBudgets(budgets.map((budget) => (budget.id === id ? { ...budget, action: newAction } : budget)));
+  };
+
+  const removeBudget = async (id: string) => {
+    await setBudgets(budgets.filter((budget) => budget.id !== id));
+  };
+
+  return (
+    <div style={{ marginBottom: '20px' }}>
+      <div style={{ fontSize: '12px', color: mutedText, marginBottom: '8px' }}>Daily Budgets</div>
+
+      {budgets.length === 0 && (
+        <div style={{ fontSize: '12px', color: mutedText, marginBottom: '8px' }}>No budgets - add one to get warnings at 50%, 80% and 100%.</div>
+      )}
+
+      {budgets.map((budget) => {
+        const usedMs = getBudgetUsedMs(state.budgetUsage, budget, today);
+        const remainingMs = getBudgetRemainingMs(state.budgetUsage, budget, today);
+        const usedShare = Math.min(1, usedMs / (budget.minutes * 60000));
+        return (
+          <div key={budget.id} style={{ padding: '4px 0', fontSize: '12px', borderBottom: `1px solid ${borderColor}` }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+              <span style={{ flex: 1, fontWeight: 500 }}>{describeBudgetTarget(budget, rules)}</span>
+              <span style={{ color: remainingMs === 0 ? SIDE_COLORS.productive : mutedText }}>
+                {remainingMs === 0 ? 'Used up' : `${formatMinutes(remainingMs)} left`} of {budget.minutes}m
+              </span>
+              <select
+                value={budget.action}
+                onChange={(e) => updateAction(budget.id, e.target.value as BudgetAction)}
+                style={{ ...inputStyle, padding: '2px' }}
+                title="When the budget is used up"
+              >
+                {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <button onClick={() => removeBudget(budget.id)} style={smallButtonStyle} title="Remove budget">✕</button>
+            </div>
+            <div style={{ height: '4px', marginTop: '4px', backgroundColor: borderColor, borderRadius: '2px' }}>
+              <div
+                style={{
+                  width: `${usedShare * 100}%`,
+                  height: '100%',
+                  borderRadius: '2px',
+                  backgroundColor: usedShare >= 0.8 ? SIDE_COLORS.productive : SIDE_COLORS.unproductive,
+                }}
+              />
+            </div>
+          </div>
+        );
+      })}
+
+      <form onSubmit={handleAddBudget} style={{ display: 'flex', gap: '4px', marginTop: '8px' }}>
+        <select value={targetType} onChange={(e) => setTargetType(e.target.value as BudgetTarget['type'])} style={inputStyle}>
+          <option value="category">Category</option>
+          <option value="site">Site</option>
+        </select>
+        {targetType === 'category' ? (
+          <select value={categoryId} onChange={(e) => setCategoryId(e.target.value)} style={{ ...inputStyle, flex: 1, minWidth: 0 }}>
+            {rules.categories.map((option) => (
+              <option key={option.id} value={option.id}>{option.name}</option>
+            ))}
+          </select>
+        ) : (
+          <input
+            value={site}
+            onChange={(e) => setSite(e.target.value)}
+            placeholder="youtube.com"
+            style={{ ...inputStyle, flex: 1, minWidth: 0 }}
+          />
+        )}
+        <input
+          type="number"
+          min={1}
+          value={minutes}
+          onChange={(e) => setMinutes(e.target.value)}
+          style={{ ...inputStyle, width: '52px' }}
+          title="Minutes per day"
+        />
+        <select value={action} onChange={(e) => setAction(e.target.value as BudgetAction)} style={inputStyle} title="When the budget is used up">
+          {Object.entries(ACTION_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <button type="submit" style={primaryButtonStyle}>
+          Add
+        </button>
+      </form>
+      {error && <div style={{ color: 'red', marginTop: '6px', fontSize: '12px' }}>{error}</div>}
+    </div>
+  );
+}
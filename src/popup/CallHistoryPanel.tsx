@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react';
+import { getLastCallByTrigger, listRecentCalls, type CallOutcome, type CallRecord } from '../callLogs';
+import type { EscalationTrigger } from '../escalation';
+import { TRIGGER_LABELS } from './EscalationPanel';
+import { getThemeStyles, SIDE_COLORS } from './theme';
+
+interface CallHistoryPanelProps {
+  userId: string | null;
+  isDark: boolean;
+}
+
+const OUTCOME_LABELS: Record<CallOutcome, string> = {
+  pending: 'Calling…',
+  ringing: 'Ringing…',
+  inProgress: 'In progress',
+  answered: 'Answered',
+  voicemail: 'Voicemail',
+  busy: 'Busy',
+  noAnswer: 'No answer',
+  failed: 'Failed',
+  canceled: 'Canceled',
+};
+
+const OUTCOME_COLORS: Record<CallOutcome, string> = {
+  pending: SIDE_COLORS.neutral,
+  ringing: SIDE_COLORS.neutral,
+  inProgress: SIDE_COLORS.neutral,
+  answered: SIDE_COLORS.unproductive,
+  voicemail: SIDE_COLORS.neutral,
+  busy: SIDE_COLORS.productive,
+  noAnswer: SIDE_COLORS.productive,
+  failed: SIDE_COLORS.productive,
+  canceled: SIDE_COLORS.neutral,
+};
+
+const TRIGGERS: EscalationTrigger[] = ['productiveStreak', 'budget', 'credits', 'test'];
+const RECENT_CALL_LIMIT = 10;
+const REFRESH_INTERVAL_MS = 10000;
+
+function formatCallTime(time: number): string {
+  const date = new Date(time);
+  const clock = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return date.toDateString() === new Date().toDateString() ? clock : `${date.toLocaleDateString([], { month: 'short', day: 'numeric' })} ${clock}`;
+}
+
+function formatCallDuration(seconds: number): string {
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+function describeCall(call: CallRecord): string {
+  return call.durationSeconds !== null && call.durationSeconds > 0
+    ? `${OUTCOME_LABELS[call.outcome]}, ${formatCallDuration(call.durationSeconds)}`
+    : OUTCOME_LABELS[call.outcome];
+}
+
+/**
+ * Popup section with how recent accountability calls went: the last result for each trigger and
+ * each call's outcome, duration and what the contact said
+ */
+export function CallHistoryPanel({ userId, isDark }: CallHistoryPanelProps) {
+  const [calls, setCalls] = useState<CallRecord[]>([]);
+  const [expandedSid, setExpandedSid] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const { borderColor, mutedText, cardBg, smallButtonStyle } = getThemeStyles(isDark);
+
+  useEffect(() => {
+    if (!userId) return;
+    // Calls keep reporting for a while after they're placed, so poll like the history does
+    const load = () => {
+      listRecentCalls(userId, RECENT_CALL_LIMIT)
+        .then((recent) => {
+          setCalls(recent);
+          setError('');
+        })
+        .catch((err) => setError(err instanceof Error ? err.message : (err as { message?: string })?.message ?? String(err)));
+    };
+    load();
+    const interval = setInterval(load, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [userId]);
+
+  if (!userId) {
+    return null;
+  }
+
+  const lastCalls = getLastCallByTrigger(calls);
+
+  return (
+    <div style={{ marginBottom: '20px' }}>
+      <div style={{ fontSize: '12px', color: mutedText, marginBottom: '8px' }}>Call History</div>
+
+      {calls.length === 0 && !error && (
+        <div style={{ fontSize: '12px', color: mutedText }}>No calls yet.</div>
+      )}
+
+      {calls.length > 0 && (
+        <div style={{ padding: '8px', backgroundColor: cardBg, borderRadius: '4px', fontSize: '12px', marginBottom: '6px' }}>
+          {TRIGGERS.filter((trigger) => lastCalls[trigger]).map((trigger) => {
+            const call = lastCalls[trigger]!;
+            return (
+              <div key={trigger} style={{ display: 'flex', justifyContent: 'space-between', padding: '2px 0' }}>
+                <span>{TRIGGER_LABELS[trigger]}</span>
+                <span style={{ color: OUTCOME_COLORS[call.outcome] }}>
+                  {describeCall(call)} <span style={{ color: mutedText }}>{formatCallTime(call.startedAt)}</span>
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {calls.map((call) => (
+        <div key={call.callSid} style={{ padding: '4px 0', fontSize: '12px', borderBottom: `1px solid ${borderColor}` }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <span style={{ color: mutedText }}>{formatCallTime(call.startedAt)}</span>
+            <span style={{ flex: 1 }}>
+              {TRIGGER_LABELS[call.trigger]}
+              {call.recipient && <span style={{ color: mutedText }}> → {call.recipient}</span>}
+            </span>
+            <span style={{ color: OUTCOME_COLORS[call.outcome] }}>{describeCall(call)}</span>
+            {call.speech.length > 0 && (
+              <button
+                onClick={() => setExpandedSid(expandedSid === call.callSid ? null : call.callSid)}
+                style={smallButtonStyle}
+                title="What they said"
+              >
+                {expandedSid === call.callSid ? '▲' : '💬'}
+              </button>
+            )}
+          </div>
+          {expandedSid === call.callSid &&
+            call.speech.map((line, index) => (
+              <div key={index} style={{ color: mutedText, fontStyle: 'italic', paddingLeft: '8px' }}>
+                “{line}”
+              </div>
+            ))}
+        </div>
+      ))}
+      {error && <div style={{ color: 'red', marginTop: '4px', fontSize: '12px' }}>{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { getCategorySide, type Category, type ClassificationRules } from '../classify';
+import { setClassificationRules } from '../storage';
+import { getThemeStyles, SIDE_COLORS } from './theme';
+
+interface CategoriesEditorProps {
+  rules: ClassificationRules;
+  isDark: boolean;
+}
+
+function clampWeight(weight: number): number {
+  return Number.isFinite(weight) ? Math.min(1, Math.max(-1, weight)) : 0;
+}
+
+/**
+ * Popup section for managing categories, their focus weights and blocking, and the default category
+ */
+export function CategoriesEditor({ rules, isDark }: CategoriesEditorProps) {
+  const [name, setName] = useState('');
+  const [weight, setWeight] = useState('0');
+  const [error, setError] = useState('');
+
+  const { borderColor, mutedText, inputStyle, smallButtonStyle, primaryButtonStyle } = getThemeStyles(isDark);
+
+  const saveCategories = async (updates: Partial<ClassificationRules>) => {
+    await setClassificationRules({ ...rules, ...updates });
+  };
+
+  const updateCategory = async (id: string, updates: Partial<Category>) => {
+    const categories = rules.categories.map((category) => (category.id === id ? { ...category, ...updates } : category));
+    await saveCategories({ categories });
+  };
+
+  const updateWeight = (id: string, value: string) => updateCategory(id, { weight: clampWeight(parseFloat(value)) });
+
+  const removeCategory = async (id: string) => {
+    if (id === rules.defaultCategory) {
+      setError('Choose another default category before removing this one');
+      return;
+    }
+    setError('');
+    await saveCategories({ categories: rules.categories.filter((category) => category.id !== id) });
+  };
+
+  const handleAddCategory = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const id = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    if (!id) {
+      setError('Category name is required');
+      return;
+    }
+    if (rules.categories.some((category) => category.id === id)) {
+      setError(`Category "${name.trim()}" already exists`);
+      return;
+    }
+
+    setError('');
+    const category: Category = { id, name: name.trim(), weight: clampWeight(parseFloat(weight)) };
+    await saveCategories({ categories: [...rules.categories, category] });
+    setName('');
+    setWeight('0');
+  };
+
+  return (
+    <div style={{ marginBottom: '20px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+        <div style={{ fontSize: '12px', color: mutedText }}>Categories</div>
+        <label style={{ fontSize: '11px', color: mutedText }}>
+          Unmatched sites:{' '}
+          <select
+            value={rules.defaultCategory}
+            onChange={(e) => saveCategories({ defaultCategory: e.target.value })}
+            style={inputStyle}
+          >
+            {rules.categories.map((category) => (
+              <option key={category.id} value={category.id}>{category.name}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {rules.categories.map((category) => (
+        <div
+          key={category.id}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '6px',
+            padding: '4px 0',
+            fontSize: '12px',
+            borderBottom: `1px solid ${borderColor}`,
+          }}
+        >
+          <span style={{ flex: 1, color: SIDE_COLORS[getCategorySide(category)], fontWeight: 500 }}>{category.name}</span>
+          <input
+            type="number"
+            min={-1}
+            max={1}
+            step={0.25}
+            value={category.weight}
+            onChange={(e) => updateWeight(category.id, e.target.value)}
+            style={{ ...inputStyle, width: '64px' }}
+            title="Focus weight: positive is productive, negative is distracting, 0 is neutral"
+          />
+          <label title="Always block this category" style={{ display: 'flex', alignItems: 'center', color: mutedText }}>
+            <input
+              type="checkbox"
+              checked={!!category.blocked}
+              onChange={(e) => updateCategory(category.id, { blocked: e.target.checked || undefined })}
+            />
+            🚫
+          </label>
+          <button onClick={() => removeCategory(category.id)} style={smallButtonStyle} title="Remove category">✕</button>
+        </div>
+      ))}
+
+      <form onSubmit={handleAddCategory} style={{ display: 'flex', gap: '4px', marginTop: '8px' }}>
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Shopping"
+          style={{ ...inputStyle, flex: 1, minWidth: 0 }}
+        />
+        <input
+          type="number"
+          min={-1}
+          max={1}
+          step={0.25}
+          value={weight}
+          onChange={(e) => setWeight(e.target.value)}
+          style={{ ...inputStyle, width: '64px' }}
+        />
+        <button type="submit" style={primaryButtonStyle}>
+          Add
+        </button>
+      </form>
+      {error && <div style={{ color: 'red', marginTop: '6px', fontSize: '12px' }}>{error}</div>}
+    </div>
+  );
+}
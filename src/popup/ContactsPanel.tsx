@@ -0,0 +1,209 @@
+import { useEffect, useState } from 'react';
+import {
+  addContact,
+  confirmVerificationCode,
+  getContactStatus,
+  listContacts,
+  removeContact,
+  sendVerificationCode,
+  validateContact,
+  VERIFICATION_CODE_LENGTH,
+  type Contact,
+  type ContactStatus,
+} from '../contacts';
+import { COUNTRIES, findCountry, parsePhoneNumber } from '../phone';
+import { getThemeStyles, SIDE_COLORS } from './theme';
+
+interface ContactsPanelProps {
+  userId: string | null;
+  isDark: boolean;
+}
+
+const STATUS_LABELS: Record<ContactStatus, string> = {
+  unverified: 'unverified',
+  verified: 'verified',
+  optedOut: 'opted out',
+};
+
+const STATUS_COLORS: Record<ContactStatus, string> = {
+  unverified: SIDE_COLORS.neutral,
+  verified: SIDE_COLORS.unproductive,
+  optedOut: SIDE_COLORS.productive,
+};
+
+/**
+ * Country to preselect, from the browser's locale ("en-GB" → GB)
+ */
+function getDefaultCountry(): string {
+  const region = navigator.language.split('-')[1]?.toUpperCase();
+  return region && findCountry(region) ? region : 'US';
+}
+
+/**
+ * Popup section for accountability contacts: adding numbers, verifying them with a texted code,
+ * and seeing who has opted out
+ */
+export function ContactsPanel({ userId, isDark }: ContactsPanelProps) {
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [country, setCountry] = useState(getDefaultCountry);
+  const [verifyingId, setVerifyingId] = useState<string | null>(null); // Contact a code was sent to
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const { borderColor, mutedText, inputStyle, smallButtonStyle, primaryButtonStyle } = getThemeStyles(isDark);
+
+  const reload = async () => {
+    if (!userId) return;
+    setContacts(await listContacts(userId));
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    if (!userId) return;
+    setBusy(true);
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : (err as { message?: string })?.message ?? String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  useEffect(() => {
+    setContacts([]);
+    run(reload);
+  }, [userId]);
+
+  const handleAdd = () =>
+    run(async () => {
+      const parsed = parsePhoneNumber(phone, country);
+      const validationError = validateContact(name, parsed, contacts);
+      if (validationError) {
+        setError(validationError);
+        return;
+      }
+      const contact = await addContact(userId!, name, parsed!, country);
+      setName('');
+      setPhone('');
+      await reload();
+      // Start verifying right away; the number can't be used before
+      await sendVerificationCode(contact.id);
+      setVerifyingId(contact.id);
+      setCode('');
+    });
+
+  const handleSendCode = (contactId: string) =>
+    run(async () => {
+      await sendVerificationCode(contactId);
+      setVerifyingId(contactId);
+      setCode('');
+    });
+
+  const handleConfirm = () =>
+    run(async () => {
+      await confirmVerificationCode(verifyingId!, code);
+      setVerifyingId(null);
+      setCode('');
+      await reload();
+    });
+
+  const handleRemove = (contact: Contact) => {
+    if (!confirm(`Remove ${contact.name}?`)) return;
+    return run(async () => {
+      await removeContact(userId!, contact.id);
+      if (verifyingId === contact.id) setVerifyingId(null);
+      await reload();
+    });
+  };
+
+  if (!userId) {
+    return null;
+  }
+
+  return (
+    <div style={{ marginBottom: '20px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+        <div style={{ fontSize: '12px', color: mutedText }}>Accountability Contacts</div>
+        <button onClick={() => run(reload)} disabled={busy} style={smallButtonStyle}>
+          Refresh
+        </button>
+      </div>
+
+      {contacts.length === 0 && (
+        <div style={{ fontSize: '12px', color: mutedText, marginBottom: '6px' }}>
+          No contacts yet. Calls and texts go to your verified contacts.
+        </div>
+      )}
+
+      {contacts.map((contact) => {
+        const status = getContactStatus(contact);
+        return (
+          <div key={contact.id} style={{ padding: '4px 0', fontSize: '12px', borderBottom: `1px solid ${borderColor}` }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+              <span style={{ flex: 1 }}>
+                {contact.name} <span style={{ color: mutedText }}>{contact.phone}</span>
+              </span>
+              <span style={{ color: STATUS_COLORS[status], fontSize: '11px' }}>{STATUS_LABELS[status]}</span>
+              {status === 'unverified' && (
+                <button onClick={() => handleSendCode(contact.id)} disabled={busy} style={smallButtonStyle}>
+                  {verifyingId === contact.id ? 'Resend code' : 'Verify'}
+                </button>
+              )}
+              <button onClick={() => handleRemove(contact)} disabled={busy} style={smallButtonStyle} title="Remove contact">
+                ✕
+              </button>
+            </div>
+            {status === 'optedOut' && (
+              <div style={{ color: mutedText, fontSize: '11px' }}>Replied STOP; they can text START to opt back in.</div>
+            )}
+            {verifyingId === contact.id && status === 'unverified' && (
+              <div style={{ display: 'flex', gap: '4px', marginTop: '4px' }}>
+                <input
+                  value={code}
+                  onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                  placeholder={`${VERIFICATION_CODE_LENGTH}-digit code`}
+                  maxLength={VERIFICATION_CODE_LENGTH}
+                  inputMode="numeric"
+                  style={{ ...inputStyle, flex: 1, minWidth: 0 }}
+                />
+                <button
+                  onClick={handleConfirm}
+                  disabled={busy || code.length !== VERIFICATION_CODE_LENGTH}
+                  style={primaryButtonStyle}
+                >
+                  Confirm
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div style={{ display: 'flex', gap: '4px', marginTop: '6px' }}>
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" style={{ ...inputStyle, width: '80px' }} />
+        <select value={country} onChange={(e) => setCountry(e.target.value)} style={{ ...inputStyle, width: '72px' }}>
+          {COUNTRIES.map((option) => (
+            <option key={option.code} value={option.code}>
+              {option.code} +{option.dialCode}
+            </option>
+          ))}
+        </select>
+        <input
+          value={phone}
+          onChange={(e) => setPhone(e.target.value)}
+          placeholder="Phone number"
+          type="tel"
+          style={{ ...inputStyle, flex: 1, minWidth: 0 }}
+        />
+        <button onClick={handleAdd} disabled={busy} style={primaryButtonStyle}>
+          Add
+        </button>
+      </div>
+      {error && <div style={{ color: 'red', marginTop: '4px', fontSize: '12px' }}>{error}</div>}
+    </div>
+  );
+}
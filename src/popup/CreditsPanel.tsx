@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react';
+import type { BudgetAction } from '../budgets';
+import { getDayKey } from '../calendar';
+import { getCreditBalance, type CreditSettings, type CreditTransaction } from '../credits';
+import { sendCommand } from '../messages';
+import { getLocalTimeZone } from '../schedule';
+import type { TrackingState } from '../storage';
+import { getThemeStyles, SIDE_COLORS } from './theme';
+
+interface CreditsPanelProps {
+  state: TrackingState;
+  transactions: CreditTransaction[];
+  isDark: boolean;
+}
+
+const ACTION_LABELS: Record<BudgetAction, string> = {
+  notify: 'Notify only',
+  call: 'Escalate',
+  block: 'Block distracting sites',
+};
+
+const RECENT_TRANSACTION_LIMIT = 5;
+
+function formatCredit(ms: number): string {
+  const totalSeconds = Math.floor(Math.abs(ms) / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  return minutes > 0 ? `${minutes}m ${totalSeconds % 60}s` : `${totalSeconds}s`;
+}
+
+/**
+ * Popup section for earn-to-scroll credits: the balance, recent transactions and the settings
+ */
+export function CreditsPanel({ state, transactions, isDark }: CreditsPanelProps) {
+  const settings = state.creditSettings;
+  const [earnRatio, setEarnRatio] = useState(String(settings.earnRatio));
+  const [maxBalance, setMaxBalance] = useState(String(settings.maxBalanceMinutes));
+  const [decay, setDecay] = useState(String(settings.dailyDecayPercent));
+  const [error, setError] = useState('');
+
+  const { borderColor, mutedText, cardBg, inputStyle, smallButtonStyle } = getThemeStyles(isDark);
+
+  useEffect(() => {
+    setEarnRatio(String(settings.earnRatio));
+    setMaxBalance(String(settings.maxBalanceMinutes));
+    setDecay(String(settings.dailyDecayPercent));
+  }, [settings.earnRatio, settings.maxBalanceMinutes, settings.dailyDecayPercent]);
+
+  const saveSettings = async (updates: Partial<CreditSettings>) => {
+    try {
+      await sendCommand({
+        type: 'updateSettings',
+        settings: { creditSettings: { ...settings, ...updates } },
+        settingsRevision: state.settingsRevision,
+      });
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleSaveNumbers = () =>
+    saveSettings({ earnRatio: Number(earnRatio), maxBalanceMinutes: Number(maxBalance), dailyDecayPercent: Number(decay) });
+
+  const balanceMs = getCreditBalance(state.credits, settings, getDayKey(Date.now(), getLocalTimeZone()));
+  const rowStyle = { display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', marginBottom: '6px' };
+
+  return (
+    <div style={{ marginBottom: '20px' }}>
+      <label style={{ ...rowStyle, color: mutedText }}>
+        <input type="checkbox" checked={settings.enabled} onChange={(e) => saveSettings({ enabled: e.target.checked })} />
+        Earn scroll credits with productive time
+      </label>
+
+      {settings.enabled && (
+        <>
+          <div style={{ padding: '8px', backgroundColor: cardBg, borderRadius: '4px', fontSize: '12px', marginBottom: '6px' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+              <span>🪙 Scroll credits</span>
+              <strong style={{ fontSize: '16px', color: balanceMs > 0 ? SIDE_COLORS.unproductive : SIDE_COLORS.productive }}>
+                {formatCredit(balanceMs)}
+              </strong>
+            </div>
+            {transactions.slice(0, RECENT_TRANSACTION_LIMIT).map((transaction) => (
+              <div
+                key={transaction.id}
+                style={{ display: 'flex', justifyContent: 'space-between', padding: '1px 0', color: mutedText, borderTop: `1px solid ${borderColor}` }}
+              >
+                <span>
+                  {new Date(transaction.end).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}{' '}
+                  {transaction.type === 'decay' ? 'Daily decay' : transaction.domain}
+                  {transaction.forfeitedMs ? ` (cap reached, ${formatCredit(transaction.forfeitedMs)} lost)` : ''}
+                </span>
+                <span>
+                  {transaction.amountMs >= 0 ? '+' : '-'}
+                  {formatCredit(transaction.amountMs)}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div style={rowStyle}>
+            <input
+              type="number"
+              min={0.1}
+              step={0.5}
+              value={earnRatio}
+              onChange={(e) => setEarnRatio(e.target.value)}
+              style={{ ...inputStyle, width: '48px' }}
+            />
+            <span style={{ color: mutedText }}>productive min earn 1 min, cap</span>
+            <input
+              type="number"
+              min={1}
+              value={maxBalance}
+              onChange={(e) => setMaxBalance(e.target.value)}
+              style={{ ...inputStyle, width: '52px' }}
+            />
+            <span style={{ color: mutedText }}>min</span>
+          </div>
+          <div style={rowStyle}>
+            <span style={{ color: mutedText }}>Lose</span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={decay}
+              onChange={(e) => setDecay(e.target.value)}
+              style={{ ...inputStyle, width: '48px' }}
+            />
+            <span style={{ color: mutedText }}>% at midnight</span>
+            <button onClick={handleSaveNumbers} style={smallButtonStyle}>
+              Save
+            </button>
+          </div>
+          <div style={rowStyle}>
+            <span style={{ color: mutedText }}>When credits run out:</span>
+            <select
+              value={settings.exhaustedAction}
+              onChange={(e) => saveSettings({ exhaustedAction: e.target.value as BudgetAction })}
+              style={inputStyle}
+            >
+              {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+        </>
+      )}
+      {error && <div style={{ color: 'red', fontSize: '12px' }}>{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+import { useEffect, useState } from 'react';
+import {
+  ESCALATION_CHANNEL_TYPES,
+  validateEscalationSettings,
+  type EscalationChannelType,
+  type EscalationLogEntry,
+  type EscalationSettings,
+  type EscalationTrigger,
+  type WebhookFormat,
+} from '../escalation';
+import { getNextEscalationTime, TIER_LABELS, type EscalationPolicy } from '../escalationPolicy';
+import { sendCommand } from '../messages';
+import { getLocalTimeZone } from '../schedule';
+import { setEscalationSettings, type TrackingState } from '../storage';
+import { getThemeStyles, SIDE_COLORS } from './theme';
+
+interface EscalationPanelProps {
+  settings: EscalationSettings;
+  log: EscalationLogEntry[];
+  state: TrackingState;
+  isDark: boolean;
+}
+
+export const TRIGGER_LABELS: Record<EscalationTrigger, string> = {
+  productiveStreak: 'Productive streak',
+  budget: 'Budget used up',
+  credits: 'Out of credits',
+  test: 'Test',
+};
+
+const CHANNEL_LABELS: Record<EscalationChannelType, string> = {
+  notification: 'Notify',
+  webhook: 'Webhook',
+  sms: 'SMS',
+  email: 'Email',
+  voice: 'Call',
+};
+
+const FORMAT_LABELS: Record<WebhookFormat, string> = {
+  slack: 'Slack',
+  discord: 'Discord',
+  json: 'JSON',
+};
+
+const RECENT_ESCALATION_LIMIT = 5;
+
+function formatNextEscalation(time: number, now: number): string {
+  if (time <= now) {
+    return 'now';
+  }
+  const date = new Date(time);
+  const clock = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return date.toDateString() === new Date(now).toDateString() ? `at ${clock}` : `at ${date.toLocaleDateString([], { weekday: 'short' })} ${clock}`;
+}
+
+/**
+ * Popup section for escalation channels: which channels each trigger uses, the webhook, the
+ * policy (cooldown, daily cap, quiet hours, tiers), channel tests and the latest decisions
+ */
+export function EscalationPanel({ settings, log, state, isDark }: EscalationPanelProps) {
+  const [webhookUrl, setWebhookUrl] = useState(settings.webhook.url);
+  const [cooldown, setCooldown] = useState(String(settings.policy.cooldownMinutes));
+  const [maxPerDay, setMaxPerDay] = useState(String(settings.policy.maxPerDay));
+  const [quietStart, setQuietStart] = useState(settings.policy.quietHours.start);
+  const [quietEnd, setQuietEnd] = useState(settings.policy.quietHours.end);
+  const [error, setError] = useState('');
+  const [testing, setTesting] = useState<EscalationChannelType | null>(null);
+
+  const { borderColor, mutedText, cardBg, inputStyle, smallButtonStyle } = getThemeStyles(isDark);
+  const { policy } = settings;
+
+  useEffect(() => {
+    setWebhookUrl(settings.webhook.url);
+  }, [settings.webhook.url]);
+
+  useEffect(() => {
+    setCooldown(String(policy.cooldownMinutes));
+    setMaxPerDay(String(policy.maxPerDay));
+    setQuietStart(policy.quietHours.start);
+    setQuietEnd(policy.quietHours.end);
+  }, [policy.cooldownMinutes, policy.maxPerDay, policy.quietHours.start, policy.quietHours.end]);
+
+  const saveSettings = async (next: EscalationSettings) => {
+    const validationError = validateEscalationSettings(next);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setError('');
+    await setEscalationSettings(next);
+  };
+
+  const toggleChannel = (trigger: keyof EscalationSettings['channels'], channel: EscalationChannelType, enabled: boolean) => {
+    const current = settings.channels[trigger];
+    // Kept in the canonical order, so channels run cheapest first
+    const channels = ESCALATION_CHANNEL_TYPES.filter((type) => (type === channel ? enabled : current.includes(type)));
+    return saveSettings({
+      ...settings,
+      channels: { ...settings.channels, [trigger]: channels },
+      webhook: { ...settings.webhook, url: webhookUrl.trim() },
+    });
+  };
+
+  const savePolicy = (updates: Partial<EscalationPolicy>) =>
+    saveSettings({ ...settings, webhook: { ...settings.webhook, url: webhookUrl.trim() }, policy: { ...policy, ...updates } });
+
+  const handleSavePolicy = () =>
+    savePolicy({
+      cooldownMinutes: Number(cooldown),
+      maxPerDay: Number(maxPerDay),
+      quietHours: { ...policy.quietHours, start: quietStart.trim(), end: quietEnd.trim() },
+    });
+
+  const handleTest = async (channel: EscalationChannelType) => {
+    setTesting(channel);
+    try {
+      await sendCommand({ type: 'testEscalation', channel });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setTesting(null);
+    }
+  };
+
+  const cellStyle = { padding: '2px 4px', textAlign: 'center' as const };
+  const rowStyle = { display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', marginBottom: '6px' };
+  const now = Date.now();
+  const nextEscalationAt = getNextEscalationTime({
+    policy,
+    lastEscalationAt: state.lastCallTriggerTime,
+    escalations: state.escalations,
+    now,
+    timeZone: getLocalTimeZone(),
+  });
+
+  return (
+    <div style={{ marginBottom: '20px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', color: mutedText, marginBottom: '8px' }}>
+        <span>Escalation</span>
+        <span>Next escalation possible {formatNextEscalation(nextEscalationAt, now)}</span>
+      </div>
+
+      <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px', marginBottom: '6px' }}>
+        <thead>
+          <tr style={{ color: mutedText }}>
+            <th style={{ ...cellStyle, textAlign: 'left', fontWeight: 'normal' }} />
+            {ESCALATION_CHANNEL_TYPES.map((channel) => (
+              <th key={channel} style={{ ...cellStyle, fontWeight: 'normal' }}>{CHANNEL_LABELS[channel]}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {(Object.keys(settings.channels) as (keyof EscalationSettings['channels'])[]).map((trigger) => (
+            <tr key={trigger} style={{ borderTop: `1px solid ${borderColor}` }}>
+              <td style={{ ...cellStyle, textAlign: 'left' }}>{TRIGGER_LABELS[trigger]}</td>
+              {ESCALATION_CHANNEL_TYPES.map((channel) => (
+                <td key={channel} style={cellStyle}>
+                  <input
+                    type="checkbox"
+                    checked={settings.channels[trigger].includes(channel)}
+                    onChange={(e) => toggleChannel(trigger, channel, e.target.checked)}
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+          <tr style={{ borderTop: `1px solid ${borderColor}` }}>
+            <td style={{ ...cellStyle, textAlign: 'left', color: mutedText }}>Test</td>
+            {ESCALATION_CHANNEL_TYPES.map((channel) => (
+              <td key={channel} style={cellStyle}>
+                <button onClick={() => handleTest(channel)} disabled={testing !== null} style={smallButtonStyle} title={`Send a test ${CHANNEL_LABELS[channel].toLowerCase()}`}>
+                  {testing === channel ? '…' : '▶'}
+                </button>
+              </td>
+            ))}
+          </tr>
+        </tbody>
+      </table>
+
+      <div style={{ display: 'flex', gap: '4px', marginBottom: '6px' }}>
+        <input
+          value={webhookUrl}
+          onChange={(e) => setWebhookUrl(e.target.value)}
+          placeholder="https://hooks.slack.com/services/..."
+          style={{ ...inputStyle, flex: 1, minWidth: 0 }}
+        />
+        <select
+          value={settings.webhook.format}
+          onChange={(e) => saveSettings({ ...settings, webhook: { url: webhookUrl.trim(), format: e.target.value as WebhookFormat } })}
+          style={inputStyle}
+        >
+          {Object.entries(FORMAT_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <button onClick={() => saveSettings({ ...settings, webhook: { ...settings.webhook, url: webhookUrl.trim() } })} style={smallButtonStyle}>
+          Save
+        </button>
+      </div>
+
+      <div style={rowStyle}>
+        <span style={{ color: mutedText }}>Wait</span>
+        <input
+          type="number"
+          min={0}
+          value={cooldown}
+          onChange={(e) => setCooldown(e.target.value)}
+          style={{ ...inputStyle, width: '52px' }}
+        />
+        <span style={{ color: mutedText }}>min between, at most</span>
+        <input
+          type="number"
+          min={1}
+          value={maxPerDay}
+          onChange={(e) => setMaxPerDay(e.target.value)}
+          style={{ ...inputStyle, width: '48px' }}
+        />
+        <span style={{ color: mutedText }}>a day</span>
+      </div>
+      <div style={rowStyle}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '4px', color: mutedText }}>
+          <input
+            type="checkbox"
+            checked={policy.quietHours.enabled}
+            onChange={(e) => savePolicy({ quietHours: { ...policy.quietHours, enabled: e.target.checked } })}
+          />
+          Quiet hours
+        </label>
+        <input value={quietStart} onChange={(e) => setQuietStart(e.target.value)} placeholder="22:00" style={{ ...inputStyle, width: '56px' }} />
+        <span style={{ color: mutedText }}>–</span>
+        <input value={quietEnd} onChange={(e) => setQuietEnd(e.target.value)} placeholder="07:00" style={{ ...inputStyle, width: '56px' }} />
+        <button onClick={handleSavePolicy} style={smallButtonStyle}>
+          Save
+        </button>
+      </div>
+      <label style={{ ...rowStyle, color: mutedText }}>
+        <input type="checkbox" checked={policy.tiers} onChange={(e) => savePolicy({ tiers: e.target.checked })} />
+        Escalate gradually: {TIER_LABELS[1]}, then {TIER_LABELS[2]}, then {TIER_LABELS[3]}
+      </label>
+
+      {log.length > 0 && (
+        <div style={{ padding: '8px', backgroundColor: cardBg, borderRadius: '4px', fontSize: '12px' }}>
+          {log.slice(0, RECENT_ESCALATION_LIMIT).map((entry) => (
+            <div key={entry.id} style={{ padding: '2px 0' }}>
+              <div style={{ color: mutedText }}>
+                {new Date(entry.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} {TRIGGER_LABELS[entry.trigger]}: {entry.decision.reason}
+              </div>
+              {entry.results.map((result) => (
+                <div key={result.channel} style={{ color: result.ok ? SIDE_COLORS.unproductive : SIDE_COLORS.productive }}>
+                  {result.ok ? '✓' : '✕'} {CHANNEL_LABELS[result.channel]}
+                  {!result.ok && `: ${result.error}`}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+      {error && <div style={{ color: 'red', marginTop: '6px', fontSize: '12px' }}>{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import {
+  DEFAULT_FOCUS_BREAK_MINUTES,
+  DEFAULT_FOCUS_WORK_MINUTES,
+  MAX_FOCUS_MINUTES,
+  getFocusPercentage,
+  type FocusReport,
+} from '../focus';
+import { sendCommand } from '../messages';
+import type { TrackingState } from '../storage';
+import { getThemeStyles, SIDE_COLORS } from './theme';
+
+interface FocusSessionPanelProps {
+  state: TrackingState;
+  reports: FocusReport[];
+  isDark: boolean;
+}
+
+const REPORT_DOMAIN_LIMIT = 5;
+
+function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+function formatMinutes(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  return minutes > 0 ? `${minutes}m` : `${Math.round(ms / 1000)}s`;
+}
+
+/**
+ * Popup section to start/stop a focus session (work then break) and read the last session's report
+ */
+export function FocusSessionPanel({ state, reports, isDark }: FocusSessionPanelProps) {
+  const [workMinutes, setWorkMinutes] = useState(DEFAULT_FOCUS_WORK_MINUTES);
+  const [breakMinutes, setBreakMinutes] = useState(DEFAULT_FOCUS_BREAK_MINUTES);
+  const [goal, setGoal] = useState('');
+  const [error, setError] = useState('');
+
+  const { borderColor, mutedText, cardBg, inputStyle, smallButtonStyle, primaryButtonStyle } = getThemeStyles(isDark);
+  const session = state.focusSession;
+  const lastReport = reports[0];
+
+  const runCommand = async (command: Parameters<typeof sendCommand>[0]) => {
+    try {
+      await sendCommand(command);
+      setError('');
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return false;
+    }
+  };
+
+  const handleStart = async () => {
+    if (await runCommand({ type: 'startFocusSession', options: { workMinutes, breakMinutes, goal } })) {
+      setGoal('');
+    }
+  };
+
+  const livePercentage = session ? getFocusPercentage(session) : null;
+
+  return (
+    <div style={{ marginBottom: '20px', padding: '8px', backgroundColor: cardBg, borderRadius: '4px', fontSize: '12px' }}>
+      {session ? (
+        <>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '4px' }}>
+            <strong>{session.phase === 'work' ? '🍅 Focus' : '☕ Break'}: {formatCountdown(session.phaseEndsAt - Date.now())}</strong>
+            <button onClick={() => runCommand({ type: 'stopFocusSession' })} style={smallButtonStyle}>
+              Stop
+            </button>
+          </div>
+          {session.goal && <div style={{ marginBottom: '4px' }}>Goal: {session.goal}</div>}
+          {session.phase === 'work' && (
+            <div style={{ color: mutedText }}>
+              {livePercentage === null ? 'No time tracked yet.' : `${livePercentage}% focused so far`}
+              {session.unproductiveMs > 0 && `, ${formatMinutes(session.unproductiveMs)} distracted`}
+            </div>
+          )}
+        </>
+      ) : (
+        <>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '6px' }}>
+            <span style={{ color: mutedText }}>Work</span>
+            <input
+              type="number"
+              min={1}
+              max={MAX_FOCUS_MINUTES}
+              value={workMinutes}
+              onChange={(e) => setWorkMinutes(Number(e.target.value))}
+              style={{ ...inputStyle, width: '52px' }}
+            />
+            <span style={{ color: mutedText }}>min, break</span>
+            <input
+              type="number"
+              min={0}
+              max={MAX_FOCUS_MINUTES}
+              value={breakMinutes}
+              onChange={(e) => setBreakMinutes(Number(e.target.value))}
+              style={{ ...inputStyle, width: '52px' }}
+            />
+            <span style={{ color: mutedText }}>min</span>
+          </div>
+          <div style={{ display: 'flex', gap: '6px', marginBottom: '6px' }}>
+            <input
+              type="text"
+              placeholder="Goal (optional)"
+              value={goal}
+              onChange={(e) => setGoal(e.target.value)}
+              style={{ ...inputStyle, flex: 1 }}
+            />
+            <button onClick={handleStart} style={primaryButtonStyle}>
+              Start focus session
+            </button>
+          </div>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px', color: mutedText }}>
+            <input
+              type="checkbox"
+              checked={state.blockDuringFocus}
+              onChange={(e) =>
+                runCommand({ type: 'updateSettings', settings: { blockDuringFocus: e.target.checked }, settingsRevision: state.settingsRevision })
+              }
+            />
+            Block distracting sites while focusing
+          </label>
+        </>
+      )}
+
+      {lastReport && (!session || session.id !== lastReport.id) && (
+        <div style={{ marginTop: '8px', paddingTop: '6px', borderTop: `1px solid ${borderColor}` }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', color: mutedText, marginBottom: '2px' }}>
+            <span>
+              Last session{lastReport.completed ? '' : ' (stopped early)'}, {new Date(lastReport.startedAt).toLocaleTimeString()}
+            </span>
+            <span>{lastReport.focusPercentage === null ? 'nothing tracked' : `${lastReport.focusPercentage}% focus`}</span>
+          </div>
+          {lastReport.goal && <div style={{ marginBottom: '2px' }}>Goal: {lastReport.goal}</div>}
+          {lastReport.distractions.slice(0, REPORT_DOMAIN_LIMIT).map((entry) => (
+            <div key={entry.domain} style={{ display: 'flex', justifyContent: 'space-between', padding: '1px 0' }}>
+              <span style={{ color: SIDE_COLORS.unproductive }}>{entry.domain}</span>
+              <span>
+                {formatMinutes(entry.ms)} · {entry.visits} visit{entry.visits === 1 ? '' : 's'}
+              </span>
+            </div>
+          ))}
+          {lastReport.distractions.length === 0 && <div style={{ color: mutedText }}>No distracting sites.</div>}
+        </div>
+      )}
+      {error && <div style={{ color: 'red', marginTop: '4px' }}>{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import { addDays, getDayKey } from '../calendar';
+import { computeFocusScore, findCategory, getCategorySide, type CategoryTotals, type ClassificationRules } from '../classify';
+import { getDayTotals, getRecentSegments, getWeekTotals, type VisitSegment } from '../history';
+import { getLocalTimeZone } from '../schedule';
+import { getThemeStyles, SIDE_COLORS } from './theme';
+
+interface HistoryPanelProps {
+  rules: ClassificationRules;
+  isDark: boolean;
+}
+
+type Period = 'today' | 'yesterday' | 'week';
+
+const PERIOD_LABELS: Record<Period, string> = { today: 'Today', yesterday: 'Yesterday', week: 'This week' };
+const RECENT_LIMIT = 10;
+const REFRESH_INTERVAL_MS = 5000;
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
+function loadPeriodTotals(period: Period): Promise<CategoryTotals> {
+  const timeZone = getLocalTimeZone();
+  const today = getDayKey(Date.now(), timeZone);
+  if (period === 'today') return getDayTotals(today, timeZone);
+  if (period === 'yesterday') return getDayTotals(addDays(today, -1), timeZone);
+  return getWeekTotals(today, timeZone);
+}
+
+/**
+ * Popup section with today / yesterday / this week totals and the latest visit segments
+ */
+export function HistoryPanel({ rules, isDark }: HistoryPanelProps) {
+  const [period, setPeriod] = useState<Period>('today');
+  const [periodTotals, setPeriodTotals] = useState<CategoryTotals>({});
+  const [segments, setSegments] = useState<VisitSegment[]>([]);
+  const [error, setError] = useState('');
+
+  const { borderColor, mutedText, smallButtonStyle, primaryButtonStyle } = getThemeStyles(isDark);
+
+  useEffect(() => {
+    const load = () => {
+      Promise.all([loadPeriodTotals(period), getRecentSegments(RECENT_LIMIT)])
+        .then(([totals, recent]) => {
+          setPeriodTotals(totals);
+          setSegments(recent);
+          setError('');
+        })
+        .catch((err) => setError(err instanceof Error ? err.message : String(err)));
+    };
+    load();
+    const interval = setInterval(load, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [period]);
+
+  const focusScore = computeFocusScore(periodTotals, rules);
+  const totalEntries = Object.entries(periodTotals).filter(([, ms]) => ms > 0).sort(([, a], [, b]) => b - a);
+
+  return (
+    <div style={{ marginBottom: '20px' }}>
+      <div style={{ display: 'flex', gap: '4px', marginBottom: '8px' }}>
+        {(Object.keys(PERIOD_LABELS) as Period[]).map((option) => (
+          <button key={option} onClick={() => setPeriod(option)} style={option === period ? primaryButtonStyle : smallButtonStyle}>
+            {PERIOD_LABELS[option]}
+          </button>
+        ))}
+        {focusScore !== null && <span style={{ marginLeft: 'auto', fontSize: '12px', color: mutedText }}>Focus score: {focusScore}%</span>}
+      </div>
+
+      {totalEntries.length === 0 && <div style={{ fontSize: '12px', color: mutedText, marginBottom: '8px' }}>No time tracked.</div>}
+      {totalEntries.map(([categoryId, ms]) => {
+        const category = findCategory(rules, categoryId);
+        return (
+          <div key={categoryId} style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', padding: '2px 0' }}>
+            <span style={{ color: SIDE_COLORS[getCategorySide(category)] }}>{category?.name ?? categoryId}</span>
+            <span>{formatDuration(ms)}</span>
+          </div>
+        );
+      })}
+
+      <div style={{ fontSize: '12px', color: mutedText, margin: '12px 0 8px' }}>Recent Activity</div>
+
+      {segments.length === 0 && !error && <div style={{ fontSize: '12px', color: mutedText }}>No visits recorded yet.</div>}
+
+      {segments.map((segment) => {
+        const category = findCategory(rules, segment.category);
+        return (
+          <div
+            key={segment.id}
+            style={{ display: 'flex', gap: '6px', padding: '3px 0', fontSize: '12px', borderBottom: `1px solid ${borderColor}` }}
+          >
+            <span style={{ color: mutedText, whiteSpace: 'nowrap' }}>
+              {new Date(segment.start).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </span>
+            <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={`${segment.domain}${segment.path ?? ''}`}>
+              {segment.media && <span title="Playing in the background">🎵 </span>}
+              {segment.domain}
+              {segment.path && segment.path !== '/' && <span style={{ color: mutedText }}>{segment.path}</span>}
+            </span>
+            <span style={{ color: SIDE_COLORS[segment.side] }}>{category?.name ?? segment.category}</span>
+            <span style={{ whiteSpace: 'nowrap' }}>{formatDuration(segment.end - segment.start)}</span>
+          </div>
+        );
+      })}
+
+      {error && <div style={{ color: 'red', marginTop: '4px', fontSize: '12px' }}>History unavailable: {error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import type { ClassificationRules } from '../classify';
+import {
+  applyRuleDiff,
+  detectFormat,
+  diffRules,
+  parseRuleList,
+  serializeRules,
+  type ListFormat,
+  type ParsedRuleList,
+  type RuleDiff,
+} from '../ruleFormats';
+import { setClassificationRules } from '../storage';
+import { getThemeStyles } from './theme';
+
+interface ImportExportPanelProps {
+  rules: ClassificationRules;
+  isDark: boolean;
+}
+
+const FORMAT_LABELS: Record<ListFormat, string> = {
+  hosts: 'Hosts file',
+  domains: 'Domain list',
+  ublock: 'uBlock filters',
+  json: 'Scrollify JSON',
+};
+const FILE_EXTENSIONS: Record<ListFormat, string> = { hosts: 'txt', domains: 'txt', ublock: 'txt', json: 'json' };
+const PREVIEW_LIMIT = 5;
+
+/**
+ * Popup section to import site lists (with a diff preview) and export the current rules
+ */
+export function ImportExportPanel({ rules, isDark }: ImportExportPanelProps) {
+  const [text, setText] = useState('');
+  const [format, setFormat] = useState<ListFormat | 'auto'>('auto');
+  const [category, setCategory] = useState(rules.categories.find((c) => c.weight < 0)?.id ?? rules.defaultCategory);
+  const [preview, setPreview] = useState<{ parsed: ParsedRuleList; diff: RuleDiff } | null>(null);
+  const [message, setMessage] = useState('');
+
+  const { mutedText, inputStyle, smallButtonStyle, primaryButtonStyle } = getThemeStyles(isDark);
+  const resolvedFormat = format === 'auto' ? detectFormat(text) : format;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setText(await file.text());
+    setPreview(null);
+  };
+
+  const handlePreview = () => {
+    const parsed = parseRuleList(text, resolvedFormat, category);
+    setPreview({ parsed, diff: diffRules(rules.rules, parsed.rules) });
+    setMessage('');
+  };
+
+  const handleApply = async () => {
+    if (!preview) return;
+    const categories = [...rules.categories];
+    for (const imported of preview.parsed.categories) {
+      if (!categories.some((existing) => existing.id === imported.id)) {
+        categories.push(imported);
+      }
+    }
+    await setClassificationRules({ ...rules, categories, rules: applyRuleDiff(rules.rules, preview.diff) });
+    setMessage(`Imported ${preview.diff.added.length} new and ${preview.diff.changed.length} updated rules`);
+    setPreview(null);
+    setText('');
+  };
+
+  const handleExport = () => {
+    const exportFormat = format === 'auto' ? 'json' : format;
+    const { text: exported, skipped } = serializeRules(rules, exportFormat, exportFormat === 'json' ? null : category);
+    setText(exported);
+    setPreview(null);
+    setMessage(skipped > 0 ? `${skipped} rules can't be expressed as ${FORMAT_LABELS[exportFormat]} and were skipped` : '');
+
+    const url = URL.createObjectURL(new Blob([exported], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `scrollify-rules.${FILE_EXTENSIONS[exportFormat]}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div style={{ marginBottom: '20px' }}>
+      <div style={{ fontSize: '12px', color: mutedText, marginBottom: '8px' }}>Import / Export</div>
+
+      <div style={{ display: 'flex', gap: '4px', marginBottom: '4px' }}>
+        <select value={format} onChange={(e) => setFormat(e.target.value as ListFormat | 'auto')} style={inputStyle}>
+          <option value="auto">Auto-detect</option>
+          {Object.entries(FORMAT_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <select
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          style={inputStyle}
+          title="Category for imported domains, and which rules to export as a list"
+        >
+          {rules.categories.map((option) => (
+            <option key={option.id} value={option.id}>{option.name}</option>
+          ))}
+        </select>
+        <input type="file" accept=".txt,.json,.hosts" onChange={handleFile} style={{ fontSize: '11px', minWidth: 0, flex: 1 }} />
+      </div>
+
+      <textarea
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setPreview(null);
+        }}
+        placeholder={'||reddit.com^\n0.0.0.0 news.ycombinator.com\nx.com'}
+        rows={4}
+        style={{ ...inputStyle, width: '100%', fontFamily: 'monospace', resize: 'vertical' }}
+      />
+
+      <div style={{ display: 'flex', gap: '4px', marginTop: '4px' }}>
+        <button onClick={handlePreview} disabled={!text.trim()} style={smallButtonStyle}>
+          Preview import{text.trim() ? ` (${FORMAT_LABELS[resolvedFormat]})` : ''}
+        </button>
+        <button onClick={handleExport} style={smallButtonStyle}>
+          Export
+        </button>
+      </div>
+
+      {preview && (
+        <div style={{ marginTop: '8px', fontSize: '12px' }}>
+          <div>
+            <span style={{ color: '#28a745' }}>+{preview.diff.added.length} new</span>,{' '}
+            <span style={{ color: '#fd7e14' }}>~{preview.diff.changed.length} changed</span>,{' '}
+            {preview.diff.unchanged} already present, {preview.parsed.duplicates} duplicates,{' '}
+            <span style={{ color: '#dc3545' }}>{preview.parsed.invalid.length} invalid</span>
+          </div>
+          {preview.diff.added.slice(0, PREVIEW_LIMIT).map((rule) => (
+            <div key={rule.id} style={{ color: mutedText }}>+ {rule.pattern} → {rule.category}</div>
+          ))}
+          {preview.diff.changed.slice(0, PREVIEW_LIMIT).map(({ before, after }) => (
+            <div key={before.id} style={{ color: mutedText }}>~ {before.pattern}: {before.category} → {after.category}</div>
+          ))}
+          {preview.parsed.invalid.slice(0, PREVIEW_LIMIT).map((line, index) => (
+            <div key={index} style={{ color: '#dc3545', wordBreak: 'break-all' }}>✕ {line}</div>
+          ))}
+          <button
+            onClick={handleApply}
+            disabled={preview.diff.added.length === 0 && preview.diff.changed.length === 0}
+            style={{ ...primaryButtonStyle, marginTop: '4px' }}
+          >
+            Apply import
+          </button>
+        </div>
+      )}
+      {message && <div style={{ marginTop: '6px', fontSize: '12px', color: mutedText }}>{message}</div>}
+    </div>
+  );
+}
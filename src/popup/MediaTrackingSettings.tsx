@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { sendCommand } from '../messages';
+import type { MediaOverlapPolicy, TrackingSettings, TrackingState } from '../storage';
+import { getThemeStyles } from './theme';
+
+interface MediaTrackingSettingsProps {
+  state: TrackingState;
+  isDark: boolean;
+}
+
+const POLICY_LABELS: Record<MediaOverlapPolicy, string> = {
+  foreground: 'Foreground tab wins',
+  unproductive: 'Most distracting tab wins',
+  split: 'Split time evenly',
+};
+
+/**
+ * Popup section for crediting audible / picture-in-picture tabs alongside the foreground tab
+ */
+export function MediaTrackingSettings({ state, isDark }: MediaTrackingSettingsProps) {
+  const [error, setError] = useState('');
+
+  const { mutedText, inputStyle } = getThemeStyles(isDark);
+  const playingCount = state.trackBackgroundMedia
+    ? state.mediaTabs.filter((tab) => tab.tabId !== state.currentTabId).length
+    : 0;
+
+  const saveSettings = async (settings: TrackingSettings) => {
+    try {
+      await sendCommand({ type: 'updateSettings', settings, settingsRevision: state.settingsRevision });
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div style={{ marginBottom: '20px' }}>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', marginBottom: '8px' }}>
+        <input
+          type="checkbox"
+          checked={state.trackBackgroundMedia}
+          onChange={(e) => saveSettings({ trackBackgroundMedia: e.target.checked })}
+        />
+        Track background audio and picture-in-picture
+      </label>
+
+      {state.trackBackgroundMedia && (
+        <>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', marginBottom: '4px' }}>
+            <span style={{ color: mutedText }}>When a tab plays behind another:</span>
+            <select
+              value={state.mediaOverlapPolicy}
+              onChange={(e) => saveSettings({ mediaOverlapPolicy: e.target.value as MediaOverlapPolicy })}
+              style={inputStyle}
+            >
+              {(Object.keys(POLICY_LABELS) as MediaOverlapPolicy[]).map((policy) => (
+                <option key={policy} value={policy}>
+                  {POLICY_LABELS[policy]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div style={{ fontSize: '11px', color: mutedText }}>
+            {playingCount === 0 ? 'No background tabs playing.' : `${playingCount} background tab${playingCount === 1 ? '' : 's'} playing.`}
+          </div>
+        </>
+      )}
+      {error && <div style={{ color: 'red', marginTop: '4px', fontSize: '12px' }}>{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import { MIN_IDLE_DETECTION_SECONDS, describePause, isActivityPaused } from '../accounting';
+import { sendCommand } from '../messages';
+import type { PausePolicy, TrackingSettings, TrackingState } from '../storage';
+import { getThemeStyles } from './theme';
+
+interface PauseSettingsProps {
+  state: TrackingState;
+  isDark: boolean;
+}
+
+const POLICY_LABELS: Record<PausePolicy, string> = {
+  both: 'Idle and no window focused',
+  idle: 'Idle',
+  unfocused: 'No window focused',
+  never: 'Never',
+};
+
+/**
+ * Popup section for when tracked time pauses (idle, locked screen, unfocused browser)
+ */
+export function PauseSettings({ state, isDark }: PauseSettingsProps) {
+  const [detectionSeconds, setDetectionSeconds] = useState(String(state.idleDetectionSeconds));
+  const [error, setError] = useState('');
+
+  const { mutedText, inputStyle, smallButtonStyle } = getThemeStyles(isDark);
+
+  useEffect(() => {
+    setDetectionSeconds(String(state.idleDetectionSeconds));
+  }, [state.idleDetectionSeconds]);
+
+  // The background credits time so far under the old settings before applying these
+  const saveSettings = async (settings: TrackingSettings) => {
+    try {
+      await sendCommand({ type: 'updateSettings', settings, settingsRevision: state.settingsRevision });
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleSaveDetection = async () => {
+    const seconds = Number(detectionSeconds);
+    if (!Number.isInteger(seconds) || seconds < MIN_IDLE_DETECTION_SECONDS) {
+      setError(`Idle detection needs a whole number of seconds, at least ${MIN_IDLE_DETECTION_SECONDS}`);
+      return;
+    }
+    await saveSettings({ idleDetectionSeconds: seconds });
+  };
+
+  const rowStyle = { display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', marginBottom: '6px' };
+
+  return (
+    <div style={{ marginBottom: '20px' }}>
+      <div style={rowStyle}>
+        <span style={{ color: mutedText }}>Pause tracking when:</span>
+        <select
+          value={state.pausePolicy}
+          onChange={(e) => saveSettings({ pausePolicy: e.target.value as PausePolicy })}
+          style={inputStyle}
+        >
+          {(Object.keys(POLICY_LABELS) as PausePolicy[]).map((policy) => (
+            <option key={policy} value={policy}>
+              {POLICY_LABELS[policy]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div style={rowStyle}>
+        <span style={{ color: mutedText }}>Idle after</span>
+        <input
+          type="number"
+          min={MIN_IDLE_DETECTION_SECONDS}
+          value={detectionSeconds}
+          onChange={(e) => setDetectionSeconds(e.target.value)}
+          style={{ ...inputStyle, width: '70px' }}
+        />
+        <span style={{ color: mutedText }}>seconds without input</span>
+        {detectionSeconds !== String(state.idleDetectionSeconds) && (
+          <button onClick={handleSaveDetection} style={smallButtonStyle}>
+            Save
+          </button>
+        )}
+      </div>
+
+      <label style={rowStyle}>
+        <input
+          type="checkbox"
+          checked={state.pauseWhenLocked}
+          onChange={(e) => saveSettings({ pauseWhenLocked: e.target.checked })}
+        />
+        Always pause while the screen is locked
+      </label>
+
+      <label style={rowStyle}>
+        <input
+          type="checkbox"
+          checked={state.keepCountingDuringMedia}
+          onChange={(e) => saveSettings({ keepCountingDuringMedia: e.target.checked })}
+        />
+        Keep counting while the current tab plays video
+      </label>
+
+      {isActivityPaused(state) && <div style={{ fontSize: '11px', color: mutedText }}>Paused: {describePause(state)}</div>}
+      {error && <div style={{ color: 'red', marginTop: '4px', fontSize: '12px' }}>{error}</div>}
+    </div>
+  );
+}
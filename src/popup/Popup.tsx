@@ -1,9 +1,71 @@
 import React, { useState, useEffect } from 'react';
 import { createRoot } from 'react-dom/client';
 import { supabase } from '../supabaseClient';
-import { getTrackingState, updateTrackingState, setUserId, type TrackingState } from '../storage';
-import { classifyDomain, extractDomain } from '../classify';
-import { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_PHONE_NUMBER, WEBHOOK_URL } from '../env';
+import {
+  getTrackingState,
+  getClassificationRules,
+  getSharedListsCache,
+  getOutbox,
+  getFocusReports,
+  getBudgets,
+  getCreditTransactions,
+  getEscalationLog,
+  getEscalationSettings,
+  BUDGETS_STORAGE_KEY,
+  CREDIT_TRANSACTIONS_STORAGE_KEY,
+  ESCALATION_LOG_STORAGE_KEY,
+  ESCALATION_SETTINGS_STORAGE_KEY,
+  FOCUS_REPORTS_STORAGE_KEY,
+  OUTBOX_STORAGE_KEY,
+  RULES_STORAGE_KEY,
+  SHARED_LISTS_STORAGE_KEY,
+  TRACKING_STATE_STORAGE_KEY,
+  type TrackingState,
+} from '../storage';
+import {
+  classifyUrl,
+  getCategorySide,
+  sumCategoryTotals,
+  computeFocusScore,
+  findCategory,
+  findSchedule,
+  isTrackingScheduled,
+  type CategoryTotals,
+  type ClassificationRules,
+  type PageSignals,
+} from '../classify';
+import { getLiveCategoryTotals } from '../accounting';
+import { sendCommand } from '../messages';
+import { extractDomain, getUntrackedReason, type UntrackedReason } from '../normalize';
+import { getActiveSchedules } from '../schedule';
+import type { Budget } from '../budgets';
+import type { CreditTransaction } from '../credits';
+import type { EscalationLogEntry, EscalationSettings } from '../escalation';
+import type { FocusReport } from '../focus';
+import type { Outbox } from '../outbox';
+import { applySharedRuleSets, type SharedListsCache } from '../sharedLists';
+import { RulesEditor } from './RulesEditor';
+import { CategoriesEditor } from './CategoriesEditor';
+import { SchedulesEditor } from './SchedulesEditor';
+import { SharedListsPanel } from './SharedListsPanel';
+import { ImportExportPanel } from './ImportExportPanel';
+import { HistoryPanel } from './HistoryPanel';
+import { FocusSessionPanel } from './FocusSessionPanel';
+import { BudgetsPanel } from './BudgetsPanel';
+import { CreditsPanel } from './CreditsPanel';
+import { EscalationPanel } from './EscalationPanel';
+import { ContactsPanel } from './ContactsPanel';
+import { CallHistoryPanel } from './CallHistoryPanel';
+import { MediaTrackingSettings } from './MediaTrackingSettings';
+import { PauseSettings } from './PauseSettings';
+import { SyncStatus } from './SyncStatus';
+import { SIDE_COLORS } from './theme';
+
+const UNTRACKED_LABELS: Record<Exclude<UntrackedReason, 'invalid'>, string> = {
+  internal: 'browser page',
+  'new-tab': 'new tab',
+  local: 'local development server',
+};
 
 function Popup() {
   const [user, setUser] = useState<any>(null);
@@ -13,7 +75,18 @@ function Popup() {
   const [loginError, setLoginError] = useState('');
   const [trackingState, setTrackingState] = useState<TrackingState | null>(null);
   const [currentUrl, setCurrentUrl] = useState<string | null>(null);
+  const [pageSignals, setPageSignals] = useState<PageSignals | null>(null);
   const [theme, setTheme] = useState<'light' | 'dark'>('light');
+  // Local rules are what the editors change; effective rules also include shared lists
+  const [localRules, setLocalRules] = useState<ClassificationRules | null>(null);
+  const [sharedLists, setSharedLists] = useState<SharedListsCache | null>(null);
+  const [outbox, setOutbox] = useState<Outbox | null>(null);
+  const [focusReports, setFocusReports] = useState<FocusReport[]>([]);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [creditTransactions, setCreditTransactions] = useState<CreditTransaction[]>([]);
+  const [escalationSettings, setEscalationSettings] = useState<EscalationSettings | null>(null);
+  const [escalationLog, setEscalationLog] = useState<EscalationLogEntry[]>([]);
+  const [, setClock] = useState(Date.now());
 
   useEffect(() => {
     // Check auth state
@@ -32,20 +105,68 @@ function Popup() {
       if (tabs[0]?.url) {
         setCurrentUrl(tabs[0].url);
       }
+      // Ask the page's content script for signals so the badge matches the background's classification
+      if (tabs[0]?.id !== undefined) {
+        chrome.tabs.sendMessage(tabs[0].id, { type: 'getPageSignals' })
+          .then((signals: PageSignals | undefined) => setPageSignals(signals ?? null))
+          .catch(() => setPageSignals(null));
+      }
     });
 
-    // Update tracking state periodically
-    const updateState = async () => {
-      const state = await getTrackingState();
-      setTrackingState(state);
+    // The background owns the state; render whatever it last wrote
+    const showState = (state: TrackingState) => {
+      // Change events can arrive out of order; never go back to an older revision
+      setTrackingState((current) => (current && current.revision > state.revision ? current : state));
       setTheme(state.theme || 'light');
     };
+    const loadState = async () => {
+      const [state, rules, shared, queued, reports, storedBudgets, transactions, escalation, escalations] = await Promise.all([
+        getTrackingState(),
+        getClassificationRules(),
+        getSharedListsCache(),
+        getOutbox(),
+        getFocusReports(),
+        getBudgets(),
+        getCreditTransactions(),
+        getEscalationSettings(),
+        getEscalationLog(),
+      ]);
+      showState(state);
+      setLocalRules(rules);
+      setSharedLists(shared);
+      setOutbox(queued);
+      setFocusReports(reports);
+      setBudgets(storedBudgets);
+      setCreditTransactions(transactions);
+      setEscalationSettings(escalation);
+      setEscalationLog(escalations);
+    };
+    const handleStorageChange = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+      if (areaName !== 'local') return;
+      if (
+        changes[TRACKING_STATE_STORAGE_KEY] ||
+        changes[RULES_STORAGE_KEY] ||
+        changes[SHARED_LISTS_STORAGE_KEY] ||
+        changes[OUTBOX_STORAGE_KEY] ||
+        changes[FOCUS_REPORTS_STORAGE_KEY] ||
+        changes[BUDGETS_STORAGE_KEY] ||
+        changes[CREDIT_TRANSACTIONS_STORAGE_KEY] ||
+        changes[ESCALATION_SETTINGS_STORAGE_KEY] ||
+        changes[ESCALATION_LOG_STORAGE_KEY]
+      ) {
+        // Re-read through the getters so defaults and migrations apply
+        loadState().catch(console.error);
+      }
+    };
 
-    updateState();
-    const interval = setInterval(updateState, 1000);
+    loadState().catch(console.error);
+    chrome.storage.onChanged.addListener(handleStorageChange);
+    // Totals include the open span, so re-render every second while the popup is open
+    const interval = setInterval(() => setClock(Date.now()), 1000);
 
     return () => {
       subscription.unsubscribe();
+      chrome.storage.onChanged.removeListener(handleStorageChange);
       clearInterval(interval);
     };
   }, []);
@@ -73,138 +194,45 @@ function Popup() {
         setLoginError('Profile not found. Please contact support.');
         console.error('Error getting profile:', profileError);
       } else {
-        await setUserId(profile.user_id);
+        await sendCommand({ type: 'setUserId', userId: profile.user_id }).catch((error) => {
+          console.error('Error setting user:', error);
+        });
         setUser(data.user);
       }
     }
   };
 
   const handleLogout = async () => {
+    // Send the user's time and queued writes while the session can still write them
+    await sendCommand({ type: 'signOut' }).catch((error) => {
+      console.error('Error signing out:', error);
+    });
     await supabase.auth.signOut();
-    await setUserId(null);
     setUser(null);
   };
 
   const toggleTheme = async () => {
     const newTheme = theme === 'light' ? 'dark' : 'light';
     setTheme(newTheme);
-    await updateTrackingState({ theme: newTheme });
+    await sendCommand({ type: 'updateSettings', settings: { theme: newTheme } }).catch((error) => {
+      console.error('Error saving theme:', error);
+    });
   };
 
   const handleTestCall = async () => {
+    // The background sends it through api/initiate-call and logs the result
     try {
-      // Validate credentials
-      if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !TWILIO_PHONE_NUMBER) {
-        alert('Twilio credentials missing. Please check your .env file.');
-        console.error('Twilio credentials missing. Cannot initiate call.');
-        return;
+      await sendCommand({ type: 'testEscalation', channel: 'voice' });
+      const [entry] = await getEscalationLog();
+      const result = entry?.results[0];
+      if (result?.ok) {
+        console.log('AI agent call initiated:', result.reference);
+        alert(`Call initiated! Call SID: ${result.reference}\nYou should receive a call shortly.`);
+      } else if (result) {
+        console.error('Error triggering test call:', result.error);
+        const retryHint = result.retryAfterSeconds ? `\nYou can try again in ${Math.ceil(result.retryAfterSeconds / 60)} min.` : '';
+        alert(`Error: ${result.error}${retryHint}`);
       }
-
-      if (!WEBHOOK_URL || WEBHOOK_URL.includes('your-webhook-server.com')) {
-        alert('Webhook URL not configured. Please set VITE_WEBHOOK_URL in .env file.');
-        console.error('Webhook URL not configured.');
-        return;
-      }
-
-      // Get current user_id from tracking state
-      const state = await getTrackingState();
-      if (!state.userId) {
-        alert('You must be logged in to test the call.');
-        console.error('No user ID found');
-        return;
-      }
-
-      // Fetch dad's number from profiles table using user_id
-      const { data: profile, error: profileError } = await supabase
-        .from('profiles')
-        .select('dads_number')
-        .eq('user_id', state.userId)
-        .single();
-
-      if (profileError || !profile) {
-        alert('Error: Could not find your profile. Please contact support.');
-        console.error('Error fetching profile:', profileError);
-        return;
-      }
-
-      const dadsNumber = profile.dads_number;
-      if (!dadsNumber || !dadsNumber.trim()) {
-        alert('Error: Dad\'s number not found in your profile. Please update your profile.');
-        console.error('Dad\'s number not found in profile');
-        return;
-      }
-
-      // Clean and format phone number
-      const cleanedPhone = dadsNumber.trim().replace(/[\s\-\(\)]/g, '');
-      
-      // Format phone number with country code if needed
-      const toPhoneNumber = cleanedPhone.startsWith('+') 
-        ? cleanedPhone 
-        : cleanedPhone.startsWith('1') && cleanedPhone.length === 11
-        ? `+${cleanedPhone}`
-        : `+1${cleanedPhone}`;
-      
-      console.log('Test call - Calling dad\'s number:', toPhoneNumber, '(original:', dadsNumber, ')');
-
-      // Create Basic Auth header for Twilio
-      const credentials = btoa(`${TWILIO_ACCOUNT_SID}:${TWILIO_AUTH_TOKEN}`);
-      
-      // Twilio API endpoint to create a call
-      const url = `https://api.twilio.com/2010-04-01/Accounts/${TWILIO_ACCOUNT_SID}/Calls.json`;
-      
-      // Create form data for Twilio API
-      const formData = new URLSearchParams();
-      formData.append('From', TWILIO_PHONE_NUMBER);
-      formData.append('To', toPhoneNumber);
-      formData.append('Url', WEBHOOK_URL);
-      formData.append('Method', 'POST');
-
-      console.log('Initiating test call...', {
-        from: TWILIO_PHONE_NUMBER,
-        to: toPhoneNumber,
-        webhook: WEBHOOK_URL
-      });
-
-      console.log('Twilio API Request:', {
-        url: url,
-        accountSid: TWILIO_ACCOUNT_SID ? `${TWILIO_ACCOUNT_SID.substring(0, 10)}...` : 'MISSING',
-        authToken: TWILIO_AUTH_TOKEN ? `${TWILIO_AUTH_TOKEN.substring(0, 10)}...` : 'MISSING',
-        from: TWILIO_PHONE_NUMBER,
-        to: toPhoneNumber,
-        webhook: WEBHOOK_URL
-      });
-
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Basic ${credentials}`,
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: formData.toString(),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Twilio API Error:', {
-          status: response.status,
-          statusText: response.statusText,
-          error: errorText
-        });
-        
-        // Check if it's an authentication error
-        if (response.status === 401 || response.status === 403) {
-          alert('Twilio authentication failed. Please check your Twilio credentials in the .env file and rebuild the extension.');
-        } else if (errorText.includes('html') || errorText.includes('login')) {
-          alert('Twilio authentication failed. The credentials may be incorrect. Please verify your Twilio Account SID and Auth Token.');
-        } else {
-          alert(`Twilio Error (${response.status}): ${errorText.substring(0, 200)}`);
-        }
-        return;
-      }
-
-      const result = await response.json();
-      console.log('AI agent call initiated:', result);
-      alert(`Call initiated! Call SID: ${result.sid}\nCalling: ${toPhoneNumber}\nYou should receive a call shortly.`);
     } catch (error) {
       console.error('Error triggering test call:', error);
       alert(`Error: ${error instanceof Error ? error.message : String(error)}`);
@@ -212,97 +240,9 @@ function Popup() {
   };
 
   const handleTransferUnproductiveTime = async () => {
-    const state = await getTrackingState();
-    if (!state.userId) {
-      console.error('No user ID found');
-      return;
-    }
-
-    const unproductiveSeconds = Math.floor((state.totalUnproductiveMs || 0) / 1000);
-    const productiveSeconds = Math.floor((state.totalProductiveMs || 0) / 1000);
-    
-    // If both times are zero, nothing to do
-    if (unproductiveSeconds === 0 && productiveSeconds === 0) {
-      console.log('No time to transfer');
-      return;
-    }
-
+    // The background credits time up to now, adds the totals to the leaderboard and zeroes them
     try {
-      // Get current best_score and productive_time from leaderboard_global
-      const { data: currentLeaderboard, error: fetchError } = await supabase
-        .from('leaderboard_global')
-        .select('user_id, best_score, productive_time')
-        .eq('user_id', state.userId)
-        .single();
-
-      // If no entry exists, create one with both unproductive and productive time
-      if (fetchError && fetchError.code === 'PGRST116') {
-        const initialScore = unproductiveSeconds;
-        const initialProductiveTime = productiveSeconds;
-        
-        const { error: insertError } = await supabase
-          .from('leaderboard_global')
-          .insert({
-            user_id: state.userId,
-            best_score: initialScore,
-            productive_time: initialProductiveTime,
-            updated_at: new Date().toISOString(),
-          });
-
-        if (insertError) {
-          console.error('Error creating leaderboard entry:', insertError);
-        } else {
-          // Reset both times and consecutive counter
-          await updateTrackingState({
-            totalUnproductiveMs: 0,
-            totalProductiveMs: 0,
-            consecutiveProductiveMs: 0,
-          });
-          console.log(`Successfully created leaderboard entry with best_score: ${initialScore}s and productive_time: ${initialProductiveTime}s`);
-        }
-        return;
-      }
-
-      if (fetchError) {
-        console.error('Error fetching leaderboard:', fetchError);
-        return;
-      }
-
-      // Verify user_id matches
-      if (currentLeaderboard.user_id !== state.userId) {
-        console.error('User ID mismatch. Cannot update score.');
-        return;
-      }
-
-      // Calculate new values: add unproductive time to best_score, add productive time to productive_time
-      const newScore = (currentLeaderboard.best_score || 0) + unproductiveSeconds;
-      const newProductiveTime = (currentLeaderboard.productive_time || 0) + productiveSeconds;
-
-      // Update leaderboard_global with both best_score and productive_time
-      const { error: updateError } = await supabase
-        .from('leaderboard_global')
-        .update({
-          best_score: newScore,
-          productive_time: newProductiveTime,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('user_id', state.userId);
-
-      if (updateError) {
-        console.error('Error updating leaderboard:', updateError);
-      } else {
-        // Reset both unproductive and productive time to zero
-        // Also reset consecutiveProductiveMs so the counter starts fresh
-        await updateTrackingState({
-          totalUnproductiveMs: 0,
-          totalProductiveMs: 0,
-          consecutiveProductiveMs: 0,
-        });
-        console.log(`Successfully updated leaderboard:`);
-        console.log(`  best_score: +${unproductiveSeconds}s (new: ${newScore}s)`);
-        console.log(`  productive_time: +${productiveSeconds}s (new: ${newProductiveTime}s)`);
-        console.log(`  Reset both times to zero`);
-      }
+      await sendCommand({ type: 'transferTime' });
     } catch (error) {
       console.error('Error transferring time:', error);
     }
@@ -405,10 +345,22 @@ function Popup() {
     );
   }
 
-  const domain = currentUrl ? extractDomain(currentUrl) : trackingState?.currentDomain || null;
-  const classification = classifyDomain(domain);
-  const productiveMs = trackingState?.totalProductiveMs || 0;
-  const unproductiveMs = trackingState?.totalUnproductiveMs || 0;
+  const classificationRules = localRules && sharedLists ? applySharedRuleSets(localRules, sharedLists.sets) : null;
+  const pageUrl = currentUrl || trackingState?.currentUrl || null;
+  const domain = pageUrl ? extractDomain(pageUrl) : trackingState?.currentDomain || null;
+  const untrackedReason = pageUrl ? getUntrackedReason(pageUrl) : null;
+  const category = classificationRules ? classifyUrl(pageUrl, classificationRules, pageSignals) : null;
+  const classification = category ? getCategorySide(category) : null;
+  // Totals are written at transitions and checkpoints; add the open span so the display ticks live
+  const categoryTotals: CategoryTotals = trackingState && classificationRules
+    ? getLiveCategoryTotals(trackingState, classificationRules)
+    : trackingState?.categoryTotals || {};
+  const productiveMs = classificationRules ? sumCategoryTotals(categoryTotals, classificationRules, 'productive') : 0;
+  const unproductiveMs = classificationRules ? sumCategoryTotals(categoryTotals, classificationRules, 'unproductive') : 0;
+  const focusScore = classificationRules ? computeFocusScore(categoryTotals, classificationRules) : null;
+  const activeSchedules = classificationRules ? getActiveSchedules(classificationRules.schedules) : [];
+  const trackingSchedule = classificationRules ? findSchedule(classificationRules, classificationRules.trackingScheduleId) : null;
+  const isTrackingPaused = classificationRules ? !isTrackingScheduled(classificationRules) : false;
 
   // Color scheme: unproductive=green (good), productive=red (bad)
   const productiveBg = '#f8d7da'; // Light red
@@ -416,6 +368,13 @@ function Popup() {
   const unproductiveColor = '#28a745'; // Green
   const unproductiveBg = '#d4edda'; // Light green
   const unproductiveText = '#155724'; // Dark green
+  const neutralBg = isDark ? '#3a3a3a' : '#e2e3e5'; // Grey
+  const neutralText = isDark ? '#ddd' : '#383d41';
+  const badgeColors = {
+    productive: { bg: productiveBg, text: productiveText, icon: '⚠' },
+    unproductive: { bg: unproductiveBg, text: unproductiveText, icon: '✓' },
+    neutral: { bg: neutralBg, text: neutralText, icon: '•' },
+  };
 
   return (
     <div style={{ padding: '20px', fontFamily: 'system-ui, -apple-system, sans-serif', minWidth: '300px', backgroundColor: bgColor, color: textColor }}>
@@ -464,7 +423,12 @@ function Popup() {
         <div style={{ fontSize: '14px', fontWeight: '500', wordBreak: 'break-all' }}>
           {domain || 'None'}
         </div>
-        {classification && (
+        {untrackedReason && untrackedReason !== 'invalid' && (
+          <div style={{ fontSize: '12px', color: isDark ? '#aaa' : '#666', marginTop: '4px' }}>
+            Not tracked ({UNTRACKED_LABELS[untrackedReason]})
+          </div>
+        )}
+        {category && classification && (
           <div
             style={{
               display: 'inline-block',
@@ -472,11 +436,19 @@ function Popup() {
               padding: '4px 8px',
               fontSize: '11px',
               borderRadius: '4px',
-              backgroundColor: classification === 'productive' ? productiveBg : unproductiveBg,
-              color: classification === 'productive' ? productiveText : unproductiveText,
+              backgroundColor: badgeColors[classification].bg,
+              color: badgeColors[classification].text,
             }}
           >
-            {classification === 'productive' ? '⚠ Productive' : '✓ Unproductive'}
+            {badgeColors[classification].icon} {category.name}
+          </div>
+        )}
+        {classificationRules && classificationRules.schedules.length > 0 && (
+          <div style={{ marginTop: '8px', fontSize: '11px', color: isDark ? '#aaa' : '#666' }}>
+            ⏰ Active schedule: {activeSchedules.length > 0 ? activeSchedules.map((schedule) => schedule.name).join(', ') : 'none'}
+            {isTrackingPaused && trackingSchedule && (
+              <div style={{ color: '#dc3545' }}>Tracking paused outside "{trackingSchedule.name}"</div>
+            )}
           </div>
         )}
       </div>
@@ -496,6 +468,48 @@ function Popup() {
         </div>
       </div>
 
+      {classificationRules && Object.keys(categoryTotals).length > 0 && (
+        <div style={{ marginBottom: '20px', padding: '12px', backgroundColor: cardBg, borderRadius: '4px' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', color: isDark ? '#aaa' : '#666', marginBottom: '8px' }}>
+            <span>Time by Category</span>
+            {focusScore !== null && <span>Focus score: {focusScore}%</span>}
+          </div>
+          {Object.entries(categoryTotals)
+            .filter(([, ms]) => ms > 0)
+            .sort(([, a], [, b]) => b - a)
+            .map(([categoryId, ms]) => {
+              const totalCategory = findCategory(classificationRules, categoryId);
+              return (
+                <div key={categoryId} style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', padding: '2px 0' }}>
+                  <span style={{ color: SIDE_COLORS[getCategorySide(totalCategory)] }}>{totalCategory?.name ?? categoryId}</span>
+                  <span>{formatTime(ms)}</span>
+                </div>
+              );
+            })}
+        </div>
+      )}
+
+      {trackingState && <FocusSessionPanel state={trackingState} reports={focusReports} isDark={isDark} />}
+      {classificationRules && trackingState && (
+        <BudgetsPanel rules={classificationRules} budgets={budgets} state={trackingState} isDark={isDark} />
+      )}
+      {trackingState && <CreditsPanel state={trackingState} transactions={creditTransactions} isDark={isDark} />}
+      {trackingState && <ContactsPanel userId={trackingState.userId} isDark={isDark} />}
+      {escalationSettings && trackingState && (
+        <EscalationPanel settings={escalationSettings} log={escalationLog} state={trackingState} isDark={isDark} />
+      )}
+      {trackingState && <CallHistoryPanel userId={trackingState.userId} isDark={isDark} />}
+      {outbox && trackingState && <SyncStatus outbox={outbox} state={trackingState} isDark={isDark} />}
+      {classificationRules && <HistoryPanel rules={classificationRules} isDark={isDark} />}
+      {trackingState && <PauseSettings state={trackingState} isDark={isDark} />}
+      {trackingState && <MediaTrackingSettings state={trackingState} isDark={isDark} />}
+
+      {localRules && <CategoriesEditor rules={localRules} isDark={isDark} />}
+      {localRules && <SchedulesEditor rules={localRules} isDark={isDark} />}
+      {localRules && <RulesEditor rules={localRules} isDark={isDark} />}
+      {localRules && <ImportExportPanel rules={localRules} isDark={isDark} />}
+      {sharedLists && <SharedListsPanel sharedLists={sharedLists} userId={trackingState?.userId ?? null} isDark={isDark} />}
+
       <button
         onClick={handleTransferUnproductiveTime}
         style={{
@@ -528,7 +542,7 @@ function Popup() {
           fontWeight: '500',
         }}
       >
-        📞 Test Call to Dad's Number
+        📞 Test Call to Your Contact
       </button>
     </div>
   );
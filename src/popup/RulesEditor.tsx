@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import {
+  findCategory,
+  findSchedule,
+  getCategorySide,
+  validateRule,
+  type ClassificationRule,
+  type ClassificationRules,
+  type ContentField,
+  type RuleMatchType,
+  type RulePrecedence,
+} from '../classify';
+import { setClassificationRules } from '../storage';
+import { getThemeStyles, SIDE_COLORS } from './theme';
+
+interface RulesEditorProps {
+  rules: ClassificationRules;
+  isDark: boolean;
+}
+
+const TYPE_PLACEHOLDERS: Record<RuleMatchType, string> = {
+  host: 'reddit.com',
+  wildcard: '*.x.com',
+  path: 'youtube.com/shorts',
+  regex: '^https://(www\\.)?reddit\\.com/r/',
+  content: 'tutorial|lecture|course',
+};
+
+const CONTENT_FIELD_LABELS: Record<ContentField, string> = {
+  title: 'Title',
+  keywords: 'Keywords',
+  ogType: 'og:type',
+  channel: 'YT channel',
+  videoCategory: 'YT category',
+  shortForm: 'Shorts/Reels',
+};
+
+/**
+ * Popup section for viewing and editing classification rules
+ */
+export function RulesEditor({ rules, isDark }: RulesEditorProps) {
+  const [type, setType] = useState<RuleMatchType>('wildcard');
+  const [pattern, setPattern] = useState('');
+  const [field, setField] = useState<ContentField>('title');
+  const [category, setCategory] = useState(rules.categories[0]?.id ?? '');
+  const [scheduleId, setScheduleId] = useState('');
+  const [error, setError] = useState('');
+
+  const { borderColor, mutedText, inputStyle, smallButtonStyle, primaryButtonStyle } = getThemeStyles(isDark);
+
+  const saveRules = async (updates: Partial<ClassificationRules>) => {
+    await setClassificationRules({ ...rules, ...updates });
+  };
+
+  const handleAddRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const ruleField = type === 'content' ? field : undefined;
+    const validationError = validateRule({ type, pattern, field: ruleField });
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    if (!findCategory(rules, category)) {
+      setError('Choose a category');
+      return;
+    }
+
+    setError('');
+    const rule: ClassificationRule = {
+      id: crypto.randomUUID(),
+      type,
+      pattern: pattern.trim(),
+      ...(ruleField && { field: ruleField }),
+      category,
+      ...(scheduleId && { scheduleId }),
+      enabled: true,
+    };
+    await saveRules({ rules: [...rules.rules, rule] });
+    setPattern('');
+  };
+
+  const moveRule = async (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.rules.length) return;
+    const nextRules = [...rules.rules];
+    [nextRules[index], nextRules[target]] = [nextRules[target], nextRules[index]];
+    await saveRules({ rules: nextRules });
+  };
+
+  const toggleRule = async (id: string) => {
+    await saveRules({ rules: rules.rules.map((rule) => (rule.id === id ? { ...rule, enabled: !rule.enabled } : rule)) });
+  };
+
+  const removeRule = async (id: string) => {
+    await saveRules({ rules: rules.rules.filter((rule) => rule.id !== id) });
+  };
+
+  return (
+    <div style={{ marginBottom: '20px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+        <div style={{ fontSize: '12px', color: mutedText }}>Classification Rules</div>
+        <select
+          value={rules.precedence}
+          onChange={(e) => saveRules({ precedence: e.target.value as RulePrecedence })}
+          style={inputStyle}
+          title="How to resolve a URL matched by rules of different categories"
+        >
+          <option value="first-match">First match wins</option>
+          <option value="lowest-weight">Most distracting wins</option>
+          <option value="highest-weight">Most productive wins</option>
+        </select>
+      </div>
+
+      {rules.rules.length === 0 && (
+        <div style={{ fontSize: '12px', color: mutedText, marginBottom: '8px' }}>No rules - every site uses the default category.</div>
+      )}
+
+      {rules.rules.map((rule, index) => {
+        const ruleCategory = findCategory(rules, rule.category);
+        const ruleSchedule = rule.scheduleId ? findSchedule(rules, rule.scheduleId) : null;
+        return (
+          <div
+            key={rule.id}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '6px',
+              padding: '4px 0',
+              fontSize: '12px',
+              opacity: rule.enabled ? 1 : 0.5,
+              borderBottom: `1px solid ${borderColor}`,
+            }}
+          >
+            <input type="checkbox" checked={rule.enabled} onChange={() => toggleRule(rule.id)} />
+            <span style={{ color: SIDE_COLORS[getCategorySide(ruleCategory)], fontWeight: 500 }}>
+              {ruleCategory?.name ?? `${rule.category} (missing)`}
+            </span>
+            <span style={{ color: mutedText }}>{rule.type === 'content' && rule.field ? CONTENT_FIELD_LABELS[rule.field] : rule.type}</span>
+            <span style={{ flex: 1, wordBreak: 'break-all' }}>
+              {rule.pattern}
+              {rule.scheduleId && (
+                <span style={{ color: mutedText }}> ⏰ {ruleSchedule?.name ?? 'missing schedule'}</span>
+              )}
+            </span>
+            <button onClick={() => moveRule(index, -1)} style={smallButtonStyle} title="Move up">↑</button>
+            <button onClick={() => moveRule(index, 1)} style={smallButtonStyle} title="Move down">↓</button>
+            <button onClick={() => removeRule(rule.id)} style={smallButtonStyle} title="Remove rule">✕</button>
+          </div>
+        );
+      })}
+
+      <form onSubmit={handleAddRule} style={{ display: 'flex', gap: '4px', marginTop: '8px' }}>
+        <select value={category} onChange={(e) => setCategory(e.target.value)} style={inputStyle}>
+          {rules.categories.map((option) => (
+            <option key={option.id} value={option.id}>{option.name}</option>
+          ))}
+        </select>
+        <select value={type} onChange={(e) => setType(e.target.value as RuleMatchType)} style={inputStyle}>
+          <option value="host">Host</option>
+          <option value="wildcard">Wildcard</option>
+          <option value="path">Path</option>
+          <option value="regex">Regex</option>
+          <option value="content">Content</option>
+        </select>
+        {type === 'content' && (
+          <select value={field} onChange={(e) => setField(e.target.value as ContentField)} style={inputStyle}>
+            {Object.entries(CONTENT_FIELD_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        )}
+        {rules.schedules.length > 0 && (
+          <select value={scheduleId} onChange={(e) => setScheduleId(e.target.value)} style={inputStyle} title="Only apply during">
+            <option value="">Always</option>
+            {rules.schedules.map((schedule) => (
+              <option key={schedule.id} value={schedule.id}>{schedule.name}</option>
+            ))}
+          </select>
+        )}
+        <input
+          value={pattern}
+          onChange={(e) => setPattern(e.target.value)}
+          placeholder={type === 'content' && field === 'shortForm' ? 'true' : TYPE_PLACEHOLDERS[type]}
+          style={{ ...inputStyle, flex: 1, minWidth: 0 }}
+        />
+        <button type="submit" style={primaryButtonStyle}>
+          Add
+        </button>
+      </form>
+      {error && <div style={{ color: 'red', marginTop: '6px', fontSize: '12px' }}>{error}</div>}
+    </div>
+  );
+}
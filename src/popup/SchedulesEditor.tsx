@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import type { ClassificationRules } from '../classify';
+import {
+  formatTimeRange,
+  getLocalTimeZone,
+  isValidTimeZone,
+  validateTimeRange,
+  WEEKDAY_LABELS,
+  type Schedule,
+  type TimeRange,
+} from '../schedule';
+import { setClassificationRules } from '../storage';
+import { getThemeStyles } from './theme';
+
+interface SchedulesEditorProps {
+  rules: ClassificationRules;
+  isDark: boolean;
+}
+
+const WORKDAYS = [1, 2, 3, 4, 5];
+
+/**
+ * Popup section for managing named schedules and the tracking schedule
+ */
+export function SchedulesEditor({ rules, isDark }: SchedulesEditorProps) {
+  const [name, setName] = useState('');
+  const [days, setDays] = useState<number[]>(WORKDAYS);
+  const [start, setStart] = useState('09:00');
+  const [end, setEnd] = useState('17:00');
+  const [timeZone, setTimeZone] = useState(getLocalTimeZone());
+  const [error, setError] = useState('');
+
+  const { borderColor, mutedText, inputStyle, smallButtonStyle, primaryButtonStyle } = getThemeStyles(isDark);
+
+  const saveSchedules = async (updates: Partial<ClassificationRules>) => {
+    await setClassificationRules({ ...rules, ...updates });
+  };
+
+  const toggleDay = (day: number) => {
+    setDays((current) => (current.includes(day) ? current.filter((d) => d !== day) : [...current, day]));
+  };
+
+  const removeSchedule = async (id: string) => {
+    if (rules.rules.some((rule) => rule.scheduleId === id)) {
+      setError('Remove or change the rules using this schedule first');
+      return;
+    }
+    setError('');
+    await saveSchedules({
+      schedules: rules.schedules.filter((schedule) => schedule.id !== id),
+      trackingScheduleId: rules.trackingScheduleId === id ? null : rules.trackingScheduleId,
+    });
+  };
+
+  // Adding a range under an existing name extends that schedule instead of creating a new one
+  const handleAddRange = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmedName = name.trim();
+    const range: TimeRange = { days, start, end };
+    const validationError = !trimmedName
+      ? 'Schedule name is required'
+      : !isValidTimeZone(timeZone)
+      ? `Unknown time zone "${timeZone}"`
+      : validateTimeRange(range);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setError('');
+    const existing = rules.schedules.find((schedule) => schedule.name.toLowerCase() === trimmedName.toLowerCase());
+    const schedules: Schedule[] = existing
+      ? rules.schedules.map((schedule) =>
+          schedule.id === existing.id ? { ...schedule, timeZone, ranges: [...schedule.ranges, range] } : schedule
+        )
+      : [...rules.schedules, { id: crypto.randomUUID(), name: trimmedName, timeZone, ranges: [range] }];
+    await saveSchedules({ schedules });
+  };
+
+  return (
+    <div style={{ marginBottom: '20px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+        <div style={{ fontSize: '12px', color: mutedText }}>Schedules</div>
+        <label style={{ fontSize: '11px', color: mutedText }}>
+          Track:{' '}
+          <select
+            value={rules.trackingScheduleId ?? ''}
+            onChange={(e) => saveSchedules({ trackingScheduleId: e.target.value || null })}
+            style={inputStyle}
+          >
+            <option value="">Always</option>
+            {rules.schedules.map((schedule) => (
+              <option key={schedule.id} value={schedule.id}>During {schedule.name}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {rules.schedules.map((schedule) => (
+        <div key={schedule.id} style={{ padding: '4px 0', fontSize: '12px', borderBottom: `1px solid ${borderColor}` }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <span style={{ fontWeight: 500 }}>{schedule.name}</span>
+            <span style={{ color: mutedText }}>{schedule.timeZone}</span>
+            <button onClick={() => removeSchedule(schedule.id)} style={smallButtonStyle} title="Remove schedule">✕</button>
+          </div>
+          {schedule.ranges.map((range, index) => (
+            <div key={index} style={{ color: mutedText }}>{formatTimeRange(range)}</div>
+          ))}
+        </div>
+      ))}
+
+      <form onSubmit={handleAddRange} style={{ marginTop: '8px' }}>
+        <div style={{ display: 'flex', gap: '4px', marginBottom: '4px' }}>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Work hours"
+            style={{ ...inputStyle, flex: 1, minWidth: 0 }}
+          />
+          <input value={timeZone} onChange={(e) => setTimeZone(e.target.value)} style={{ ...inputStyle, width: '120px' }} />
+        </div>
+        <div style={{ display: 'flex', gap: '2px', marginBottom: '4px' }}>
+          {WEEKDAY_LABELS.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleDay(day)}
+              style={days.includes(day) ? primaryButtonStyle : smallButtonStyle}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+          <input type="time" value={start} onChange={(e) => setStart(e.target.value)} style={inputStyle} />
+          <span style={{ fontSize: '12px' }}>to</span>
+          <input type="time" value={end} onChange={(e) => setEnd(e.target.value)} style={inputStyle} />
+          <button type="submit" style={primaryButtonStyle}>
+            Add
+          </button>
+        </div>
+      </form>
+      {error && <div style={{ color: 'red', marginTop: '6px', fontSize: '12px' }}>{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { subscribeToList, syncSharedRuleSets, unsubscribeFromList, type SharedListsCache } from '../sharedLists';
+import { getThemeStyles } from './theme';
+
+interface SharedListsPanelProps {
+  sharedLists: SharedListsCache;
+  userId: string | null;
+  isDark: boolean;
+}
+
+/**
+ * Popup section listing organization-managed lists and the user's subscriptions
+ */
+export function SharedListsPanel({ sharedLists, userId, isDark }: SharedListsPanelProps) {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const { borderColor, mutedText, smallButtonStyle } = getThemeStyles(isDark);
+
+  const run = async (action: () => Promise<void>) => {
+    if (!userId) return;
+    setBusy(true);
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : (err as { message?: string })?.message ?? String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleSubscription = (listId: string, subscribed: boolean) =>
+    run(() => (subscribed ? unsubscribeFromList(userId!, listId) : subscribeToList(userId!, listId)));
+
+  const appliedVersions = new Map(sharedLists.sets.map((set) => [set.id, set.version]));
+  const lastSynced = sharedLists.lastSyncedAt ? new Date(sharedLists.lastSyncedAt).toLocaleTimeString() : 'never';
+
+  return (
+    <div style={{ marginBottom: '20px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+        <div style={{ fontSize: '12px', color: mutedText }}>Shared Lists</div>
+        <button onClick={() => run(() => syncSharedRuleSets(userId!))} disabled={busy || !userId} style={smallButtonStyle}>
+          {busy ? 'Syncing…' : 'Sync now'}
+        </button>
+      </div>
+
+      {sharedLists.available.length === 0 && (
+        <div style={{ fontSize: '12px', color: mutedText }}>No lists shared with your groups.</div>
+      )}
+
+      {sharedLists.available.map((list) => (
+        <div
+          key={list.id}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '6px',
+            padding: '4px 0',
+            fontSize: '12px',
+            borderBottom: `1px solid ${borderColor}`,
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={list.enforced || list.subscribed}
+            disabled={list.enforced || busy}
+            onChange={() => toggleSubscription(list.id, list.subscribed)}
+            title={list.enforced ? 'Enforced by your organization' : 'Subscribe to this list'}
+          />
+          <span style={{ flex: 1 }}>{list.name}</span>
+          {list.enforced && <span style={{ color: '#dc3545', fontSize: '11px' }}>enforced</span>}
+          <span style={{ color: mutedText, fontSize: '11px' }}>
+            v{appliedVersions.get(list.id) ?? list.version}
+          </span>
+        </div>
+      ))}
+
+      <div style={{ marginTop: '6px', fontSize: '11px', color: mutedText }}>Last synced: {lastSynced}</div>
+      {(error || sharedLists.lastError) && (
+        <div style={{ color: 'red', marginTop: '4px', fontSize: '12px' }}>{error || `Sync failed: ${sharedLists.lastError}`}</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { sendCommand } from '../messages';
+import type { Outbox, OutboxOperation } from '../outbox';
+import type { TrackingState } from '../storage';
+import { UPLOAD_INTERVAL_OPTIONS_MINUTES } from '../usage';
+import { getThemeStyles } from './theme';
+
+const OPERATION_LABELS: Record<OutboxOperation['kind'], string> = {
+  productiveTrigger: 'Productive streak',
+  usageAggregates: 'Usage upload',
+  focusSession: 'Focus session',
+  blockOverride: 'Block override',
+  leaderboardUpdate: 'Leaderboard update',
+};
+
+interface SyncStatusProps {
+  outbox: Outbox;
+  state: TrackingState;
+  isDark: boolean;
+}
+
+/**
+ * Popup section with the usage upload cadence, Supabase writes still waiting in the outbox,
+ * why the last send failed and the writes the outbox gave up on
+ */
+export function SyncStatus({ outbox, state, isDark }: SyncStatusProps) {
+  const [syncing, setSyncing] = useState(false);
+  const [error, setError] = useState('');
+
+  const { mutedText, cardBg, inputStyle, smallButtonStyle } = getThemeStyles(isDark);
+  const pending = outbox.entries.length;
+  const { deadLetters } = outbox;
+
+  const handleIntervalChange = async (uploadIntervalMinutes: number) => {
+    try {
+      await sendCommand({ type: 'updateSettings', settings: { uploadIntervalMinutes }, settingsRevision: state.settingsRevision });
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const runSync = async (type: 'flushUsage' | 'retryDeadLetters') => {
+    setSyncing(true);
+    try {
+      await sendCommand({ type });
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!confirm(`Discard ${deadLetters.length} unsynced write${deadLetters.length === 1 ? '' : 's'}? They will be lost.`)) return;
+    try {
+      await sendCommand({ type: 'discardDeadLetters' });
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div style={{ marginBottom: '20px', padding: '8px', backgroundColor: cardBg, borderRadius: '4px', fontSize: '12px' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '6px' }}>
+        <span style={{ color: mutedText }}>Upload usage every</span>
+        <select
+          value={state.uploadIntervalMinutes}
+          onChange={(e) => handleIntervalChange(Number(e.target.value))}
+          style={inputStyle}
+        >
+          {UPLOAD_INTERVAL_OPTIONS_MINUTES.map((minutes) => (
+            <option key={minutes} value={minutes}>
+              {minutes === 60 ? '1 hour' : `${minutes} min`}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <span>{pending === 0 ? 'All changes synced' : `Pending sync: ${pending} write${pending === 1 ? '' : 's'}`}</span>
+        <button onClick={() => runSync('flushUsage')} disabled={syncing} style={smallButtonStyle}>
+          {syncing ? 'Syncing...' : 'Sync now'}
+        </button>
+      </div>
+      {outbox.lastError && (
+        <div style={{ color: mutedText, marginTop: '4px', fontSize: '11px' }}>
+          Last error ({new Date(outbox.lastErrorAt).toLocaleTimeString()}): {outbox.lastError}
+        </div>
+      )}
+      {deadLetters.length > 0 && (
+        <div style={{ marginTop: '6px', paddingTop: '6px', borderTop: `1px solid ${mutedText}` }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', color: '#dc3545' }}>
+            <span>
+              ⚠️ {deadLetters.length} write{deadLetters.length === 1 ? '' : 's'} could not be synced
+            </span>
+            <span style={{ display: 'flex', gap: '4px' }}>
+              <button onClick={() => runSync('retryDeadLetters')} disabled={syncing} style={smallButtonStyle}>
+                Retry
+              </button>
+              <button onClick={handleDiscard} disabled={syncing} style={smallButtonStyle}>
+                Discard
+              </button>
+            </span>
+          </div>
+          {deadLetters.slice(0, 5).map((entry) => (
+            <div key={entry.key} style={{ color: mutedText, marginTop: '2px', fontSize: '11px' }}>
+              {OPERATION_LABELS[entry.operation.kind]} from {new Date(entry.createdAt).toLocaleString()}: {entry.lastError}
+            </div>
+          ))}
+          {deadLetters.length > 5 && (
+            <div style={{ color: mutedText, marginTop: '2px', fontSize: '11px' }}>and {deadLetters.length - 5} more</div>
+          )}
+        </div>
+      )}
+      {error && <div style={{ color: 'red', marginTop: '4px' }}>{error}</div>}
+    </div>
+  );
+}
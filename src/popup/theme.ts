@@ -0,0 +1,44 @@
+import type React from 'react';
+
+/**
+ * Shared colors and control styles for popup sections
+ */
+export function getThemeStyles(isDark: boolean) {
+  const borderColor = isDark ? '#444' : '#ccc';
+  const mutedText = isDark ? '#aaa' : '#666';
+  const cardBg = isDark ? '#2a2a2a' : '#f5f5f5';
+
+  const inputStyle: React.CSSProperties = {
+    padding: '6px',
+    fontSize: '12px',
+    boxSizing: 'border-box',
+    border: `1px solid ${borderColor}`,
+    borderRadius: '4px',
+    backgroundColor: isDark ? '#333' : '#ffffff',
+    color: isDark ? '#ffffff' : '#000000',
+  };
+
+  const smallButtonStyle: React.CSSProperties = {
+    padding: '2px 6px',
+    fontSize: '11px',
+    backgroundColor: isDark ? '#444' : '#e0e0e0',
+    color: isDark ? '#fff' : '#000',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: 'pointer',
+  };
+
+  const primaryButtonStyle: React.CSSProperties = {
+    ...smallButtonStyle,
+    backgroundColor: '#007bff',
+    color: 'white',
+  };
+
+  return { borderColor, mutedText, cardBg, inputStyle, smallButtonStyle, primaryButtonStyle };
+}
+
+export const SIDE_COLORS = {
+  productive: '#dc3545',
+  unproductive: '#28a745',
+  neutral: '#6c757d',
+};
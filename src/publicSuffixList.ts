@@ -0,0 +1,47 @@
+/**
+ * Bundled subset of the Public Suffix List (https://publicsuffix.org/list/)
+ *
+ * Only suffixes that are more than a single TLD need listing: any unlisted TLD falls back to the
+ * implicit "*" rule. Syntax follows the list itself: "*.ck" is a wildcard rule and "!www.ck" an
+ * exception. Add entries here when a site is grouped under the wrong registrable domain.
+ */
+export const PUBLIC_SUFFIXES: string[] = [
+  // Country-code second levels
+  'ac.uk', 'co.uk', 'gov.uk', 'ltd.uk', 'me.uk', 'net.uk', 'nhs.uk', 'org.uk', 'plc.uk', 'police.uk', 'sch.uk',
+  'asn.au', 'com.au', 'edu.au', 'gov.au', 'id.au', 'net.au', 'org.au',
+  'ac.nz', 'co.nz', 'geek.nz', 'gen.nz', 'govt.nz', 'net.nz', 'org.nz', 'school.nz',
+  'ac.jp', 'co.jp', 'go.jp', 'ne.jp', 'or.jp',
+  'ac.kr', 'co.kr', 'go.kr', 'ne.kr', 'or.kr',
+  'ac.in', 'co.in', 'firm.in', 'gen.in', 'gov.in', 'ind.in', 'net.in', 'org.in',
+  'com.br', 'gov.br', 'net.br', 'org.br',
+  'com.cn', 'edu.cn', 'gov.cn', 'net.cn', 'org.cn',
+  'com.hk', 'edu.hk', 'gov.hk', 'net.hk', 'org.hk',
+  'com.tw', 'edu.tw', 'gov.tw', 'net.tw', 'org.tw',
+  'com.sg', 'edu.sg', 'gov.sg', 'net.sg', 'org.sg',
+  'com.my', 'edu.my', 'gov.my', 'net.my', 'org.my',
+  'ac.id', 'co.id', 'go.id', 'or.id', 'web.id',
+  'com.ph', 'edu.ph', 'gov.ph', 'net.ph', 'org.ph',
+  'ac.th', 'co.th', 'go.th', 'in.th', 'or.th',
+  'com.vn', 'edu.vn', 'gov.vn', 'net.vn', 'org.vn',
+  'com.mx', 'edu.mx', 'gob.mx', 'net.mx', 'org.mx',
+  'com.ar', 'edu.ar', 'gob.ar', 'net.ar', 'org.ar',
+  'com.co', 'edu.co', 'gov.co', 'net.co', 'org.co',
+  'com.tr', 'edu.tr', 'gov.tr', 'net.tr', 'org.tr',
+  'ac.za', 'co.za', 'gov.za', 'net.za', 'org.za',
+  'ac.il', 'co.il', 'gov.il', 'net.il', 'org.il',
+  'com.eg', 'com.ng', 'com.pk', 'com.sa', 'com.ua', 'co.ke', 'co.ug', 'co.tz',
+  'ac.at', 'co.at', 'gv.at', 'or.at',
+  'com.pl', 'net.pl', 'org.pl',
+  'com.es', 'nom.es', 'org.es',
+  'com.pt', 'org.pt',
+  'com.gr', 'edu.gr', 'gov.gr',
+  'com.ru', 'msk.ru', 'spb.ru',
+  '*.ck', '!www.ck',
+  '*.bd',
+  '*.np',
+  // Platforms where every subdomain belongs to a different owner
+  'github.io', 'githubusercontent.com', 'gitlab.io', 'pages.dev', 'workers.dev', 'netlify.app', 'vercel.app',
+  'herokuapp.com', 'firebaseapp.com', 'web.app', 'appspot.com', 'azurewebsites.net', 'cloudfront.net',
+  'blogspot.com', 'neocities.org', 'glitch.me', 'repl.co',
+  'fly.dev', 'onrender.com', 'surge.sh', 'ngrok.io', 'ngrok-free.app', 's3.amazonaws.com',
+];
@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CLASSIFICATION_RULES, type ClassificationRule, type ClassificationRules } from './classify';
+import { applyRuleDiff, detectFormat, diffRules, parseRuleList, serializeRules, type ListFormat } from './ruleFormats';
+
+// Imported rules get random ids; compare what they match and where they put it
+const summarize = (rules: ClassificationRule[]) => rules.map((rule) => `${rule.type} ${rule.pattern} → ${rule.category}`);
+
+function rule(id: string, type: ClassificationRule['type'], pattern: string, category: string): ClassificationRule {
+  return { id, type, pattern, category, enabled: true };
+}
+
+describe('detectFormat', () => {
+  it.each<[string, ListFormat]>([
+    ['0.0.0.0 example.com\n0.0.0.0 reddit.com', 'hosts'],
+    ['# Blocklist\n127.0.0.1 localhost\n0.0.0.0 example.com', 'hosts'],
+    ['! Title: list\n||example.com^', 'ublock'],
+    ['@@||example.com^', 'ublock'],
+    ['example.com\nreddit.com', 'domains'],
+    ['{"rules": []}', 'json'],
+    ['  [{"type": "host"}]', 'json'],
+  ])('%j → %s', (text, expected) => {
+    expect(detectFormat(text)).toBe(expected);
+  });
+});
+
+describe('parseRuleList', () => {
+  it.each<[string, string, ListFormat, { rules: string[]; invalid: string[]; duplicates: number }]>([
+    [
+      'hosts file with loopback names, comments and a duplicate',
+      [
+        '# Social',
+        '127.0.0.1 localhost',
+        '::1 localhost',
+        '0.0.0.0 www.Facebook.com',
+        '0.0.0.0 reddit.com # front page',
+        '0.0.0.0 facebook.com',
+        '0.0.0.0 not_a_domain',
+        '192.168.1.1 router.lan',
+      ].join('\n'),
+      'hosts',
+      {
+        rules: ['wildcard *.facebook.com → social', 'wildcard *.reddit.com → social'],
+        invalid: ['0.0.0.0 not_a_domain', '192.168.1.1 router.lan'],
+        duplicates: 1,
+      },
+    ],
+    [
+      'uBlock filters with paths, options, comments and unsupported filters',
+      [
+        '[Adblock Plus 2.0]',
+        '! Comment',
+        '||youtube.com^',
+        '||youtube.com/shorts^',
+        '||x.com^$third-party',
+        '@@||example.com^',
+        'example.com##.ad-banner',
+        '||YouTube.com^',
+      ].join('\n'),
+      'ublock',
+      {
+        rules: ['wildcard *.youtube.com → social', 'path *.youtube.com/shorts → social', 'wildcard *.x.com → social'],
+        invalid: ['@@||example.com^', 'example.com##.ad-banner'],
+        duplicates: 1,
+      },
+    ],
+    [
+      'plain domains and URLs',
+      ['https://www.reddit.com/r/all', 'news.ycombinator.com', 'localhost', 'reddit.com'].join('\r\n'),
+      'domains',
+      {
+        rules: ['wildcard *.reddit.com → social', 'wildcard *.news.ycombinator.com → social'],
+        invalid: ['localhost'],
+        duplicates: 1,
+      },
+    ],
+    [
+      'JSON export keeps its own categories and drops invalid rules',
+      JSON.stringify({
+        rules: [
+          { type: 'host', pattern: 'github.com', category: 'work' },
+          { type: 'regex', pattern: '^https://docs\\.', category: 'learning' },
+          { type: 'regex', pattern: '(', category: 'work' },
+          { type: 'bogus', pattern: 'x.com', category: 'social' },
+          { type: 'host', pattern: 'GitHub.com ', category: 'video' },
+        ],
+      }),
+      'json',
+      {
+        rules: ['host github.com → work', 'regex ^https://docs\\. → learning'],
+        invalid: [
+          JSON.stringify({ type: 'regex', pattern: '(', category: 'work' }),
+          JSON.stringify({ type: 'bogus', pattern: 'x.com', category: 'social' }),
+        ],
+        duplicates: 1,
+      },
+    ],
+    ['broken JSON', '{"rules": [', 'json', { rules: [], invalid: [expect.stringMatching(/^Invalid JSON: /)], duplicates: 0 }],
+  ])('%s', (_name, text, format, expected) => {
+    const parsed = parseRuleList(text, format, 'social');
+    expect({ rules: summarize(parsed.rules), invalid: parsed.invalid, duplicates: parsed.duplicates }).toEqual(expected);
+  });
+});
+
+describe('diffRules and applyRuleDiff', () => {
+  const existing = [rule('1', 'wildcard', '*.reddit.com', 'social'), rule('2', 'host', 'github.com', 'work'), rule('3', 'wildcard', '*.x.com', 'social')];
+
+  it.each<[string, ClassificationRule[], { added: string[]; changed: string[]; unchanged: number; applied: string[] }]>([
+    [
+      'an identical list changes nothing',
+      [rule('a', 'wildcard', '*.reddit.com', 'social'), rule('b', 'host', 'github.com', 'work')],
+      {
+        added: [],
+        changed: [],
+        unchanged: 2,
+        applied: ['wildcard *.reddit.com → social', 'host github.com → work', 'wildcard *.x.com → social'],
+      },
+    ],
+    [
+      'patterns match case-insensitively; a new category is a change, kept in place',
+      [rule('a', 'wildcard', '*.Reddit.com', 'news'), rule('b', 'wildcard', '*.youtube.com', 'video')],
+      {
+        added: ['wildcard *.youtube.com → video'],
+        changed: ['1: social → news'],
+        unchanged: 0,
+        applied: ['wildcard *.reddit.com → news', 'host github.com → work', 'wildcard *.x.com → social', 'wildcard *.youtube.com → video'],
+      },
+    ],
+    [
+      'the same pattern under another rule type is a new rule',
+      [rule('a', 'host', 'reddit.com', 'social')],
+      {
+        added: ['host reddit.com → social'],
+        changed: [],
+        unchanged: 0,
+        applied: ['wildcard *.reddit.com → social', 'host github.com → work', 'wildcard *.x.com → social', 'host reddit.com → social'],
+      },
+    ],
+  ])('%s', (_name, incoming, expected) => {
+    const diff = diffRules(existing, incoming);
+    expect({
+      added: summarize(diff.added),
+      changed: diff.changed.map(({ before, after }) => `${before.id}: ${before.category} → ${after.category}`),
+      unchanged: diff.unchanged,
+      applied: summarize(applyRuleDiff(existing, diff)),
+    }).toEqual(expected);
+  });
+});
+
+describe('serializeRules', () => {
+  const config: ClassificationRules = {
+    ...DEFAULT_CLASSIFICATION_RULES,
+    rules: [
+      rule('1', 'wildcard', '*.reddit.com', 'social'),
+      rule('2', 'host', 'github.com', 'work'),
+      rule('3', 'path', '*.youtube.com/shorts', 'social'),
+      rule('4', 'regex', '^https://x\\.com/', 'social'),
+      { ...rule('5', 'wildcard', '*.shared.com', 'social'), source: { listId: 'list-1', listName: 'Team list', enforced: false } },
+    ],
+  };
+
+  it.each<[ListFormat, string | null, string, number]>([
+    ['hosts', null, '0.0.0.0 reddit.com\n0.0.0.0 github.com', 2],
+    ['domains', 'social', 'reddit.com', 2],
+    ['ublock', null, '||reddit.com^\n||github.com^\n||youtube.com/shorts', 1],
+  ])('%s (category %s)', (format, categoryId, expectedText, expectedSkipped) => {
+    expect(serializeRules(config, format, categoryId)).toEqual({ text: expectedText, skipped: expectedSkipped });
+  });
+
+  it.each<[ListFormat, string[]]>([
+    ['hosts', ['wildcard *.reddit.com → social', 'wildcard *.github.com → social']],
+    ['ublock', ['wildcard *.reddit.com → social', 'wildcard *.github.com → social', 'path *.youtube.com/shorts → social']],
+    ['json', ['wildcard *.reddit.com → social', 'host github.com → work', 'path *.youtube.com/shorts → social', 'regex ^https://x\\.com/ → social']],
+  ])('round-trips through %s', (format, expected) => {
+    const { text } = serializeRules(config, format, null);
+    expect(summarize(parseRuleList(text, detectFormat(text), 'social').rules)).toEqual(expected);
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Import/export of classification rules in common list formats
+ *
+ * - hosts:   "0.0.0.0 example.com" lines, as used by hosts-file blocklists
+ * - domains: one domain per line
+ * - ublock:  "||example.com^" network filters (a path after the domain becomes a path rule)
+ * - json:    this extension's own rule format
+ */
+import { validateRule, type Category, type ClassificationRule, type ClassificationRules } from './classify';
+
+export type ListFormat = 'hosts' | 'domains' | 'ublock' | 'json';
+
+export interface ParsedRuleList {
+  rules: ClassificationRule[];
+  invalid: string[]; // Lines that could not be turned into a rule
+  duplicates: number; // Entries repeated within the imported text
+  categories: Category[]; // Categories shipped with a JSON export
+}
+
+export interface RuleDiff {
+  added: ClassificationRule[];
+  changed: { before: ClassificationRule; after: ClassificationRule }[]; // Same pattern, different category
+  unchanged: number;
+}
+
+const HOSTS_SINK_ADDRESSES = new Set(['0.0.0.0', '127.0.0.1', '::', '::1']);
+const LOCAL_HOSTNAMES = new Set(['localhost', 'localhost.localdomain', 'local', 'broadcasthost', '0.0.0.0']);
+const DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z0-9-]{2,63}$/i;
+
+function ruleKey(rule: Pick<ClassificationRule, 'type' | 'pattern' | 'field'>): string {
+  return `${rule.type}|${rule.field ?? ''}|${rule.pattern.trim().toLowerCase()}`;
+}
+
+function normalizeDomain(value: string): string | null {
+  const domain = value.trim().toLowerCase().replace(/^www\./, '').replace(/\.$/, '');
+  return DOMAIN_PATTERN.test(domain) && !LOCAL_HOSTNAMES.has(domain) ? domain : null;
+}
+
+function domainRule(domain: string, category: string): ClassificationRule {
+  return { id: crypto.randomUUID(), type: 'wildcard', pattern: `*.${domain}`, category, enabled: true };
+}
+
+/**
+ * Guess the format of pasted or uploaded text
+ */
+export function detectFormat(text: string): ListFormat {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) return 'json';
+
+  const lines = trimmed.split(/\r?\n/).map((line) => line.trim()).filter((line) => line && !/^[#!]/.test(line));
+  if (lines.some((line) => line.startsWith('||') || line.startsWith('@@'))) return 'ublock';
+  if (lines.some((line) => HOSTS_SINK_ADDRESSES.has(line.split(/\s+/)[0]))) return 'hosts';
+  return 'domains';
+}
+
+function parseLine(line: string, format: Exclude<ListFormat, 'json'>, category: string): ClassificationRule | null {
+  if (format === 'hosts') {
+    const [address, host] = line.split(/\s+/);
+    const domain = HOSTS_SINK_ADDRESSES.has(address) && host ? normalizeDomain(host) : null;
+    return domain ? domainRule(domain, category) : null;
+  }
+
+  if (format === 'ublock') {
+    // Only plain "||domain^" / "||domain/path" network filters map onto rules; cosmetic and exception filters don't
+    const match = /^\|\|([^/^$*]+)([^^$]*)\^?(\$.*)?$/.exec(line);
+    if (!match) return null;
+    const domain = normalizeDomain(match[1]);
+    if (!domain) return null;
+    const path = match[2];
+    if (!path) return domainRule(domain, category);
+    return { id: crypto.randomUUID(), type: 'path', pattern: `*.${domain}${path}`, category, enabled: true };
+  }
+
+  const domain = normalizeDomain(line.replace(/^https?:\/\//i, '').split('/')[0]);
+  return domain ? domainRule(domain, category) : null;
+}
+
+function parseJson(text: string): ParsedRuleList {
+  const parsed = JSON.parse(text);
+  const rawRules: unknown[] = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.rules) ? parsed.rules : [];
+  const rawCategories: unknown[] = Array.isArray(parsed?.categories) ? parsed.categories : [];
+  const result: ParsedRuleList = {
+    rules: [],
+    invalid: [],
+    duplicates: 0,
+    categories: rawCategories.filter((category): category is Category => {
+      const candidate = category as Partial<Category>;
+      return typeof candidate?.id === 'string' && typeof candidate?.name === 'string' && typeof candidate?.weight === 'number';
+    }),
+  };
+
+  for (const raw of rawRules) {
+    const rule = raw as Partial<ClassificationRule>;
+    const isShaped =
+      typeof rule?.pattern === 'string' &&
+      typeof rule?.category === 'string' &&
+      ['host', 'wildcard', 'path', 'regex', 'content'].includes(rule?.type as string);
+    if (!isShaped || validateRule(rule as ClassificationRule) !== null) {
+      result.invalid.push(JSON.stringify(raw));
+      continue;
+    }
+    result.rules.push({
+      id: crypto.randomUUID(),
+      type: rule.type!,
+      pattern: rule.pattern!.trim(),
+      ...(rule.field && { field: rule.field }),
+      category: rule.category!,
+      ...(rule.scheduleId && { scheduleId: rule.scheduleId }),
+      enabled: rule.enabled !== false,
+    });
+  }
+  return result;
+}
+
+/**
+ * Parse a list into rules. Text formats put every entry into `category`; JSON keeps its own.
+ * Invalid lines are reported and entries repeated within the text are dropped.
+ */
+export function parseRuleList(text: string, format: ListFormat, category: string): ParsedRuleList {
+  let parsed: ParsedRuleList;
+  if (format === 'json') {
+    try {
+      parsed = parseJson(text);
+    } catch (error) {
+      const message = `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`;
+      return { rules: [], invalid: [message], duplicates: 0, categories: [] };
+    }
+  } else {
+    parsed = { rules: [], invalid: [], duplicates: 0, categories: [] };
+    for (const rawLine of text.split(/\r?\n/)) {
+      // Strip comments ("#" everywhere, "!" for uBlock) and blank lines
+      const line = rawLine.replace(/\s+#.*$/, '').trim();
+      if (!line || line.startsWith('#') || (format === 'ublock' && (line.startsWith('!') || line.startsWith('[')))) {
+        continue;
+      }
+      // Hosts files map their own loopback names too; those aren't sites
+      if (format === 'hosts' && LOCAL_HOSTNAMES.has(line.split(/\s+/)[1]?.toLowerCase())) {
+        continue;
+      }
+      const rule = parseLine(line, format, category);
+      if (rule) {
+        parsed.rules.push(rule);
+      } else {
+        parsed.invalid.push(line);
+      }
+    }
+  }
+
+  const seen = new Set<string>();
+  const unique = parsed.rules.filter((rule) => {
+    const key = ruleKey(rule);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return { ...parsed, rules: unique, duplicates: parsed.duplicates + parsed.rules.length - unique.length };
+}
+
+/**
+ * Compare imported rules against the current ones, matching on type + pattern
+ */
+export function diffRules(existing: ClassificationRule[], incoming: ClassificationRule[]): RuleDiff {
+  const existingByKey = new Map(existing.map((rule) => [ruleKey(rule), rule]));
+  const diff: RuleDiff = { added: [], changed: [], unchanged: 0 };
+
+  for (const rule of incoming) {
+    const before = existingByKey.get(ruleKey(rule));
+    if (!before) {
+      diff.added.push(rule);
+    } else if (before.category !== rule.category) {
+      diff.changed.push({ before, after: rule });
+    } else {
+      diff.unchanged++;
+    }
+  }
+  return diff;
+}
+
+/**
+ * Apply a previewed diff: changed rules keep their position, new rules are appended
+ */
+export function applyRuleDiff(existing: ClassificationRule[], diff: RuleDiff): ClassificationRule[] {
+  const changedCategory = new Map(diff.changed.map(({ before, after }) => [before.id, after.category]));
+  return [
+    ...existing.map((rule) => (changedCategory.has(rule.id) ? { ...rule, category: changedCategory.get(rule.id)! } : rule)),
+    ...diff.added,
+  ];
+}
+
+/**
+ * The domain a host/wildcard rule stands for, if it can be written as a plain domain
+ */
+function ruleDomain(rule: ClassificationRule): string | null {
+  if (rule.type !== 'host' && rule.type !== 'wildcard') return null;
+  const domain = rule.pattern.trim().toLowerCase().replace(/^\*\./, '');
+  return domain.includes('*') ? null : domain;
+}
+
+/**
+ * The "||host/path" filter a path rule stands for, if its host part has no wildcard
+ */
+function rulePathFilter(rule: ClassificationRule): string | null {
+  if (rule.type !== 'path') return null;
+  const pattern = rule.pattern.trim().toLowerCase().replace(/^\*\./, '');
+  const host = pattern.slice(0, pattern.indexOf('/'));
+  return host.includes('*') ? null : pattern;
+}
+
+/**
+ * Export rules. Text formats can only express domain (and, for uBlock, path) rules, so other
+ * rule types are skipped and counted.
+ */
+export function serializeRules(
+  config: ClassificationRules,
+  format: ListFormat,
+  categoryId: string | null
+): { text: string; skipped: number } {
+  const rules = config.rules.filter((rule) => !rule.source && (!categoryId || rule.category === categoryId));
+
+  if (format === 'json') {
+    const exported = rules.map(({ id: _id, source: _source, ...rule }) => rule);
+    return { text: JSON.stringify({ rules: exported, categories: config.categories }, null, 2), skipped: 0 };
+  }
+
+  const lines: string[] = [];
+  let skipped = 0;
+  for (const rule of rules) {
+    const domain = ruleDomain(rule);
+    const pathFilter = format === 'ublock' ? rulePathFilter(rule) : null;
+    if (domain && format === 'hosts') {
+      lines.push(`0.0.0.0 ${domain}`);
+    } else if (domain && format === 'ublock') {
+      lines.push(`||${domain}^`);
+    } else if (domain) {
+      lines.push(domain);
+    } else if (pathFilter) {
+      lines.push(`||${pathFilter}`);
+    } else {
+      skipped++;
+    }
+  }
+  return { text: lines.join('\n'), skipped };
+}
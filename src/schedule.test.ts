@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { isScheduleActive, parseTimeOfDay, validateTimeRange, type Schedule, type TimeRange } from './schedule';
+
+// Berlin is UTC+1 in January; 2024-01-19 is a Friday
+const berlin = (day: number, hours: number, minutes = 0) => new Date(Date.UTC(2024, 0, day, hours - 1, minutes));
+
+function schedule(...ranges: TimeRange[]): Schedule {
+  return { id: 'schedule-1', name: 'Test', timeZone: 'Europe/Berlin', ranges };
+}
+
+describe('parseTimeOfDay', () => {
+  it.each([
+    ['00:00', 0],
+    ['9:05', 545],
+    [' 22:30 ', 1350],
+    ['24:00', 1440], // End of day
+    ['24:01', null],
+    ['12:60', null],
+    ['1230', null],
+    ['', null],
+  ])('%s → %s', (value, expected) => {
+    expect(parseTimeOfDay(value)).toBe(expected);
+  });
+});
+
+describe('isScheduleActive', () => {
+  const overnightFriday = schedule({ days: [5], start: '22:00', end: '06:00' });
+  const overnightSunday = schedule({ days: [0], start: '23:00', end: '02:00' });
+  const workday = schedule({ days: [1, 2, 3, 4, 5], start: '09:00', end: '17:00' });
+
+  it.each([
+    ['Friday 22:00, start of an overnight range', overnightFriday, berlin(19, 22), true],
+    ['Friday 21:59, before it', overnightFriday, berlin(19, 21, 59), false],
+    ['Saturday 05:59, the morning after', overnightFriday, berlin(20, 5, 59), true],
+    ['Saturday 06:00, end is exclusive', overnightFriday, berlin(20, 6), false],
+    ['Saturday 23:00, Saturday is not a start day', overnightFriday, berlin(20, 23), false],
+    ['Friday 03:00, belongs to Thursday night', overnightFriday, berlin(19, 3), false],
+    ['Monday 01:00, Sunday night wraps into the next week', overnightSunday, berlin(22, 1), true],
+    ['Sunday 01:00, belongs to Saturday night', overnightSunday, berlin(21, 1), false],
+    ['Friday 09:00 on a workday range', workday, berlin(19, 9), true],
+    ['Friday 17:00, end is exclusive', workday, berlin(19, 17), false],
+    ['Saturday 10:00, not a workday', workday, berlin(20, 10), false],
+    ['Friday 08:30 UTC is 09:30 in Berlin', workday, new Date(Date.UTC(2024, 0, 19, 8, 30)), true],
+  ])('%s', (_name, active, now, expected) => {
+    expect(isScheduleActive(active, now)).toBe(expected);
+  });
+});
+
+describe('validateTimeRange', () => {
+  it.each<[TimeRange, string | null]>([
+    [{ days: [1], start: '22:00', end: '06:00' }, null],
+    [{ days: [], start: '09:00', end: '17:00' }, 'Pick at least one weekday'],
+    [{ days: [1], start: '9am', end: '17:00' }, 'Times must be in HH:MM format'],
+    [{ days: [1], start: '09:00', end: '09:00' }, 'Start and end time must differ'],
+  ])('%j → %s', (range, expected) => {
+    expect(validateTimeRange(range)).toBe(expected);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Weekday/time-of-day schedules used to scope classification rules and tracking
+ */
+
+export interface TimeRange {
+  days: number[]; // 0 = Sunday ... 6 = Saturday (the day the range starts on)
+  start: string; // "HH:MM", inclusive
+  end: string; // "HH:MM", exclusive. An end before the start runs past midnight.
+}
+
+export interface Schedule {
+  id: string;
+  name: string;
+  timeZone: string; // IANA time zone, e.g. "Europe/Berlin"
+  ranges: TimeRange[];
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse "HH:MM" into minutes after midnight, or null if malformed
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) return null;
+  return hours * 60 + minutes;
+}
+
+/**
+ * Weekday and minutes after midnight of an instant, as seen in a time zone
+ */
+export function getZonedTime(date: Date, timeZone: string): { day: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? '';
+
+  return {
+    day: WEEKDAY_INDEX[part('weekday')] ?? 0,
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+}
+
+function isRangeActive(range: TimeRange, day: number, minutes: number): boolean {
+  const start = parseTimeOfDay(range.start);
+  const end = parseTimeOfDay(range.end);
+  if (start === null || end === null || start === end) return false;
+
+  if (start < end) {
+    return range.days.includes(day) && minutes >= start && minutes < end;
+  }
+  // Overnight range: the evening part belongs to `day`, the early-morning part to the day after
+  const previousDay = (day + 6) % 7;
+  return (range.days.includes(day) && minutes >= start) || (range.days.includes(previousDay) && minutes < end);
+}
+
+export function isScheduleActive(schedule: Schedule, now: Date = new Date()): boolean {
+  const timeZone = isValidTimeZone(schedule.timeZone) ? schedule.timeZone : getLocalTimeZone();
+  const { day, minutes } = getZonedTime(now, timeZone);
+  return schedule.ranges.some((range) => isRangeActive(range, day, minutes));
+}
+
+export function getActiveSchedules(schedules: Schedule[], now: Date = new Date()): Schedule[] {
+  return schedules.filter((schedule) => isScheduleActive(schedule, now));
+}
+
+/**
+ * Validate a time range before it is added to a schedule. Returns an error message or null.
+ */
+export function validateTimeRange(range: TimeRange): string | null {
+  if (range.days.length === 0) return 'Pick at least one weekday';
+  const start = parseTimeOfDay(range.start);
+  const end = parseTimeOfDay(range.end);
+  if (start === null || end === null) return 'Times must be in HH:MM format';
+  if (start === end) return 'Start and end time must differ';
+  return null;
+}
+
+export function formatTimeRange(range: TimeRange): string {
+  const days = [...range.days].sort().map((day) => WEEKDAY_LABELS[day]).join(', ');
+  return `${days} ${range.start}–${range.end}`;
+}
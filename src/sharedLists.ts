@@ -0,0 +1,196 @@
+/**
+ * Organization-managed classification lists synced from Supabase
+ *
+ * Lists live in `classification_lists` and are owned by a group. Enforced lists apply to every
+ * member and beat local rules; other lists apply only when subscribed to and can be overridden
+ * by local rules. Each list carries a version so unchanged lists are never refetched.
+ */
+import {
+  validateRule,
+  type Category,
+  type ClassificationRule,
+  type ClassificationRules,
+} from './classify';
+import { getSharedListsCache, setSharedListsCache } from './storage';
+import { supabase } from './supabaseClient';
+
+export interface SharedListSummary {
+  id: string;
+  name: string;
+  groupId: string;
+  version: number;
+  enforced: boolean;
+  subscribed: boolean;
+}
+
+export interface SharedRuleSet {
+  id: string;
+  name: string;
+  groupId: string;
+  version: number;
+  enforced: boolean;
+  rules: ClassificationRule[];
+  categories: Category[];
+}
+
+export interface SharedListsCache {
+  sets: SharedRuleSet[]; // Lists currently applied (enforced or subscribed)
+  available: SharedListSummary[]; // Every list visible to the user
+  lastSyncedAt: number;
+  lastError: string | null;
+}
+
+interface ClassificationListRow {
+  id: string;
+  name: string;
+  group_id: string;
+  version: number;
+  enforced: boolean;
+  rules?: unknown;
+  categories?: unknown;
+}
+
+/**
+ * Keep only well-formed rules from a list row; the JSON is edited by hand on the server
+ */
+function parseRules(raw: unknown): ClassificationRule[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((rule): rule is ClassificationRule =>
+      typeof rule?.id === 'string' &&
+      typeof rule?.pattern === 'string' &&
+      typeof rule?.category === 'string' &&
+      ['host', 'wildcard', 'path', 'regex', 'content'].includes(rule?.type) &&
+      validateRule(rule) === null
+    )
+    .map((rule) => ({ ...rule, enabled: rule.enabled !== false }));
+}
+
+function parseCategories(raw: unknown): Category[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter((category): category is Category =>
+    typeof category?.id === 'string' && typeof category?.name === 'string' && typeof category?.weight === 'number'
+  );
+}
+
+function toRuleSet(row: ClassificationListRow): SharedRuleSet {
+  return {
+    id: row.id,
+    name: row.name,
+    groupId: row.group_id,
+    version: row.version,
+    enforced: row.enforced,
+    rules: parseRules(row.rules),
+    categories: parseCategories(row.categories),
+  };
+}
+
+/**
+ * Pull list versions and subscriptions, refetching only lists whose version changed.
+ * Failures keep the cached lists so classification keeps working offline.
+ */
+export async function syncSharedRuleSets(userId: string): Promise<void> {
+  const cache = await getSharedListsCache();
+
+  try {
+    const { data: lists, error: listsError } = await supabase
+      .from('classification_lists')
+      .select('id, name, group_id, version, enforced');
+    if (listsError) throw listsError;
+
+    const { data: subscriptions, error: subscriptionsError } = await supabase
+      .from('classification_list_subscriptions')
+      .select('list_id')
+      .eq('user_id', userId);
+    if (subscriptionsError) throw subscriptionsError;
+
+    const subscribedIds = new Set((subscriptions || []).map((row) => row.list_id as string));
+    const available: SharedListSummary[] = (lists || []).map((row: ClassificationListRow) => ({
+      id: row.id,
+      name: row.name,
+      groupId: row.group_id,
+      version: row.version,
+      enforced: row.enforced,
+      subscribed: subscribedIds.has(row.id),
+    }));
+
+    const wanted = available.filter((list) => list.enforced || list.subscribed);
+    const cachedById = new Map(cache.sets.map((set) => [set.id, set]));
+    const staleIds = wanted
+      .filter((list) => cachedById.get(list.id)?.version !== list.version)
+      .map((list) => list.id);
+
+    const fetchedById = new Map<string, SharedRuleSet>();
+    if (staleIds.length > 0) {
+      const { data: rows, error: rowsError } = await supabase
+        .from('classification_lists')
+        .select('id, name, group_id, version, enforced, rules, categories')
+        .in('id', staleIds);
+      if (rowsError) throw rowsError;
+      for (const row of rows || []) {
+        fetchedById.set(row.id, toRuleSet(row));
+      }
+      console.log(`🔁 Fetched ${fetchedById.size} updated shared list(s)`);
+    }
+
+    const sets = wanted
+      .map((list) => {
+        const set = fetchedById.get(list.id) ?? cachedById.get(list.id);
+        // Enforcement can change without a version bump, so always take it from the summary
+        return set ? { ...set, enforced: list.enforced } : null;
+      })
+      .filter((set): set is SharedRuleSet => set !== null);
+
+    await setSharedListsCache({ sets, available, lastSyncedAt: Date.now(), lastError: null });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : (error as { message?: string })?.message ?? String(error);
+    console.error('Error syncing shared classification lists:', message);
+    await setSharedListsCache({ ...cache, lastError: message });
+  }
+}
+
+export async function subscribeToList(userId: string, listId: string): Promise<void> {
+  const { error } = await supabase
+    .from('classification_list_subscriptions')
+    .upsert({ user_id: userId, list_id: listId }, { onConflict: 'user_id,list_id' });
+  if (error) throw error;
+  await syncSharedRuleSets(userId);
+}
+
+export async function unsubscribeFromList(userId: string, listId: string): Promise<void> {
+  const { error } = await supabase
+    .from('classification_list_subscriptions')
+    .delete()
+    .eq('user_id', userId)
+    .eq('list_id', listId);
+  if (error) throw error;
+  await syncSharedRuleSets(userId);
+}
+
+/**
+ * Merge shared lists into the local configuration. Shared rules are tagged with their source
+ * so classification can apply them in the right layer; shared categories fill in ids the
+ * user does not define locally.
+ */
+export function applySharedRuleSets(local: ClassificationRules, sets: SharedRuleSet[]): ClassificationRules {
+  if (sets.length === 0) return local;
+
+  const categories = [...local.categories];
+  for (const set of sets) {
+    for (const category of set.categories) {
+      if (!categories.some((existing) => existing.id === category.id)) {
+        categories.push(category);
+      }
+    }
+  }
+
+  const sharedRules = sets.flatMap((set) =>
+    set.rules.map((rule) => ({
+      ...rule,
+      id: `${set.id}:${rule.id}`,
+      source: { listId: set.id, listName: set.name, enforced: set.enforced },
+    }))
+  );
+
+  return { ...local, categories, rules: [...local.rules, ...sharedRules] };
+}
@@ -0,0 +1,368 @@
+/**
+ * In-memory stand-in for the chrome.* APIs the tracker uses, driven by a fake clock
+ *
+ * Covers storage (local and session), tabs, windows, idle, alarms, runtime messaging and
+ * declarativeNetRequest dynamic rules, enough for code written against the real APIs (e.g.
+ * storage.ts, blocking.ts) to run unchanged in a simulation.
+ */
+
+export interface FakeClock {
+  now(): number;
+  set(time: number): void;
+}
+
+export function createFakeClock(start: number): FakeClock {
+  let time = start;
+  return {
+    now: () => time,
+    set: (next) => {
+      time = next;
+    },
+  };
+}
+
+/**
+ * chrome.events.Event lookalike; dispatch() awaits every listener so simulations stay ordered
+ */
+export class FakeEvent<Args extends unknown[]> {
+  private listeners: ((...args: Args) => unknown)[] = [];
+
+  addListener(listener: (...args: Args) => unknown): void {
+    this.listeners.push(listener);
+  }
+
+  removeListener(listener: (...args: Args) => unknown): void {
+    this.listeners = this.listeners.filter((existing) => existing !== listener);
+  }
+
+  hasListener(listener: (...args: Args) => unknown): boolean {
+    return this.listeners.includes(listener);
+  }
+
+  removeAllListeners(): void {
+    this.listeners = [];
+  }
+
+  async dispatch(...args: Args): Promise<void> {
+    for (const listener of this.listeners) {
+      await listener(...args);
+    }
+  }
+}
+
+function createStorageArea(areaName: string, onChanged: FakeEvent<[Record<string, chrome.storage.StorageChange>, string]>) {
+  const items = new Map<string, unknown>();
+  // Values are copied in and out, like the real API's serialization
+  const copy = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+  return {
+    async get(keys?: string | string[] | null): Promise<Record<string, unknown>> {
+      const names = keys === undefined || keys === null ? [...items.keys()] : Array.isArray(keys) ? keys : [keys];
+      const result: Record<string, unknown> = {};
+      for (const name of names) {
+        if (items.has(name)) result[name] = copy(items.get(name));
+      }
+      return result;
+    },
+    async set(values: Record<string, unknown>): Promise<void> {
+      const changes: Record<string, chrome.storage.StorageChange> = {};
+      for (const [name, value] of Object.entries(values)) {
+        changes[name] = { oldValue: copy(items.get(name)), newValue: copy(value) };
+        items.set(name, copy(value));
+      }
+      await onChanged.dispatch(changes, areaName);
+    },
+    async remove(keys: string | string[]): Promise<void> {
+      const changes: Record<string, chrome.storage.StorageChange> = {};
+      for (const name of Array.isArray(keys) ? keys : [keys]) {
+        if (items.has(name)) {
+          changes[name] = { oldValue: copy(items.get(name)) };
+          items.delete(name);
+        }
+      }
+      await onChanged.dispatch(changes, areaName);
+    },
+    async clear(): Promise<void> {
+      await this.remove([...items.keys()]);
+    },
+  };
+}
+
+export interface FakeTab {
+  id: number;
+  windowId: number;
+  url: string;
+  active: boolean;
+  audible: boolean;
+}
+
+export interface FakeWindow {
+  id: number;
+  focused: boolean;
+}
+
+export const EXTENSION_ID = 'fakeextensionid';
+
+/**
+ * A fake chrome namespace plus the controls a simulation uses to change the browser's state.
+ * Controls update the model and dispatch the events Chrome would.
+ */
+export function createFakeChrome(clock: FakeClock) {
+  const WINDOW_ID_NONE = -1;
+  const storageChanged = new FakeEvent<[Record<string, chrome.storage.StorageChange>, string]>();
+  const tabs = new Map<number, FakeTab>();
+  const windows = new Map<number, FakeWindow>();
+  const alarms = new Map<string, chrome.alarms.Alarm>();
+  let dynamicRules: chrome.declarativeNetRequest.Rule[] = [];
+  let idleState: chrome.idle.IdleState = 'active';
+  let detectionIntervalSeconds = 60;
+
+  const events = {
+    tabActivated: new FakeEvent<[chrome.tabs.TabActiveInfo]>(),
+    tabUpdated: new FakeEvent<[number, chrome.tabs.TabChangeInfo, chrome.tabs.Tab]>(),
+    tabRemoved: new FakeEvent<[number, chrome.tabs.TabRemoveInfo]>(),
+    focusChanged: new FakeEvent<[number]>(),
+    idleChanged: new FakeEvent<[chrome.idle.IdleState]>(),
+    alarm: new FakeEvent<[chrome.alarms.Alarm]>(),
+    message: new FakeEvent<[unknown, chrome.runtime.MessageSender, (response?: unknown) => void]>(),
+  };
+
+  const toTab = (tab: FakeTab): chrome.tabs.Tab => ({ ...tab }) as unknown as chrome.tabs.Tab;
+
+  const chromeApi = {
+    storage: {
+      local: createStorageArea('local', storageChanged),
+      session: createStorageArea('session', storageChanged),
+      onChanged: storageChanged,
+    },
+    tabs: {
+      async query(info: { active?: boolean; windowId?: number; audible?: boolean } = {}): Promise<chrome.tabs.Tab[]> {
+        return [...tabs.values()]
+          .filter((tab) => info.active === undefined || tab.active === info.active)
+          .filter((tab) => info.windowId === undefined || tab.windowId === info.windowId)
+          .filter((tab) => info.audible === undefined || tab.audible === info.audible)
+          .map(toTab);
+      },
+      async get(tabId: number): Promise<chrome.tabs.Tab> {
+        const tab = tabs.get(tabId);
+        if (!tab) throw new Error(`No tab with id: ${tabId}.`);
+        return toTab(tab);
+      },
+      async sendMessage(): Promise<undefined> {
+        // No content scripts in a simulation
+        return undefined;
+      },
+      onActivated: events.tabActivated,
+      onUpdated: events.tabUpdated,
+      onRemoved: events.tabRemoved,
+    },
+    windows: {
+      WINDOW_ID_NONE,
+      async getAll(options: { populate?: boolean } = {}): Promise<chrome.windows.Window[]> {
+        return [...windows.values()].map(
+          (window) =>
+            ({
+              ...window,
+              tabs: options.populate ? [...tabs.values()].filter((tab) => tab.windowId === window.id).map(toTab) : undefined,
+            }) as unknown as chrome.windows.Window
+        );
+      },
+      onFocusChanged: events.focusChanged,
+    },
+    idle: {
+      setDetectionInterval(seconds: number): void {
+        detectionIntervalSeconds = seconds;
+      },
+      async queryState(): Promise<chrome.idle.IdleState> {
+        return idleState;
+      },
+      onStateChanged: events.idleChanged,
+    },
+    alarms: {
+      create(name: string, info: chrome.alarms.AlarmCreateInfo): void {
+        const scheduledTime = info.when ?? clock.now() + (info.delayInMinutes ?? info.periodInMinutes ?? 0) * 60000;
+        alarms.set(name, { name, scheduledTime, periodInMinutes: info.periodInMinutes });
+      },
+      async get(name: string): Promise<chrome.alarms.Alarm | undefined> {
+        return alarms.get(name);
+      },
+      async getAll(): Promise<chrome.alarms.Alarm[]> {
+        return [...alarms.values()];
+      },
+      async clear(name: string): Promise<boolean> {
+        return alarms.delete(name);
+      },
+      onAlarm: events.alarm,
+    },
+    runtime: {
+      async sendMessage(message: unknown): Promise<unknown> {
+        return new Promise((resolve) => {
+          let responded = false;
+          events.message
+            .dispatch(message, {}, (response) => {
+              responded = true;
+              resolve(response);
+            })
+            .then(() => {
+              if (!responded) resolve(undefined);
+            });
+        });
+      },
+      onMessage: events.message,
+      getURL(path: string): string {
+        return `chrome-extension://${EXTENSION_ID}/${path.replace(/^\//, '')}`;
+      },
+    },
+    declarativeNetRequest: {
+      RuleActionType: { BLOCK: 'block', REDIRECT: 'redirect', ALLOW: 'allow' },
+      ResourceType: { MAIN_FRAME: 'main_frame', SUB_FRAME: 'sub_frame' },
+      async getDynamicRules(): Promise<chrome.declarativeNetRequest.Rule[]> {
+        return dynamicRules.map((rule) => ({ ...rule }));
+      },
+      async updateDynamicRules(options: chrome.declarativeNetRequest.UpdateRuleOptions): Promise<void> {
+        const removed = new Set(options.removeRuleIds ?? []);
+        const kept = dynamicRules.filter((rule) => !removed.has(rule.id));
+        const added = options.addRules ?? [];
+        const ids = new Set(kept.map((rule) => rule.id));
+        for (const rule of added) {
+          if (ids.has(rule.id)) throw new Error(`Rule with id ${rule.id} does not have a unique ID.`);
+          ids.add(rule.id);
+        }
+        dynamicRules = [...kept, ...added];
+      },
+    },
+  };
+
+  let nextTabId = 1;
+
+  /**
+   * Fire alarms that are due at the current time, in due order. Like Chrome after a sleep,
+   * a periodic alarm that missed several periods fires once and is rescheduled from now.
+   */
+  async function fireDueAlarms(): Promise<void> {
+    for (;;) {
+      const due = [...alarms.values()]
+        .filter((alarm) => alarm.scheduledTime <= clock.now())
+        .sort((a, b) => a.scheduledTime - b.scheduledTime)[0];
+      if (!due) return;
+      if (due.periodInMinutes) {
+        const period = due.periodInMinutes * 60000;
+        let next = due.scheduledTime + period;
+        while (next <= clock.now()) next += period;
+        alarms.set(due.name, { ...due, scheduledTime: next });
+      } else {
+        alarms.delete(due.name);
+      }
+      await events.alarm.dispatch(due);
+    }
+  }
+
+  /**
+   * Move the clock forward to `time`, firing alarms as they come due
+   */
+  async function advanceTo(time: number): Promise<void> {
+    for (;;) {
+      const next = Math.min(...[...alarms.values()].map((alarm) => alarm.scheduledTime));
+      if (!Number.isFinite(next) || next > time) break;
+      clock.set(Math.max(clock.now(), next));
+      await fireDueAlarms();
+    }
+    clock.set(time);
+  }
+
+  const controls = {
+    events,
+    get idleState() {
+      return idleState;
+    },
+    get detectionIntervalSeconds() {
+      return detectionIntervalSeconds;
+    },
+    fireDueAlarms,
+    advanceTo,
+
+    /**
+     * Drop every listener on the browser events, as when the service worker restarts
+     */
+    removeAllListeners(): void {
+      Object.values(events).forEach((event) => event.removeAllListeners());
+    },
+
+    /**
+     * Machine asleep or browser closed: time passes without any alarm firing until wake-up
+     */
+    async sleep(ms: number): Promise<void> {
+      clock.set(clock.now() + ms);
+      await fireDueAlarms();
+    },
+
+    async openWindow(focused = true): Promise<number> {
+      const id = windows.size + 1;
+      windows.set(id, { id, focused: false });
+      if (focused) await controls.focusWindow(id);
+      return id;
+    },
+
+    async focusWindow(windowId: number | null): Promise<void> {
+      if (windowId !== null && !windows.has(windowId)) windows.set(windowId, { id: windowId, focused: false });
+      for (const window of windows.values()) window.focused = window.id === windowId;
+      await events.focusChanged.dispatch(windowId ?? WINDOW_ID_NONE);
+    },
+
+    async openTab(url: string, windowId: number, active = true): Promise<number> {
+      if (!windows.has(windowId)) windows.set(windowId, { id: windowId, focused: false });
+      const id = nextTabId++;
+      tabs.set(id, { id, windowId, url, active: false, audible: false });
+      await events.tabUpdated.dispatch(id, { status: 'complete', url }, toTab(tabs.get(id)!));
+      if (active) await controls.activateTab(id);
+      return id;
+    },
+
+    async activateTab(tabId: number): Promise<void> {
+      const tab = tabs.get(tabId);
+      if (!tab) throw new Error(`No tab with id: ${tabId}.`);
+      for (const other of tabs.values()) {
+        if (other.windowId === tab.windowId) other.active = other.id === tabId;
+      }
+      await events.tabActivated.dispatch({ tabId, windowId: tab.windowId });
+    },
+
+    async navigateTab(tabId: number, url: string): Promise<void> {
+      const tab = tabs.get(tabId);
+      if (!tab) throw new Error(`No tab with id: ${tabId}.`);
+      tab.url = url;
+      await events.tabUpdated.dispatch(tabId, { status: 'complete', url }, toTab(tab));
+    },
+
+    async setAudible(tabId: number, audible: boolean): Promise<void> {
+      const tab = tabs.get(tabId);
+      if (!tab) throw new Error(`No tab with id: ${tabId}.`);
+      tab.audible = audible;
+      await events.tabUpdated.dispatch(tabId, { audible }, toTab(tab));
+    },
+
+    async closeTab(tabId: number): Promise<void> {
+      const tab = tabs.get(tabId);
+      if (!tab) return;
+      tabs.delete(tabId);
+      await events.tabRemoved.dispatch(tabId, { windowId: tab.windowId, isWindowClosing: false });
+    },
+
+    async setIdleState(state: chrome.idle.IdleState): Promise<void> {
+      if (state === idleState) return;
+      idleState = state;
+      await events.idleChanged.dispatch(state);
+    },
+  };
+
+  return { chrome: chromeApi as unknown as typeof chrome, controls };
+}
+
+export type FakeChrome = ReturnType<typeof createFakeChrome>;
+
+/**
+ * Make a fake chrome the global `chrome`, for modules that call chrome.* directly
+ */
+export function installFakeChrome(fake: FakeChrome): void {
+  (globalThis as { chrome?: typeof chrome }).chrome = fake.chrome;
+}
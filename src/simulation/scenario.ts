@@ -0,0 +1,300 @@
+/**
+ * Scenario runner: replays a scripted timeline (tab switches, focus and idle changes, machine
+ * sleep, worker restarts) through the tracking engine on a fake clock and fake chrome, then checks
+ * the resulting TrackingState and the Supabase writes the engine asked for
+ *
+ * Listeners are wired the way background.ts wires them, with the Supabase/Twilio side effects
+ * recorded instead of sent. Runs anywhere with a JavaScript runtime; no browser needed.
+ */
+
+import { CHECKPOINT_INTERVAL_MS } from '../accounting';
+import { DEFAULT_CLASSIFICATION_RULES, type ClassificationRules, type PageSignals } from '../classify';
+import { createTrackingEngine, type TrackingEngine } from '../engine';
+import type { CounterReset, VisitSegment } from '../history';
+import type { Budget, BudgetWarning } from '../budgets';
+import type { CreditTransaction } from '../credits';
+import type { UsageSample } from '../usage';
+import { findMediaTabs } from '../mediaTabs';
+import { getTrackingState, updateTrackingState, type IdleState, type TrackingState } from '../storage';
+import { createFakeChrome, createFakeClock, installFakeChrome, type FakeChrome } from './fakeChrome';
+
+export type ScenarioStep =
+  | { type: 'wait'; ms: number } // Time passes with the browser running (checkpoints fire)
+  | { type: 'sleep'; ms: number } // Machine asleep or browser closed: no checkpoints
+  | { type: 'restartWorker' } // Service worker suspended and restarted; in-memory state is lost
+  | { type: 'open'; url: string; windowId?: number; background?: boolean }
+  | { type: 'navigate'; url: string; tabId?: number } // Active tab of the focused window by default
+  | { type: 'activate'; tabId: number }
+  | { type: 'close'; tabId: number }
+  | { type: 'focus'; windowId: number | null } // null: no browser window focused
+  | { type: 'idle'; state: IdleState }
+  | { type: 'audible'; tabId: number; audible: boolean }
+  // State as of the last close-out (no extra checkpoint is taken); writes are all writes so far
+  | { type: 'expect'; state?: Partial<TrackingState>; writes?: RecordedWrite[] };
+
+/**
+ * A Supabase insert or Twilio call the engine asked for (usage is recorded separately)
+ */
+export type RecordedWrite =
+  | { table: 'productive_triggers'; user_id: string; domain: string; duration_seconds: number }
+  | { table: 'calls'; user_id: string };
+
+export interface Scenario {
+  name: string;
+  start?: number; // Epoch ms, 2024-01-15 09:00 UTC (a Monday) by default
+  timeZone?: string; // 'UTC' by default
+  rules?: ClassificationRules;
+  budgets?: Budget[];
+  state?: Partial<TrackingState>; // Initial state; signed in as 'user-1' unless userId is given
+  signals?: PageSignals[]; // Content signals, as if reported by content scripts
+  callsSucceed?: boolean | boolean[]; // Whether placing the AI call succeeds, per call in order with the last repeating (true by default)
+  callRetryMs?: number; // A call that doesn't go out asks to be retried this long after (not retried by default)
+  steps: ScenarioStep[];
+}
+
+export interface ScenarioResult {
+  name: string;
+  passed: boolean;
+  failures: string[];
+  state: TrackingState;
+  writes: RecordedWrite[];
+  visits: Omit<VisitSegment, 'id'>[];
+  usage: UsageSample[]; // Credited time, as batched for upload
+  budgetWarnings: BudgetWarning[];
+  creditTransactions: CreditTransaction[];
+  creditsRanOut: number; // Times the credit balance ran out
+  resets: Omit<CounterReset, 'id'>[];
+}
+
+const DEFAULT_START = Date.UTC(2024, 0, 15, 9);
+
+function describeStep(step: ScenarioStep, index: number): string {
+  return `step ${index + 1} (${step.type})`;
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Wire an engine to a fake browser the way background.ts wires the real one
+ */
+function startWorker(fake: FakeChrome, scenario: Scenario, result: Omit<ScenarioResult, 'passed' | 'state'>, now: () => number): TrackingEngine {
+  const rules = scenario.rules ?? DEFAULT_CLASSIFICATION_RULES;
+  const signals = scenario.signals ?? [];
+  const { events } = fake.controls;
+  // A restarted worker registers its listeners afresh
+  fake.controls.removeAllListeners();
+
+  const engine = createTrackingEngine({
+    now,
+    storage: { getState: getTrackingState, updateState: updateTrackingState },
+    sink: {
+      async recordProductiveTrigger(domain, durationMs, userId) {
+        result.writes.push({ table: 'productive_triggers', user_id: userId, domain, duration_seconds: Math.floor(durationMs / 1000) });
+      },
+      async recordUsage(usage) {
+        result.usage.push(usage);
+      },
+      async placeCall(userId) {
+        const outcomes = [scenario.callsSucceed ?? true].flat();
+        const placed = outcomes[Math.min(result.writes.filter((write) => write.table === 'calls').length, outcomes.length - 1)];
+        result.writes.push({ table: 'calls', user_id: userId });
+        return { placed, retryAt: placed || scenario.callRetryMs === undefined ? null : now() + scenario.callRetryMs };
+      },
+      async reachBudgetWarning(warning) {
+        result.budgetWarnings.push(warning);
+      },
+      async recordCreditTransactions(transactions) {
+        result.creditTransactions.push(...transactions);
+      },
+      async runOutOfCredits() {
+        result.creditsRanOut++;
+      },
+      async recordVisit(visit) {
+        result.visits.push(visit);
+      },
+      async recordCounterResets(resets) {
+        result.resets.push(...resets);
+      },
+    },
+    getRules: () => rules,
+    getBudgets: () => scenario.budgets ?? [],
+    getSignals: async (url) => signals.find((entry) => entry.url === url) ?? null,
+    getTimeZone: () => scenario.timeZone ?? 'UTC',
+  });
+
+  const getActiveTab = async (): Promise<chrome.tabs.Tab | null> => {
+    const windows = await fake.chrome.windows.getAll({ populate: true });
+    const focused = windows.find((window) => window.focused);
+    return focused?.tabs?.find((tab) => tab.active) ?? (await fake.chrome.tabs.query({ active: true }))[0] ?? null;
+  };
+
+  const refreshMediaTabs = async () => {
+    const state = await getTrackingState();
+    await engine.setMediaTabs(state.trackBackgroundMedia || state.keepCountingDuringMedia ? await findMediaTabs() : []);
+  };
+
+  // Same as runAccounting in background.ts: re-arm the threshold alarm after every transition
+  const account = async (task: () => Promise<void>) => {
+    await task();
+    const when = await engine.getThresholdTime();
+    if (when === null) {
+      await fake.chrome.alarms.clear('accountingThreshold');
+    } else {
+      fake.chrome.alarms.create('accountingThreshold', { when });
+    }
+  };
+
+  const checkpoint = async () => {
+    await engine.closeOutSpan();
+    const tab = await getActiveTab();
+    await engine.updateDomain(tab?.url ?? null, tab);
+    await refreshMediaTabs();
+  };
+
+  events.alarm.addListener((alarm) => {
+    if (alarm.name === 'accountingCheckpoint' || alarm.name === 'accountingThreshold') {
+      return account(checkpoint);
+    }
+  });
+  events.tabActivated.addListener(() =>
+    account(async () => {
+      const tab = await getActiveTab();
+      await engine.updateDomain(tab?.url ?? null, tab);
+    })
+  );
+  events.tabUpdated.addListener((_tabId, changeInfo, tab) =>
+    account(async () => {
+      if (changeInfo.audible !== undefined) {
+        await refreshMediaTabs();
+      }
+      if ((changeInfo.status === 'complete' || changeInfo.url) && tab.url) {
+        const activeTab = await getActiveTab();
+        if (activeTab?.url === tab.url) {
+          await engine.updateDomain(tab.url, activeTab);
+        }
+      }
+    })
+  );
+  events.tabRemoved.addListener(() => account(refreshMediaTabs));
+  events.focusChanged.addListener((windowId) =>
+    account(async () => {
+      await engine.setWindowFocused(windowId !== fake.chrome.windows.WINDOW_ID_NONE);
+      if (windowId !== fake.chrome.windows.WINDOW_ID_NONE) {
+        const tab = await getActiveTab();
+        await engine.updateDomain(tab?.url ?? null, tab);
+      }
+    })
+  );
+  events.idleChanged.addListener((idleState) => account(() => engine.setIdleState(idleState)));
+
+  return engine;
+}
+
+/**
+ * Replay one scenario and check its expectations
+ */
+export async function runScenario(scenario: Scenario): Promise<ScenarioResult> {
+  const clock = createFakeClock(scenario.start ?? DEFAULT_START);
+  const fake = createFakeChrome(clock);
+  installFakeChrome(fake);
+
+  const result: Omit<ScenarioResult, 'passed' | 'state'> = {
+    name: scenario.name,
+    failures: [],
+    writes: [],
+    visits: [],
+    usage: [],
+    budgetWarnings: [],
+    creditTransactions: [],
+    creditsRanOut: 0,
+    resets: [],
+  };
+  await updateTrackingState({ userId: 'user-1', ...scenario.state, lastTick: clock.now() });
+
+  let engine = startWorker(fake, scenario, result, clock.now);
+  fake.chrome.alarms.create('accountingCheckpoint', {
+    periodInMinutes: CHECKPOINT_INTERVAL_MS / 60000,
+    delayInMinutes: CHECKPOINT_INTERVAL_MS / 60000,
+  });
+  const mainWindow = await fake.controls.openWindow();
+
+  for (const [index, step] of scenario.steps.entries()) {
+    try {
+      switch (step.type) {
+        case 'wait':
+          await fake.controls.advanceTo(clock.now() + step.ms);
+          break;
+        case 'sleep':
+          await fake.controls.sleep(step.ms);
+          break;
+        case 'restartWorker':
+          engine = startWorker(fake, scenario, result, clock.now);
+          await engine.closeOutSpan();
+          break;
+        case 'open':
+          await fake.controls.openTab(step.url, step.windowId ?? mainWindow, !step.background);
+          break;
+        case 'navigate': {
+          const tabId = step.tabId ?? (await fake.chrome.tabs.query({ active: true, windowId: mainWindow }))[0]?.id;
+          if (tabId === undefined) throw new Error('no active tab to navigate');
+          await fake.controls.navigateTab(tabId, step.url);
+          break;
+        }
+        case 'activate':
+          await fake.controls.activateTab(step.tabId);
+          break;
+        case 'close':
+          await fake.controls.closeTab(step.tabId);
+          break;
+        case 'focus':
+          await fake.controls.focusWindow(step.windowId);
+          break;
+        case 'idle':
+          await fake.controls.setIdleState(step.state);
+          break;
+        case 'audible':
+          await fake.controls.setAudible(step.tabId, step.audible);
+          break;
+        case 'expect': {
+          const state = await getTrackingState();
+          for (const [key, expected] of Object.entries(step.state ?? {})) {
+            const actual = state[key as keyof TrackingState];
+            if (!sameJson(actual, expected)) {
+              result.failures.push(`${describeStep(step, index)}: expected ${key} ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+            }
+          }
+          if (step.writes && !sameJson(result.writes, step.writes)) {
+            result.failures.push(`${describeStep(step, index)}: expected writes ${JSON.stringify(step.writes)}, got ${JSON.stringify(result.writes)}`);
+          }
+          break;
+        }
+      }
+    } catch (error) {
+      result.failures.push(`${describeStep(step, index)} threw: ${error instanceof Error ? error.message : String(error)}`);
+      break;
+    }
+  }
+
+  return { ...result, passed: result.failures.length === 0, state: await getTrackingState() };
+}
+
+/**
+ * Run scenarios one after another and report each; resolves to whether all of them passed
+ */
+export async function runScenarios(scenarios: Scenario[]): Promise<boolean> {
+  let failed = 0;
+  for (const scenario of scenarios) {
+    const result = await runScenario(scenario);
+    if (result.passed) {
+      console.log(`✅ ${result.name}`);
+    } else {
+      failed++;
+      console.error(`❌ ${result.name}`);
+      result.failures.forEach((failure) => console.error(`   ${failure}`));
+    }
+  }
+  console.log(`${scenarios.length - failed}/${scenarios.length} scenarios passed`);
+  return failed === 0;
+}
@@ -0,0 +1,18 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runScenario } from './scenario';
+import { SCENARIOS } from './scenarios';
+
+describe('tracking scenarios', () => {
+  // The engine narrates every checkpoint; failures are reported through `result.failures` instead
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it.each(SCENARIOS.map((scenario) => [scenario.name, scenario] as const))('%s', async (_name, scenario) => {
+    const result = await runScenario(scenario);
+    expect(result.failures).toEqual([]);
+  });
+});
@@ -0,0 +1,44 @@
+import type { Scenario } from '../scenario';
+
+const BERLIN_MIDNIGHT = Date.UTC(2024, 0, 15, 23); // 2024-01-16 00:00 in Europe/Berlin
+
+/**
+ * Local midnight: daily budgets start over in the user's time zone
+ */
+export const dayRolloverScenarios: Scenario[] = [
+  {
+    name: 'budget usage starts over at local midnight',
+    start: BERLIN_MIDNIGHT - 60000,
+    timeZone: 'Europe/Berlin',
+    budgets: [{ id: 'video', target: { type: 'category', categoryId: 'video' }, minutes: 30, action: 'notify' }],
+    steps: [
+      { type: 'open', url: 'https://www.youtube.com/' },
+      { type: 'wait', ms: 60000 },
+      { type: 'expect', state: { budgetUsage: { day: '2024-01-15', usedMs: { video: 60000 }, warnedPercentage: {} } } },
+      { type: 'wait', ms: 90000 },
+      { type: 'expect', state: { budgetUsage: { day: '2024-01-16', usedMs: { video: 90000 }, warnedPercentage: {} } } },
+    ],
+  },
+  {
+    name: 'a span across midnight counts toward each day',
+    start: BERLIN_MIDNIGHT - 20000,
+    timeZone: 'Europe/Berlin',
+    budgets: [{ id: 'video', target: { type: 'category', categoryId: 'video' }, minutes: 30, action: 'notify' }],
+    steps: [
+      { type: 'open', url: 'https://www.youtube.com/' },
+      { type: 'wait', ms: 60000 },
+      { type: 'expect', state: { budgetUsage: { day: '2024-01-16', usedMs: { video: 40000 }, warnedPercentage: {} } } },
+    ],
+  },
+  {
+    name: 'midnight in UTC is not midnight in New York',
+    start: Date.UTC(2024, 0, 16) - 60000,
+    timeZone: 'America/New_York',
+    budgets: [{ id: 'video', target: { type: 'category', categoryId: 'video' }, minutes: 30, action: 'notify' }],
+    steps: [
+      { type: 'open', url: 'https://www.youtube.com/' },
+      { type: 'wait', ms: 120000 },
+      { type: 'expect', state: { budgetUsage: { day: '2024-01-15', usedMs: { video: 120000 }, warnedPercentage: {} } } },
+    ],
+  },
+];
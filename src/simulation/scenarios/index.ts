@@ -0,0 +1,12 @@
+import type { Scenario } from '../scenario';
+import { dayRolloverScenarios } from './dayRollover';
+import { sleepAndIdleScenarios } from './sleepAndIdle';
+import { tabSwitchScenarios } from './tabSwitches';
+import { thresholdScenarios } from './thresholds';
+
+export const SCENARIOS: Scenario[] = [
+  ...sleepAndIdleScenarios,
+  ...tabSwitchScenarios,
+  ...thresholdScenarios,
+  ...dayRolloverScenarios,
+];
@@ -0,0 +1,69 @@
+import type { Scenario } from '../scenario';
+
+/**
+ * Time the user wasn't there: machine sleep, idle and lock, and service worker suspension
+ */
+export const sleepAndIdleScenarios: Scenario[] = [
+  {
+    name: 'a machine sleep longer than the unobserved gap is not counted',
+    steps: [
+      { type: 'open', url: 'https://github.com/' },
+      { type: 'wait', ms: 60000 },
+      { type: 'sleep', ms: 10 * 60000 },
+      { type: 'wait', ms: 30000 },
+      { type: 'expect', state: { consecutiveProductiveMs: 90000, categoryTotals: { work: 90000 } } },
+    ],
+  },
+  {
+    name: 'a short gap between checkpoints is still counted',
+    steps: [
+      { type: 'open', url: 'https://github.com/' },
+      { type: 'sleep', ms: 90000 },
+      { type: 'expect', state: { consecutiveProductiveMs: 90000 } },
+    ],
+  },
+  {
+    name: 'idle with no browser window focused pauses the counter',
+    steps: [
+      { type: 'open', url: 'https://github.com/' },
+      { type: 'wait', ms: 30000 },
+      { type: 'focus', windowId: null },
+      { type: 'idle', state: 'idle' },
+      { type: 'wait', ms: 60000 },
+      { type: 'idle', state: 'active' },
+      { type: 'focus', windowId: 1 },
+      { type: 'wait', ms: 30000 },
+      { type: 'expect', state: { consecutiveProductiveMs: 60000, categoryTotals: { work: 60000 } } },
+    ],
+  },
+  {
+    name: 'idle in a focused window keeps counting under the default policy',
+    steps: [
+      { type: 'open', url: 'https://github.com/' },
+      { type: 'idle', state: 'idle' },
+      { type: 'wait', ms: 90000 },
+      { type: 'expect', state: { consecutiveProductiveMs: 90000 } },
+    ],
+  },
+  {
+    name: 'a locked screen pauses the counter',
+    state: { pauseWhenLocked: true },
+    steps: [
+      { type: 'open', url: 'https://github.com/' },
+      { type: 'wait', ms: 30000 },
+      { type: 'idle', state: 'locked' },
+      { type: 'wait', ms: 60000 },
+      { type: 'expect', state: { consecutiveProductiveMs: 30000 } },
+    ],
+  },
+  {
+    name: 'a worker restart keeps counting from the last checkpoint',
+    steps: [
+      { type: 'open', url: 'https://github.com/' },
+      { type: 'wait', ms: 40000 },
+      { type: 'restartWorker' },
+      { type: 'wait', ms: 20000 },
+      { type: 'expect', state: { consecutiveProductiveMs: 60000 } },
+    ],
+  },
+];
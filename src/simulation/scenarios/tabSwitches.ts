@@ -0,0 +1,60 @@
+import type { Scenario } from '../scenario';
+
+/**
+ * Switching tabs, sites and categories
+ */
+export const tabSwitchScenarios: Scenario[] = [
+  {
+    name: 'switching between productive sites keeps the streak',
+    steps: [
+      { type: 'open', url: 'https://github.com/' },
+      { type: 'wait', ms: 40000 },
+      { type: 'navigate', url: 'https://stackoverflow.com/' },
+      { type: 'wait', ms: 20000 }, // Checkpoints fire every 30 seconds
+      { type: 'expect', state: { consecutiveProductiveMs: 60000, currentDomain: 'stackoverflow.com' } },
+    ],
+  },
+  {
+    name: 'switching to an unproductive site resets the streak',
+    steps: [
+      { type: 'open', url: 'https://github.com/' },
+      { type: 'wait', ms: 40000 },
+      { type: 'navigate', url: 'https://www.youtube.com/' },
+      { type: 'wait', ms: 20000 },
+      {
+        type: 'expect',
+        state: { consecutiveProductiveMs: 0, unproductiveMsBuffer: 20000, categoryTotals: { work: 40000, video: 20000 } },
+      },
+    ],
+  },
+  {
+    name: 'switching back to a productive tab clears the unproductive buffer',
+    steps: [
+      { type: 'open', url: 'https://github.com/' },
+      { type: 'wait', ms: 20000 },
+      { type: 'open', url: 'https://www.youtube.com/' },
+      { type: 'wait', ms: 20000 },
+      { type: 'activate', tabId: 1 },
+      { type: 'wait', ms: 20000 },
+      { type: 'expect', state: { consecutiveProductiveMs: 20000, unproductiveMsBuffer: 0, currentTabId: 1 } },
+    ],
+  },
+  {
+    name: 'time on a tab is credited to it even when the switch comes between checkpoints',
+    steps: [
+      { type: 'open', url: 'https://github.com/' },
+      { type: 'wait', ms: 45000 },
+      { type: 'open', url: 'https://www.instagram.com/' },
+      { type: 'wait', ms: 15000 },
+      { type: 'expect', state: { categoryTotals: { work: 45000, social: 15000 } } },
+    ],
+  },
+  {
+    name: 'browser pages are not tracked',
+    steps: [
+      { type: 'open', url: 'chrome://newtab/' },
+      { type: 'wait', ms: 60000 },
+      { type: 'expect', state: { currentDomain: null, categoryTotals: {}, consecutiveProductiveMs: 0 } },
+    ],
+  },
+];
@@ -0,0 +1,106 @@
+import type { Scenario } from '../scenario';
+
+/**
+ * The productive trigger at 60 seconds and the escalation at 2 minutes
+ */
+export const thresholdScenarios: Scenario[] = [
+  {
+    name: 'crossing 60 seconds records a productive trigger once',
+    steps: [
+      { type: 'open', url: 'https://github.com/' },
+      { type: 'wait', ms: 90000 },
+      { type: 'expect', writes: [{ table: 'productive_triggers', user_id: 'user-1', domain: 'github.com', duration_seconds: 60 }] },
+    ],
+  },
+  {
+    name: 'crossing 2 minutes escalates and resets the streak',
+    steps: [
+      { type: 'open', url: 'https://github.com/' },
+      { type: 'wait', ms: 120000 },
+      {
+        type: 'expect',
+        state: { consecutiveProductiveMs: 0, categoryTotals: { work: 0 } },
+        writes: [
+          { table: 'productive_triggers', user_id: 'user-1', domain: 'github.com', duration_seconds: 60 },
+          { table: 'calls', user_id: 'user-1' },
+        ],
+      },
+    ],
+  },
+  {
+    name: 'an escalation that did not go out is retried while the streak lasts',
+    callsSucceed: [false, true],
+    callRetryMs: 300000, // E.g. held back by the cooldown
+    steps: [
+      { type: 'open', url: 'https://github.com/' },
+      { type: 'wait', ms: 240000 },
+      {
+        type: 'expect',
+        state: { consecutiveProductiveMs: 240000, streakEscalationRetryAt: 1705309620000 },
+        writes: [
+          { table: 'productive_triggers', user_id: 'user-1', domain: 'github.com', duration_seconds: 60 },
+          { table: 'calls', user_id: 'user-1' },
+        ],
+      },
+      { type: 'wait', ms: 180000 },
+      {
+        type: 'expect',
+        state: { consecutiveProductiveMs: 0, lastCallTriggerTime: 1705309620000, streakEscalationRetryAt: null },
+        writes: [
+          { table: 'productive_triggers', user_id: 'user-1', domain: 'github.com', duration_seconds: 60 },
+          { table: 'calls', user_id: 'user-1' },
+          { table: 'calls', user_id: 'user-1' },
+        ],
+      },
+    ],
+  },
+  {
+    name: 'an escalation that did not go out is not retried once the streak ends',
+    callsSucceed: false,
+    callRetryMs: 300000,
+    steps: [
+      { type: 'open', url: 'https://github.com/' },
+      { type: 'wait', ms: 150000 },
+      { type: 'navigate', url: 'https://www.youtube.com/' },
+      { type: 'wait', ms: 600000 },
+      {
+        type: 'expect',
+        state: { consecutiveProductiveMs: 0 },
+        writes: [
+          { table: 'productive_triggers', user_id: 'user-1', domain: 'github.com', duration_seconds: 60 },
+          { table: 'calls', user_id: 'user-1' },
+          { table: 'productive_triggers', user_id: 'user-1', domain: 'github.com', duration_seconds: 150 }, // The streak, on leaving
+        ],
+      },
+    ],
+  },
+  {
+    name: 'the threshold is crossed on time between checkpoints',
+    steps: [
+      { type: 'wait', ms: 10000 }, // Off the checkpoint grid
+      { type: 'open', url: 'https://github.com/' },
+      { type: 'wait', ms: 120000 },
+      { type: 'expect', state: { consecutiveProductiveMs: 0, lastCallTriggerTime: 1705309330000 } },
+    ],
+  },
+  {
+    name: 'a passing unproductive page between checkpoints resets the streak',
+    steps: [
+      { type: 'open', url: 'https://github.com/' },
+      { type: 'wait', ms: 60000 },
+      { type: 'navigate', url: 'https://www.youtube.com/' },
+      { type: 'navigate', url: 'https://github.com/' },
+      { type: 'wait', ms: 30000 },
+      { type: 'expect', state: { consecutiveProductiveMs: 30000, unproductiveMsBuffer: 0 } },
+    ],
+  },
+  {
+    name: 'signed-out time is not credited',
+    state: { userId: null },
+    steps: [
+      { type: 'open', url: 'https://github.com/' },
+      { type: 'wait', ms: 150000 },
+      { type: 'expect', state: { consecutiveProductiveMs: 0, categoryTotals: {} }, writes: [] },
+    ],
+  },
+];
@@ -2,48 +2,228 @@
  * Storage utilities for managing extension state
  */
 
+import { DEFAULT_CLASSIFICATION_RULES, type CategoryTotals, type ClassificationRules } from './classify';
+import type { BlockOverride, OverrideLogEntry } from './blocking';
+import type { Budget, BudgetUsage } from './budgets';
+import type { CreditLedger, CreditSettings, CreditTransaction } from './credits';
+import type { EscalationLogEntry, EscalationSettings } from './escalation';
+import { DEFAULT_ESCALATION_POLICY, type EscalationCount } from './escalationPolicy';
+import type { FocusReport, FocusSession } from './focus';
+import type { Outbox } from './outbox';
+import type { SharedListsCache } from './sharedLists';
+import type { UsageBatch } from './usage';
+
+// How time is shared when an audible/media tab plays behind the foreground tab
+export type MediaOverlapPolicy = 'foreground' | 'unproductive' | 'split';
+
+// When tracked time pauses: while idle, while no browser window is focused, only when both, or never
+export type PausePolicy = 'idle' | 'unfocused' | 'both' | 'never';
+
+// Last state reported by chrome.idle
+export type IdleState = 'active' | 'idle' | 'locked';
+
+/**
+ * A background tab playing audio/video (or in picture-in-picture) while its time is tracked
+ */
+export interface MediaTab {
+  tabId: number;
+  windowId: number;
+  url: string;
+}
+
 export interface TrackingState {
+  revision: number; // Bumped on every write; a write based on an older revision is rejected
+  settingsRevision: number; // Bumped when the popup changes TrackingSettings; accounting leaves it alone
   currentDomain: string | null;
-  lastTick: number;
+  currentUrl: string | null; // Full URL of the tracked tab (needed for path/regex rules)
+  currentCategory: string | null; // Category id the current page was last classified as
+  currentTabId: number | null;
+  currentWindowId: number | null;
+  lastTick: number; // Time is accounted up to this timestamp
+  idleState: IdleState;
+  isWindowFocused: boolean; // Whether a browser window had focus at the last transition
+  pausePolicy: PausePolicy;
+  pauseWhenLocked: boolean; // A locked screen always pauses, regardless of the pause policy
+  idleDetectionSeconds: number; // Passed to chrome.idle.setDetectionInterval (minimum 15)
+  keepCountingDuringMedia: boolean; // Idle doesn't pause while the foreground tab plays media
+  uploadIntervalMinutes: number; // How often usage aggregates are uploaded to Supabase
+  trackBackgroundMedia: boolean; // Also credit audible/media-playing tabs in every window
+  mediaOverlapPolicy: MediaOverlapPolicy;
+  mediaTabs: MediaTab[]; // Media tabs playing since the last transition
   consecutiveProductiveMs: number;
   unproductiveMsBuffer: number;
-  totalProductiveMs: number; // Total accumulated productive time
-  totalUnproductiveMs: number; // Total accumulated unproductive time
+  categoryTotals: CategoryTotals; // Total accumulated time per category id
+  budgetUsage: BudgetUsage; // Today's time per daily budget and the warnings already sent
+  creditSettings: CreditSettings; // Earn-to-scroll: ratio, cap, decay and what happens at zero
+  credits: CreditLedger; // Scroll credit balance
+  focusSession: FocusSession | null; // Running focus session (work or break phase)
+  blockDuringFocus: boolean; // Block distracting categories during a focus session's work phase
+  blockOverrides: BlockOverride[]; // Domains let through the blocking interstitial for a while
   userId: string | null;
   theme: 'light' | 'dark'; // Theme preference
   lastLeaderboardUpdate: number; // Timestamp of last leaderboard update
-  lastCallTriggerTime: number; // Timestamp of last AI agent call trigger
+  lastCallTriggerTime: number; // Timestamp of the last escalation that went out (cooldowns count from it)
+  streakEscalationRetryAt: number | null; // When a productive streak escalation that didn't go out is tried again
+  escalations: EscalationCount; // Escalations that went out today (daily cap and severity tier)
 }
 
 const DEFAULT_STATE: TrackingState = {
+  revision: 0,
+  settingsRevision: 0,
   currentDomain: null,
+  currentUrl: null,
+  currentCategory: null,
+  currentTabId: null,
+  currentWindowId: null,
   lastTick: Date.now(),
+  idleState: 'active',
+  isWindowFocused: true,
+  pausePolicy: 'both',
+  pauseWhenLocked: true,
+  idleDetectionSeconds: 60,
+  keepCountingDuringMedia: false,
+  uploadIntervalMinutes: 5,
+  trackBackgroundMedia: false,
+  mediaOverlapPolicy: 'foreground',
+  mediaTabs: [],
   consecutiveProductiveMs: 0,
   unproductiveMsBuffer: 0,
-  totalProductiveMs: 0,
-  totalUnproductiveMs: 0,
+  categoryTotals: {},
+  budgetUsage: { day: null, usedMs: {}, warnedPercentage: {} },
+  creditSettings: { enabled: false, earnRatio: 4, maxBalanceMinutes: 60, dailyDecayPercent: 50, exhaustedAction: 'notify' },
+  credits: { balanceMs: 0, day: null, exhaustedNotified: false },
+  focusSession: null,
+  blockDuringFocus: true,
+  blockOverrides: [],
   userId: null,
   theme: 'light',
   lastLeaderboardUpdate: 0,
   lastCallTriggerTime: 0,
+  streakEscalationRetryAt: null,
+  escalations: { day: null, count: 0 },
 };
 
-const STORAGE_KEY = 'trackingState';
+export const TRACKING_STATE_STORAGE_KEY = 'trackingState';
+export const RULES_STORAGE_KEY = 'classificationRules';
+export const SHARED_LISTS_STORAGE_KEY = 'sharedLists';
+export const OUTBOX_STORAGE_KEY = 'outbox';
+export const USAGE_BATCH_STORAGE_KEY = 'usageBatch';
+export const FOCUS_REPORTS_STORAGE_KEY = 'focusReports';
+export const OVERRIDE_LOG_STORAGE_KEY = 'overrideLog';
+export const BUDGETS_STORAGE_KEY = 'budgets';
+export const CREDIT_TRANSACTIONS_STORAGE_KEY = 'creditTransactions';
+export const ESCALATION_SETTINGS_STORAGE_KEY = 'escalationSettings';
+export const ESCALATION_LOG_STORAGE_KEY = 'escalationLog';
+
+const DEFAULT_SHARED_LISTS: SharedListsCache = {
+  sets: [],
+  available: [],
+  lastSyncedAt: 0,
+  lastError: null,
+};
+
+const DEFAULT_USAGE_BATCH: UsageBatch = {
+  rows: [],
+  lastUploadAt: 0,
+};
+
+// Every trigger calls, as before channels could be chosen
+const DEFAULT_ESCALATION_SETTINGS: EscalationSettings = {
+  channels: {
+    productiveStreak: ['voice'],
+    budget: ['voice'],
+    credits: ['voice'],
+  },
+  webhook: { url: '', format: 'slack' },
+  policy: DEFAULT_ESCALATION_POLICY,
+};
+
+const DEFAULT_OUTBOX: Outbox = {
+  entries: [],
+  deadLetters: [],
+  lastError: null,
+  lastErrorAt: 0,
+  lastSyncedAt: 0,
+};
 
 export async function getTrackingState(): Promise<TrackingState> {
-  const result = await chrome.storage.local.get(STORAGE_KEY);
-  return result[STORAGE_KEY] || { ...DEFAULT_STATE };
+  const result = await chrome.storage.local.get(TRACKING_STATE_STORAGE_KEY);
+  const stored = result[TRACKING_STATE_STORAGE_KEY];
+
+  // Carry totals from the old productive/unproductive fields over to categories
+  if (stored && !stored.categoryTotals && ('totalProductiveMs' in stored || 'totalUnproductiveMs' in stored)) {
+    const { totalProductiveMs = 0, totalUnproductiveMs = 0, ...rest } = stored;
+    return { ...DEFAULT_STATE, ...rest, categoryTotals: { work: totalProductiveMs, video: totalUnproductiveMs } };
+  }
+
+  // Merge with defaults so fields added in newer versions are always present
+  return { ...DEFAULT_STATE, ...stored };
+}
+
+/**
+ * Settings the popup can change (through the background, which owns TrackingState)
+ */
+export type TrackingSettings = Partial<
+  Pick<
+    TrackingState,
+    | 'theme'
+    | 'trackBackgroundMedia'
+    | 'mediaOverlapPolicy'
+    | 'pausePolicy'
+    | 'pauseWhenLocked'
+    | 'idleDetectionSeconds'
+    | 'keepCountingDuringMedia'
+    | 'uploadIntervalMinutes'
+    | 'blockDuringFocus'
+    | 'creditSettings'
+  >
+>;
+
+/**
+ * A write based on a TrackingState revision that is no longer the stored one
+ */
+export class StaleRevisionError extends Error {
+  constructor(expected: number, actual: number) {
+    super(`Tracking state changed (revision ${actual}, write based on ${expected})`);
+    this.name = 'StaleRevisionError';
+  }
 }
 
-export async function setTrackingState(state: TrackingState): Promise<void> {
-  await chrome.storage.local.set({ [STORAGE_KEY]: state });
+// Writes from this context run one at a time, so a read-modify-write can't interleave with another
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function enqueueWrite<T>(write: () => Promise<T>): Promise<T> {
+  const run = writeQueue.then(write);
+  writeQueue = run.catch(() => undefined);
+  return run;
 }
 
-export async function updateTrackingState(updates: Partial<TrackingState>): Promise<TrackingState> {
-  const current = await getTrackingState();
-  const updated = { ...current, ...updates };
-  await setTrackingState(updated);
-  return updated;
+async function writeTrackingState(state: TrackingState, expectedRevision: number): Promise<TrackingState> {
+  const stored = await getTrackingState();
+  if (stored.revision !== expectedRevision) {
+    throw new StaleRevisionError(expectedRevision, stored.revision);
+  }
+  const written = { ...state, revision: expectedRevision + 1 };
+  await chrome.storage.local.set({ [TRACKING_STATE_STORAGE_KEY]: written });
+  return written;
+}
+
+/**
+ * Replace the state. `state.revision` must still be the stored revision.
+ */
+export async function setTrackingState(state: TrackingState): Promise<TrackingState> {
+  return enqueueWrite(() => writeTrackingState(state, state.revision));
+}
+
+/**
+ * Merge updates into the stored state. Only the background should call this (it owns the state);
+ * with `expectedRevision`, the write is rejected if the state changed since that revision.
+ */
+export async function updateTrackingState(updates: Partial<TrackingState>, expectedRevision?: number): Promise<TrackingState> {
+  return enqueueWrite(async () => {
+    const current = await getTrackingState();
+    return writeTrackingState({ ...current, ...updates }, expectedRevision ?? current.revision);
+  });
 }
 
 export async function getUserId(): Promise<string | null> {
@@ -55,3 +235,104 @@ export async function setUserId(userId: string | null): Promise<void> {
   await updateTrackingState({ userId });
 }
 
+
+export async function getClassificationRules(): Promise<ClassificationRules> {
+  const result = await chrome.storage.local.get(RULES_STORAGE_KEY);
+  return { ...DEFAULT_CLASSIFICATION_RULES, ...result[RULES_STORAGE_KEY] };
+}
+
+export async function setClassificationRules(rules: ClassificationRules): Promise<void> {
+  await chrome.storage.local.set({ [RULES_STORAGE_KEY]: rules });
+}
+
+export async function getSharedListsCache(): Promise<SharedListsCache> {
+  const result = await chrome.storage.local.get(SHARED_LISTS_STORAGE_KEY);
+  return { ...DEFAULT_SHARED_LISTS, ...result[SHARED_LISTS_STORAGE_KEY] };
+}
+
+export async function setSharedListsCache(cache: SharedListsCache): Promise<void> {
+  await chrome.storage.local.set({ [SHARED_LISTS_STORAGE_KEY]: cache });
+}
+
+export async function clearSharedListsCache(): Promise<void> {
+  await chrome.storage.local.remove(SHARED_LISTS_STORAGE_KEY);
+}
+
+export async function getOutbox(): Promise<Outbox> {
+  const result = await chrome.storage.local.get(OUTBOX_STORAGE_KEY);
+  // Fresh arrays, as the outbox pushes into them before saving
+  return { ...DEFAULT_OUTBOX, entries: [], deadLetters: [], ...result[OUTBOX_STORAGE_KEY] };
+}
+
+export async function setOutbox(outbox: Outbox): Promise<void> {
+  await chrome.storage.local.set({ [OUTBOX_STORAGE_KEY]: outbox });
+}
+
+export async function getUsageBatch(): Promise<UsageBatch> {
+  const result = await chrome.storage.local.get(USAGE_BATCH_STORAGE_KEY);
+  return { ...DEFAULT_USAGE_BATCH, ...result[USAGE_BATCH_STORAGE_KEY] };
+}
+
+export async function setUsageBatch(batch: UsageBatch): Promise<void> {
+  await chrome.storage.local.set({ [USAGE_BATCH_STORAGE_KEY]: batch });
+}
+
+export async function getFocusReports(): Promise<FocusReport[]> {
+  const result = await chrome.storage.local.get(FOCUS_REPORTS_STORAGE_KEY);
+  return result[FOCUS_REPORTS_STORAGE_KEY] ?? [];
+}
+
+export async function setFocusReports(reports: FocusReport[]): Promise<void> {
+  await chrome.storage.local.set({ [FOCUS_REPORTS_STORAGE_KEY]: reports });
+}
+
+export async function getOverrideLog(): Promise<OverrideLogEntry[]> {
+  const result = await chrome.storage.local.get(OVERRIDE_LOG_STORAGE_KEY);
+  return result[OVERRIDE_LOG_STORAGE_KEY] ?? [];
+}
+
+export async function setOverrideLog(log: OverrideLogEntry[]): Promise<void> {
+  await chrome.storage.local.set({ [OVERRIDE_LOG_STORAGE_KEY]: log });
+}
+
+export async function getBudgets(): Promise<Budget[]> {
+  const result = await chrome.storage.local.get(BUDGETS_STORAGE_KEY);
+  return result[BUDGETS_STORAGE_KEY] ?? [];
+}
+
+export async function setBudgets(budgets: Budget[]): Promise<void> {
+  await chrome.storage.local.set({ [BUDGETS_STORAGE_KEY]: budgets });
+}
+
+export async function getCreditTransactions(): Promise<CreditTransaction[]> {
+  const result = await chrome.storage.local.get(CREDIT_TRANSACTIONS_STORAGE_KEY);
+  return result[CREDIT_TRANSACTIONS_STORAGE_KEY] ?? [];
+}
+
+export async function setCreditTransactions(transactions: CreditTransaction[]): Promise<void> {
+  await chrome.storage.local.set({ [CREDIT_TRANSACTIONS_STORAGE_KEY]: transactions });
+}
+
+export async function getEscalationSettings(): Promise<EscalationSettings> {
+  const result = await chrome.storage.local.get(ESCALATION_SETTINGS_STORAGE_KEY);
+  const stored: Partial<EscalationSettings> = result[ESCALATION_SETTINGS_STORAGE_KEY] ?? {};
+  return {
+    ...DEFAULT_ESCALATION_SETTINGS,
+    ...stored,
+    channels: { ...DEFAULT_ESCALATION_SETTINGS.channels, ...stored.channels },
+    policy: { ...DEFAULT_ESCALATION_SETTINGS.policy, ...stored.policy },
+  };
+}
+
+export async function setEscalationSettings(settings: EscalationSettings): Promise<void> {
+  await chrome.storage.local.set({ [ESCALATION_SETTINGS_STORAGE_KEY]: settings });
+}
+
+export async function getEscalationLog(): Promise<EscalationLogEntry[]> {
+  const result = await chrome.storage.local.get(ESCALATION_LOG_STORAGE_KEY);
+  return result[ESCALATION_LOG_STORAGE_KEY] ?? [];
+}
+
+export async function setEscalationLog(log: EscalationLogEntry[]): Promise<void> {
+  await chrome.storage.local.set({ [ESCALATION_LOG_STORAGE_KEY]: log });
+}
@@ -0,0 +1,126 @@
+/**
+ * Batched usage uploads
+ *
+ * Credited time is summed locally per hour, domain and category, and uploaded on the upload
+ * cadence as one upsert into `usage_aggregates` (through the outbox). A row carries the hour's
+ * running total rather than an increment, so sending it again (a retry, or the next upload while
+ * the hour is still open) overwrites it with the same or a larger value and the total stays exact.
+ */
+import { MAX_UNOBSERVED_GAP_MS } from './accounting';
+import type { CategorySide } from './classify';
+import { enqueue, type UsageAggregate } from './outbox';
+import { getUsageBatch, setUsageBatch } from './storage';
+
+export const USAGE_INTERVAL_MS = 60 * 60000; // Rows are keyed by the hour they fall in
+export const UPLOAD_INTERVAL_OPTIONS_MINUTES = [1, 5, 15, 60];
+
+/**
+ * Time credited to one page, as reported by the engine
+ */
+export interface UsageSample {
+  userId: string;
+  domain: string;
+  category: string;
+  side: CategorySide;
+  start: number;
+  end: number;
+}
+
+export interface UsageRow {
+  userId: string;
+  intervalStart: number;
+  domain: string;
+  category: string;
+  side: CategorySide;
+  ms: number;
+  uploadedMs: number; // Total as of the last upload; the row is re-sent while ms differs
+}
+
+export interface UsageBatch {
+  rows: UsageRow[];
+  lastUploadAt: number;
+}
+
+// Credits and uploads both read-modify-write the batch; run them one at a time
+let batchQueue: Promise<unknown> = Promise.resolve();
+
+function withBatch<T>(task: () => Promise<T>): Promise<T> {
+  const run = batchQueue.then(task);
+  batchQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Split a span at hour boundaries
+ */
+function splitByInterval(start: number, end: number): { intervalStart: number; ms: number }[] {
+  const parts: { intervalStart: number; ms: number }[] = [];
+  let partStart = start;
+  while (partStart < end) {
+    const intervalStart = Math.floor(partStart / USAGE_INTERVAL_MS) * USAGE_INTERVAL_MS;
+    const partEnd = Math.min(end, intervalStart + USAGE_INTERVAL_MS);
+    parts.push({ intervalStart, ms: partEnd - partStart });
+    partStart = partEnd;
+  }
+  return parts;
+}
+
+/**
+ * Add credited time to the local batch. Nothing is sent until the next upload.
+ */
+export async function recordUsage(sample: UsageSample): Promise<void> {
+  await withBatch(async () => {
+    const batch = await getUsageBatch();
+    for (const { intervalStart, ms } of splitByInterval(sample.start, sample.end)) {
+      const row = batch.rows.find(
+        (existing) =>
+          existing.userId === sample.userId &&
+          existing.intervalStart === intervalStart &&
+          existing.domain === sample.domain &&
+          existing.category === sample.category
+      );
+      if (row) {
+        row.ms += ms;
+      } else {
+        const { userId, domain, category, side } = sample;
+        batch.rows.push({ userId, intervalStart, domain, category, side, ms, uploadedMs: 0 });
+      }
+    }
+    await setUsageBatch(batch);
+  });
+}
+
+/**
+ * Queue the rows that changed since the last upload, one upsert per user.
+ * A row is dropped once it is uploaded and its hour can no longer receive time: a close-out
+ * never credits a span that started more than MAX_UNOBSERVED_GAP_MS ago.
+ */
+export async function uploadUsage(now: number = Date.now()): Promise<void> {
+  await withBatch(async () => {
+    const batch = await getUsageBatch();
+    const changed = batch.rows.filter((row) => row.ms !== row.uploadedMs);
+
+    for (const userId of new Set(changed.map((row) => row.userId))) {
+      const rows: UsageAggregate[] = changed
+        .filter((row) => row.userId === userId)
+        .map((row) => ({
+          intervalStart: new Date(row.intervalStart).toISOString(),
+          domain: row.domain,
+          category: row.category,
+          side: row.side,
+          ms: row.ms,
+        }));
+      await enqueue({ kind: 'usageAggregates', userId, rows }, now);
+    }
+    if (changed.length > 0) {
+      console.log(`📤 Queued ${changed.length} usage aggregate${changed.length === 1 ? '' : 's'} for upload`);
+    }
+
+    changed.forEach((row) => {
+      row.uploadedMs = row.ms;
+    });
+    batch.rows = batch.rows.filter((row) => row.intervalStart + USAGE_INTERVAL_MS + MAX_UNOBSERVED_GAP_MS > now);
+    batch.lastUploadAt = now;
+    await setUsageBatch(batch);
+  });
+}
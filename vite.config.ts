@@ -16,18 +16,20 @@ export default defineConfig({
           resolve(__dirname, 'manifest.json'),
           resolve(__dirname, 'dist/manifest.json')
         );
-        // Copy popup HTML to correct location and fix asset paths
-        const popupPath = resolve(__dirname, 'dist/src/popup/index.html');
-        const targetPath = resolve(__dirname, 'dist/popup/index.html');
-        try {
-          let content = readFileSync(popupPath, 'utf-8');
-          // Fix absolute paths to relative paths
-          content = content.replace(/src="\/assets\//g, 'src="../assets/');
-          content = content.replace(/href="\/assets\//g, 'href="../assets/');
-          mkdirSync(resolve(__dirname, 'dist/popup'), { recursive: true });
-          writeFileSync(targetPath, content);
-        } catch (error) {
-          console.warn('Could not copy popup HTML:', error);
+        // Copy the popup and blocking interstitial HTML to their extension paths and fix asset paths
+        for (const page of ['popup', 'blocked']) {
+          const pagePath = resolve(__dirname, `dist/src/${page}/index.html`);
+          const targetPath = resolve(__dirname, `dist/${page}/index.html`);
+          try {
+            let content = readFileSync(pagePath, 'utf-8');
+            // Fix absolute paths to relative paths
+            content = content.replace(/src="\/assets\//g, 'src="../assets/');
+            content = content.replace(/href="\/assets\//g, 'href="../assets/');
+            mkdirSync(resolve(__dirname, `dist/${page}`), { recursive: true });
+            writeFileSync(targetPath, content);
+          } catch (error) {
+            console.warn(`Could not copy ${page} HTML:`, error);
+          }
         }
       },
     },
@@ -37,13 +39,19 @@ export default defineConfig({
     rollupOptions: {
       input: {
         background: resolve(__dirname, 'src/background.ts'),
+        content: resolve(__dirname, 'src/content.ts'),
         popup: resolve(__dirname, 'src/popup/index.html'),
+        blocked: resolve(__dirname, 'src/blocked/index.html'),
       },
       output: {
         entryFileNames: (chunkInfo) => {
           if (chunkInfo.name === 'background') {
             return 'background.js';
           }
+          if (chunkInfo.name === 'content') {
+            // Content scripts cannot be ES modules, so this entry must not import shared chunks
+            return 'content.js';
+          }
           return 'assets/[name]-[hash].js';
         },
         chunkFileNames: 'assets/[name]-[hash].js',